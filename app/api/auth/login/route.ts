@@ -0,0 +1,41 @@
+import { startLogin, verifyPassword } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1, "email is required"),
+  password: z.string().min(1, "password is required"),
+});
+
+export async function POST(req: Request) {
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = loginSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: parsed.email },
+  });
+
+  // Same answer for unknown emails and wrong passwords.
+  if (!user || !(await verifyPassword(parsed.password, user.passwordHash))) {
+    return NextResponse.json(
+      { error: "Invalid email or password" },
+      { status: 401 }
+    );
+  }
+
+  await startLogin(user.id);
+
+  return NextResponse.json({
+    user: { id: user.id, email: user.email, name: user.name },
+  });
+}
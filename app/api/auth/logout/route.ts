@@ -0,0 +1,7 @@
+import { endLogin } from "@/lib/auth";
+import { NextResponse } from "next/server";
+
+export async function POST() {
+  await endLogin();
+  return NextResponse.json({ signedOut: true });
+}
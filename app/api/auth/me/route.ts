@@ -0,0 +1,12 @@
+import { getCurrentUser } from "@/lib/auth";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  return NextResponse.json({ user });
+}
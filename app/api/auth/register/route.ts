@@ -0,0 +1,70 @@
+import { hashPassword, startLogin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  name: z
+    .string()
+    .trim()
+    .min(1, "name is required")
+    .max(100, "name must be 100 characters or less"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(200, "Password must be 200 characters or less"),
+});
+
+export async function POST(req: Request) {
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = registerSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const passwordHash = await hashPassword(parsed.password);
+
+  try {
+    const user = await prisma.$transaction(async (tx) => {
+      const isFirstUser = (await tx.user.count()) === 0;
+      const created = await tx.user.create({
+        data: { email: parsed.email, name: parsed.name, passwordHash },
+        select: { id: true, email: true, name: true },
+      });
+
+      // Sessions created before accounts existed go to the first account,
+      // so upgrading does not lock everyone out of them.
+      if (isFirstUser) {
+        await tx.session.updateMany({
+          where: { ownerId: null },
+          data: { ownerId: created.id },
+        });
+      }
+
+      return created;
+    });
+
+    await startLogin(user.id);
+    return NextResponse.json({ user });
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "An account with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    throw err;
+  }
+}
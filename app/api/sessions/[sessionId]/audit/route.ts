@@ -0,0 +1,68 @@
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Newest first. Pass the last event's id as `cursor` to page further back.
+export async function GET(req: Request, context: Params) {
+  const url = new URL(req.url);
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) || url.pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const limitParam = Number(url.searchParams.get("limit"));
+  const limit =
+    Number.isInteger(limitParam) && limitParam > 0
+      ? Math.min(limitParam, MAX_LIMIT)
+      : DEFAULT_LIMIT;
+  const cursor = url.searchParams.get("cursor");
+
+  const events = await prisma.auditEvent.findMany({
+    where: { sessionId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  });
+
+  const page = events.slice(0, limit);
+
+  return NextResponse.json({
+    sessionId,
+    events: page.map((event) => ({
+      id: event.id,
+      action: event.action,
+      actorId: event.actorId,
+      actorName: event.actorName,
+      summary: event.summary,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      createdAt: event.createdAt,
+    })),
+    nextCursor: events.length > limit ? page[page.length - 1]?.id : null,
+  });
+}
@@ -0,0 +1,156 @@
+import { authorizeSession } from "@/lib/auth";
+import {
+  claimDeadline,
+  claimWinnerInclude,
+  serializeClaimWinner,
+  setClaimed,
+} from "@/lib/claims";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; winnerId: string | string[] }
+        | Promise<{
+            sessionId: string | string[];
+            winnerId: string | string[];
+          }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+async function resolveIds(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  return {
+    sessionId: normalize(params?.sessionId) || segments[3],
+    winnerId: normalize(params?.winnerId) || segments[5],
+  };
+}
+
+const claimSchema = z.object({
+  note: z
+    .string()
+    .trim()
+    .max(500, "note must be 500 characters or less")
+    .optional()
+    .transform((value) => value || null),
+});
+
+class ClaimRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+// POST records the handover, DELETE reopens the claim. A prize cannot be
+// handed over once its deadline has passed; extend the session's claim
+// window and reopen it instead.
+async function setClaim(req: Request, context: Params, claimed: boolean) {
+  const { sessionId, winnerId } = await resolveIds(req, context);
+
+  if (!sessionId || !winnerId) {
+    return NextResponse.json(
+      { error: "Session id and winner id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let note: string | null = null;
+  if (claimed) {
+    try {
+      const text = await req.text();
+      note = claimSchema.parse(text ? JSON.parse(text) : {}).note;
+    } catch (err) {
+      const message =
+        err instanceof z.ZodError
+          ? err.issues[0]?.message || "Invalid input"
+          : "Invalid JSON body";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const winner = await tx.winner.findFirst({
+        where: { id: winnerId, draw: { sessionId, voidedAt: null } },
+        include: {
+          ...claimWinnerInclude,
+          draw: {
+            select: {
+              ...claimWinnerInclude.draw.select,
+              session: { select: { claimWindowMinutes: true } },
+            },
+          },
+        },
+      });
+
+      if (!winner) {
+        throw new ClaimRejectedError("Winner not found", 404);
+      }
+
+      const claimWindowMinutes = winner.draw.session.claimWindowMinutes;
+
+      if (claimed && winner.claimStatus === "UNCLAIMED") {
+        const deadline = claimDeadline(winner.createdAt, claimWindowMinutes);
+        if (deadline && deadline < new Date()) {
+          throw new ClaimRejectedError(
+            "The claim deadline for this prize has passed",
+            409
+          );
+        }
+      }
+
+      if (claimed && winner.claimStatus === "EXPIRED") {
+        throw new ClaimRejectedError(
+          "This prize expired unclaimed; reopen it before handing it over",
+          409
+        );
+      }
+
+      const changed = await setClaimed(tx, req, {
+        sessionId,
+        winner,
+        actor: access.user,
+        claimed,
+        note,
+      });
+
+      const updated = await tx.winner.findUniqueOrThrow({
+        where: { id: winner.id },
+        include: claimWinnerInclude,
+      });
+      return { changed, winner: updated, claimWindowMinutes };
+    });
+
+    return NextResponse.json({
+      changed: result.changed,
+      claim: serializeClaimWinner(result.winner, result.claimWindowMinutes),
+    });
+  } catch (err) {
+    if (err instanceof ClaimRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+export async function POST(req: Request, context: Params) {
+  return setClaim(req, context, true);
+}
+
+export async function DELETE(req: Request, context: Params) {
+  return setClaim(req, context, false);
+}
@@ -0,0 +1,184 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { EXPIRED_CLAIM_REASON, overdueWinnerWhere } from "@/lib/claims";
+import { forfeitWinner } from "@/lib/forfeits";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const expireSchema = z.object({
+  // Also forfeit every expired prize and draw a replacement for it.
+  redraw: z.boolean().default(false),
+});
+
+// A redraw of every expired prize touches many rows in one go.
+const EXPIRE_TIMEOUT_MS = 60_000;
+
+// Marks overdue unclaimed prizes as expired. With redraw, every expired
+// prize (including ones expired earlier) is forfeited and goes to a fresh
+// winner, who gets a full claim window of their own.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const text = await req.text();
+    parsed = expireSchema.parse(text ? JSON.parse(text) : {});
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { claimWindowMinutes: true },
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const claimWindowMinutes = session.claimWindowMinutes;
+  if (claimWindowMinutes === null) {
+    return NextResponse.json(
+      { error: "Set a claim window for this session first" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const { count: expired } = await tx.winner.updateMany({
+          where: overdueWinnerWhere(sessionId, claimWindowMinutes),
+          data: { claimStatus: "EXPIRED" },
+        });
+
+        const redrawn: {
+          name: string;
+          prizeName: string;
+          replacementName: string | null;
+        }[] = [];
+
+        if (parsed.redraw) {
+          const expiredWhere = {
+            draw: { sessionId, voidedAt: null },
+            claimStatus: "EXPIRED",
+          };
+
+          // Prize locks first, in a fixed order so two operators cannot
+          // deadlock, then the winners are read again under them.
+          const expiredPrizes = await tx.winner.findMany({
+            where: expiredWhere,
+            select: { draw: { select: { prizeId: true } } },
+          });
+          const prizeIds = [
+            ...new Set(expiredPrizes.map((winner) => winner.draw.prizeId)),
+          ].sort();
+          for (const prizeId of prizeIds) {
+            await tx.$queryRaw`SELECT "id" FROM "Prize" WHERE "id" = ${prizeId} FOR UPDATE`;
+          }
+
+          const expiredWinners = await tx.winner.findMany({
+            where: expiredWhere,
+            include: {
+              contestant: { select: { name: true } },
+              draw: {
+                select: {
+                  id: true,
+                  prize: { select: { eligibleCategories: true } },
+                },
+              },
+            },
+            orderBy: [{ createdAt: "asc" }, { position: "asc" }],
+          });
+
+          for (const winner of expiredWinners) {
+            const { replacement } = await forfeitWinner(tx, {
+              sessionId,
+              draw: winner.draw,
+              winner,
+              reason: EXPIRED_CLAIM_REASON,
+              forfeitedBy: access.user.name,
+              redraw: true,
+              keepEligible: false,
+            });
+            redrawn.push({
+              name: winner.contestant.name,
+              prizeName: winner.prizeName,
+              replacementName: replacement?.name ?? null,
+            });
+          }
+        }
+
+        if (expired > 0 || redrawn.length > 0) {
+          await recordAudit(tx, req, {
+            sessionId,
+            actor: access.user,
+            action: "claims.expire",
+            summary: {
+              claimWindowMinutes,
+              expired,
+              redrawn: redrawn.length,
+              replaced: redrawn.filter((entry) => entry.replacementName).length,
+              winners: redrawn,
+            },
+          });
+        }
+
+        return { expired, redrawn };
+      },
+      { timeout: EXPIRE_TIMEOUT_MS }
+    );
+
+    return NextResponse.json({
+      sessionId,
+      expired: result.expired,
+      redrawn: result.redrawn,
+    });
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "A replacement contestant already has a prize. Please refresh and try again.",
+        },
+        { status: 409 }
+      );
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,112 @@
+import { authorizeSession } from "@/lib/auth";
+import {
+  CLAIM_STATUSES,
+  type ClaimStatus,
+  claimSearchWhere,
+  claimWinnerInclude,
+  overdueWinnerWhere,
+  serializeClaimWinner,
+} from "@/lib/claims";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Winners of live draws with their claim status, for the claim desk.
+// ?search= narrows to a name, ID, ticket number or ticket code and
+// ?status= to one claim status.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const url = new URL(req.url);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) || url.pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const search = url.searchParams.get("search")?.trim() ?? "";
+  const statusParam = url.searchParams.get("status");
+  const status = CLAIM_STATUSES.find((value) => value === statusParam);
+
+  if (statusParam && !status) {
+    return NextResponse.json(
+      { error: `status must be one of ${CLAIM_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { claimWindowMinutes: true },
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  const sessionWinners = { draw: { sessionId, voidedAt: null } };
+
+  const now = new Date();
+
+  const [winners, grouped, overdue] = await Promise.all([
+    prisma.winner.findMany({
+      where: {
+        AND: [
+          sessionWinners,
+          status ? { claimStatus: status } : {},
+          search ? claimSearchWhere(search) : {},
+        ],
+      },
+      include: claimWinnerInclude,
+      orderBy: [{ createdAt: "asc" }, { position: "asc" }],
+    }),
+    prisma.winner.groupBy({
+      by: ["claimStatus"],
+      where: sessionWinners,
+      _count: { _all: true },
+    }),
+    session.claimWindowMinutes === null
+      ? 0
+      : prisma.winner.count({
+          where: overdueWinnerWhere(sessionId, session.claimWindowMinutes, now),
+        }),
+  ]);
+
+  const counts = Object.fromEntries(
+    CLAIM_STATUSES.map((value) => [value, 0])
+  ) as Record<ClaimStatus, number>;
+  grouped.forEach((group) => {
+    if (group.claimStatus in counts) {
+      counts[group.claimStatus as ClaimStatus] = group._count._all;
+    }
+  });
+
+  const claims = winners.map((winner) =>
+    serializeClaimWinner(winner, session.claimWindowMinutes, now)
+  );
+
+  return NextResponse.json({
+    sessionId,
+    claimWindowMinutes: session.claimWindowMinutes,
+    counts: { ...counts, overdue },
+    claims,
+  });
+}
@@ -0,0 +1,87 @@
+import { authorizeSession } from "@/lib/auth";
+import { markCheckedIn } from "@/lib/check-in";
+import { serializeContestantWithTicket } from "@/lib/contestants";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; contestantId: string | string[] }
+        | Promise<{
+            sessionId: string | string[];
+            contestantId: string | string[];
+          }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+async function resolveIds(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  return {
+    sessionId: normalize(params?.sessionId) || segments[3],
+    contestantId: normalize(params?.contestantId) || segments[5],
+  };
+}
+
+// POST checks the contestant in, DELETE takes the check-in back. Winners can
+// be checked in too: arriving late does not undo a prize.
+async function setCheckIn(req: Request, context: Params, checkedIn: boolean) {
+  const { sessionId, contestantId } = await resolveIds(req, context);
+
+  if (!sessionId || !contestantId) {
+    return NextResponse.json(
+      { error: "Session id and contestant id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const result = await prisma.$transaction(async (tx) => {
+    const contestant = await tx.contestant.findFirst({
+      where: { id: contestantId, sessionId },
+      select: { id: true, name: true },
+    });
+    if (!contestant) return null;
+
+    const changed = await markCheckedIn(tx, req, {
+      sessionId,
+      contestant,
+      actor: access.user,
+      checkedIn,
+    });
+
+    const updated = await tx.contestant.findUniqueOrThrow({
+      where: { id: contestantId },
+      include: { winner: true },
+    });
+    return { changed, contestant: updated };
+  });
+
+  if (!result) {
+    return NextResponse.json(
+      { error: "Contestant not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({
+    changed: result.changed,
+    contestant: serializeContestantWithTicket(result.contestant),
+  });
+}
+
+export async function POST(req: Request, context: Params) {
+  return setCheckIn(req, context, true);
+}
+
+export async function DELETE(req: Request, context: Params) {
+  return setCheckIn(req, context, false);
+}
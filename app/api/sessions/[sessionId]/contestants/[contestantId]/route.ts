@@ -0,0 +1,260 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import {
+  DUPLICATE_CONTESTANT_MESSAGE,
+  contestantUpdateSchema,
+  findIdentityClash,
+  serializeContestant,
+} from "@/lib/contestants";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; contestantId: string | string[] }
+        | Promise<{
+            sessionId: string | string[];
+            contestantId: string | string[];
+          }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+class ContestantRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+async function resolveIds(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  return {
+    sessionId: normalize(params?.sessionId) || segments[3],
+    contestantId: normalize(params?.contestantId) || segments[5],
+  };
+}
+
+// A winner's record is part of the draw result, so it is locked once drawn.
+async function loadEditable(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  contestantId: string
+) {
+  const contestant = await tx.contestant.findFirst({
+    where: { id: contestantId, sessionId },
+    include: { winner: { select: { id: true } } },
+  });
+
+  if (!contestant) {
+    throw new ContestantRejectedError("Contestant not found", 404);
+  }
+
+  if (contestant.winner) {
+    throw new ContestantRejectedError(
+      "Winners cannot be changed. Void the draw or forfeit the win first.",
+      409
+    );
+  }
+
+  return contestant;
+}
+
+function errorResponse(err: unknown) {
+  if (err instanceof ContestantRejectedError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    // A draw picked this person while the edit was in flight.
+    if (err.code === "P2003") {
+      return NextResponse.json(
+        {
+          error:
+            "Contestant is part of a draw's history and cannot be removed.",
+        },
+        { status: 409 }
+      );
+    }
+    if (err.code === "P2002") {
+      return NextResponse.json(
+        { error: DUPLICATE_CONTESTANT_MESSAGE },
+        { status: 409 }
+      );
+    }
+  }
+
+  throw err;
+}
+
+export async function PATCH(req: Request, context: Params) {
+  const { sessionId, contestantId } = await resolveIds(req, context);
+
+  if (!sessionId || !contestantId) {
+    return NextResponse.json(
+      { error: "Session id and contestant id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = contestantUpdateSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const updated = await prisma.$transaction(async (tx) => {
+      const current = await loadEditable(tx, sessionId, contestantId);
+
+      const identity = {
+        name: parsed.name ?? current.name,
+        externalId:
+          parsed.externalId === undefined
+            ? current.externalId
+            : parsed.externalId,
+      };
+
+      if (
+        (parsed.name !== undefined || parsed.externalId !== undefined) &&
+        (await findIdentityClash(tx, sessionId, identity, contestantId))
+      ) {
+        throw new ContestantRejectedError(DUPLICATE_CONTESTANT_MESSAGE, 409);
+      }
+
+      const { withdrawn, ...changes } = parsed;
+
+      // Guarded again in the write itself, in case a draw lands in between.
+      const { count } = await tx.contestant.updateMany({
+        where: { id: contestantId, winner: null },
+        data: {
+          ...changes,
+          ...(withdrawn === undefined
+            ? {}
+            : {
+                withdrawnAt: withdrawn
+                  ? current.withdrawnAt ?? new Date()
+                  : null,
+              }),
+        },
+      });
+
+      if (count === 0) {
+        throw new ContestantRejectedError(
+          "Winners cannot be changed. Void the draw or forfeit the win first.",
+          409
+        );
+      }
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "contestant.update",
+        summary: {
+          contestantId,
+          name: parsed.name ?? current.name,
+          before: {
+            name: current.name,
+            externalId: current.externalId,
+            tickets: current.tickets,
+            categories: current.categories,
+            withdrawn: current.withdrawnAt !== null,
+          },
+          changes: parsed,
+        },
+      });
+
+      return tx.contestant.findUniqueOrThrow({ where: { id: contestantId } });
+    });
+
+    return NextResponse.json(serializeContestant(updated));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Only people who never took part in a draw can be removed; anyone on a
+// draw's record (won, voided or forfeited) has to stay for verification.
+export async function DELETE(req: Request, context: Params) {
+  const { sessionId, contestantId } = await resolveIds(req, context);
+
+  if (!sessionId || !contestantId) {
+    return NextResponse.json(
+      { error: "Session id and contestant id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const contestant = await loadEditable(tx, sessionId, contestantId);
+
+      const history = await tx.contestant.findUnique({
+        where: { id: contestantId },
+        select: {
+          _count: {
+            select: {
+              forfeits: true,
+              replacedForfeits: true,
+              voidedWins: true,
+            },
+          },
+        },
+      });
+
+      if (
+        history &&
+        history._count.forfeits +
+          history._count.replacedForfeits +
+          history._count.voidedWins >
+          0
+      ) {
+        throw new ContestantRejectedError(
+          "Contestant is part of a draw's history and cannot be removed.",
+          409
+        );
+      }
+
+      await tx.contestant.delete({ where: { id: contestantId } });
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "contestant.delete",
+        summary: {
+          contestantId,
+          name: contestant.name,
+          externalId: contestant.externalId,
+          tickets: contestant.tickets,
+          categories: contestant.categories,
+        },
+      });
+    });
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
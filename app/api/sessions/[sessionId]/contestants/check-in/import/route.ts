@@ -0,0 +1,146 @@
+import { auditEventData } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { extractAttendance, readAttendanceForm } from "@/lib/check-in";
+import { readImportTable } from "@/lib/import-file";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+// Enough for the desk to chase up a few names without flooding the response.
+const MAX_UNMATCHED_LISTED = 50;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Bulk check-in from an attendance list, such as a badge printer or
+// door-scanner export. Rows are matched by ID when the file has one and by
+// name otherwise, and either column alone will do; nobody is created here.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const form = await readAttendanceForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
+  }
+
+  const table = await readImportTable(form.file, form.sheet);
+
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
+  }
+
+  const extracted = extractAttendance(table.rows, form.mapping);
+
+  if ("error" in extracted) {
+    return NextResponse.json({ error: extracted.error }, { status: 400 });
+  }
+
+  const contestants = await prisma.contestant.findMany({
+    where: { sessionId },
+    select: { id: true, name: true, externalId: true, checkedInAt: true },
+  });
+
+  const byExternalId = new Map<string, (typeof contestants)[number]>();
+  const byName = new Map<string, typeof contestants>();
+  for (const contestant of contestants) {
+    if (contestant.externalId) {
+      byExternalId.set(contestant.externalId.toLowerCase(), contestant);
+    }
+    const key = contestant.name.toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), contestant]);
+  }
+
+  const matchedIds = new Set<string>();
+  // With the file line, so the desk can find the row in the spreadsheet.
+  const unmatched: { line: number; value: string }[] = [];
+  let ambiguous = 0;
+
+  for (const { line, name, externalId } of extracted.rows) {
+    if (!name && !externalId) continue;
+
+    if (externalId) {
+      const match = byExternalId.get(externalId.toLowerCase());
+      if (match) {
+        matchedIds.add(match.id);
+        continue;
+      }
+      // A bare list's values are tried as names too.
+      if (!extracted.bareList || !name) {
+        unmatched.push({ line, value: externalId });
+        continue;
+      }
+    }
+
+    if (!name) continue;
+
+    const sameName = byName.get(name.toLowerCase()) ?? [];
+    if (sameName.length === 1) {
+      matchedIds.add(sameName[0].id);
+    } else if (sameName.length > 1) {
+      // Two people share the name and the file has no ID to tell them apart.
+      ambiguous += 1;
+      unmatched.push({ line, value: name });
+    } else {
+      unmatched.push({ line, value: name });
+    }
+  }
+
+  const toCheckIn = contestants
+    .filter((contestant) => matchedIds.has(contestant.id))
+    .filter((contestant) => !contestant.checkedInAt)
+    .map((contestant) => contestant.id);
+
+  const summary = {
+    fileName: form.file.name,
+    totalRows: extracted.totalRows,
+    matched: matchedIds.size,
+    alreadyCheckedIn: matchedIds.size - toCheckIn.length,
+    unmatched: unmatched.length,
+    ambiguous,
+  };
+
+  const [{ count: checkedIn }] = await prisma.$transaction([
+    prisma.contestant.updateMany({
+      where: { id: { in: toCheckIn }, sessionId, checkedInAt: null },
+      data: { checkedInAt: new Date(), checkedInBy: access.user.name },
+    }),
+    prisma.auditEvent.create({
+      data: auditEventData(req, {
+        sessionId,
+        actor: access.user,
+        action: "contestants.checkInImport",
+        summary: { ...summary, checkedIn: toCheckIn.length },
+      }),
+    }),
+  ]);
+
+  return NextResponse.json({
+    sessionId,
+    ...summary,
+    checkedIn,
+    unmatchedRows: unmatched.slice(0, MAX_UNMATCHED_LISTED),
+  });
+}
@@ -0,0 +1,106 @@
+import { authorizeSession } from "@/lib/auth";
+import { findContestantsByCode, markCheckedIn } from "@/lib/check-in";
+import { serializeContestantWithTicket } from "@/lib/contestants";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+const scanSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, "code is required")
+    .max(200, "code must be 200 characters or less"),
+});
+
+class CheckInRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Check-in by scanned code, for the desk at the venue entrance.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = scanSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const matches = await findContestantsByCode(tx, sessionId, parsed.code);
+
+      if (matches.length === 0) {
+        throw new CheckInRejectedError("No contestant matches this code", 404);
+      }
+      if (matches.length > 1) {
+        throw new CheckInRejectedError(
+          "This code matches more than one contestant; search by name instead",
+          409
+        );
+      }
+
+      const [contestant] = matches;
+      const changed = await markCheckedIn(tx, req, {
+        sessionId,
+        contestant,
+        actor: access.user,
+        checkedIn: true,
+      });
+
+      const updated = await tx.contestant.findUniqueOrThrow({
+        where: { id: contestant.id },
+        include: { winner: true },
+      });
+      return { changed, contestant: updated };
+    });
+
+    return NextResponse.json({
+      changed: result.changed,
+      contestant: serializeContestantWithTicket(result.contestant),
+    });
+  } catch (err) {
+    if (err instanceof CheckInRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
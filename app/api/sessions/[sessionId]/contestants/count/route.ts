@@ -1,3 +1,4 @@
+import { authorizeSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 
@@ -24,14 +25,8 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
 
   const count = await prisma.contestant.count({
     where: { sessionId },
@@ -0,0 +1,86 @@
+import { authorizeSession } from "@/lib/auth";
+import { analyzeImport, readImportForm } from "@/lib/contestant-import";
+import { readImportTable } from "@/lib/import-file";
+import { suggestColumnMapping } from "@/lib/import-mapping";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | { params: { sessionId: string | string[] } | Promise<{ sessionId: string | string[] }> }
+  | undefined;
+
+const SAMPLE_ROWS = 5;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// First phase of an import: reports what the file would add without writing
+// anything, so the operator can fix the mapping before confirming.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const form = await readImportForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
+  }
+
+  const table = await readImportTable(form.file, form.sheet);
+
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
+  }
+
+  const analysis = await analyzeImport(
+    prisma,
+    sessionId,
+    table.rows,
+    form.mapping,
+    form.mode
+  );
+
+  if ("error" in analysis) {
+    return NextResponse.json({ error: analysis.error }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    sessionId,
+    sheets: table.sheets,
+    sheet: table.sheet,
+    headers: analysis.headers,
+    suggestedMapping: suggestColumnMapping(analysis.headers),
+    mapping: analysis.mapping,
+    mode: analysis.mode,
+    sampleRows: analysis.entries.slice(0, SAMPLE_ROWS),
+    totalRows: analysis.totalRows,
+    validNames: analysis.validNames,
+    toInsert: analysis.entries.length,
+    toUpdate: analysis.updates.length,
+    unchanged: analysis.unchanged,
+    toRestore: analysis.restored,
+    toWithdraw: analysis.withdrawIds.length,
+    toRemove: analysis.removeIds.length,
+    kept: analysis.kept,
+    rejected: analysis.rejected.length,
+    skippedDuplicatesInFile: analysis.skippedDuplicatesInFile,
+    skippedDuplicatesInDb: analysis.skippedDuplicatesInDb,
+    skippedInvalidTickets: analysis.skippedInvalidTickets,
+    skippedInvalidEmails: analysis.skippedInvalidEmails,
+  });
+}
@@ -1,51 +1,28 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import {
+  analyzeImport,
+  readImportForm,
+  REMOVABLE_CONTESTANT_WHERE,
+} from "@/lib/contestant-import";
+import { readImportTable } from "@/lib/import-file";
 import { prisma } from "@/lib/prisma";
-import Papa from "papaparse";
+import { newTicketCode } from "@/lib/tickets";
 import { NextResponse } from "next/server";
 
 type Params =
   | { params: { sessionId: string | string[] } | Promise<{ sessionId: string | string[] }> }
   | undefined;
 
-const NAME_FIELD = "name";
-
-function extractNames(csvText: string) {
-  const headerResult = Papa.parse<Record<string, string | undefined>>(csvText, {
-    header: true,
-    skipEmptyLines: false,
-  });
-
-  const nameField = headerResult.meta.fields?.find(
-    (field) => field?.toLowerCase() === NAME_FIELD
-  );
-
-  if (nameField) {
-    const rawNames = headerResult.data.map((row) => row?.[nameField] ?? "");
-    return {
-      totalRows: headerResult.data.length,
-      rawNames,
-    };
-  }
-
-  const noHeaderResult = Papa.parse<string[]>(csvText, {
-    header: false,
-    skipEmptyLines: false,
-  });
-
-  const rawNames = noHeaderResult.data.map((row) =>
-    Array.isArray(row) ? row[0] ?? "" : ""
-  );
-
-  return {
-    totalRows: noHeaderResult.data.length,
-    rawNames,
-  };
-}
+const IMPORT_TIMEOUT_MS = 60000;
 
 function normalizeSessionId(raw: string | string[] | undefined): string | null {
   if (Array.isArray(raw)) return raw[0] ?? null;
   return raw ?? null;
 }
 
+// Second phase of an import: the client has seen the preview and sends the
+// same file back with the mapping it settled on.
 export async function POST(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
 
@@ -60,83 +37,159 @@ export async function POST(req: Request, context: Params) {
     );
   }
 
-  const formData = await req.formData();
-  const file = formData.get("file");
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
 
-  if (!file || !(file instanceof File)) {
-    return NextResponse.json({ error: "No CSV file uploaded" }, { status: 400 });
+  const form = await readImportForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
+  const table = await readImportTable(form.file, form.sheet);
 
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
   }
 
-  const csvText = await file.text();
-  const { rawNames, totalRows } = extractNames(csvText);
-
-  const cleanedNames = rawNames
-    .map((name) => (typeof name === "string" ? name.trim() : ""))
-    .filter((name) => name.length > 0);
+  const analysis = await analyzeImport(
+    prisma,
+    sessionId,
+    table.rows,
+    form.mapping,
+    form.mode
+  );
 
-  const validNames = cleanedNames.length;
+  if ("error" in analysis) {
+    return NextResponse.json({ error: analysis.error }, { status: 400 });
+  }
 
-  if (validNames === 0) {
+  // A file with no usable rows must never turn a replace or sync into a
+  // wipe.
+  if (analysis.acceptedRows === 0) {
     return NextResponse.json(
-      { error: "No valid contestant names found" },
+      { error: "No valid contestant rows found" },
       { status: 400 }
     );
   }
 
-  const seenNames = new Set<string>();
-  const uniqueNames: string[] = [];
-  let skippedDuplicatesInFile = 0;
-
-  for (const name of cleanedNames) {
-    const key = name.toLowerCase();
-    if (seenNames.has(key)) {
-      skippedDuplicatesInFile += 1;
-      continue;
-    }
-    seenNames.add(key);
-    uniqueNames.push(name);
-  }
-
-  const existingContestants = await prisma.contestant.findMany({
-    where: { sessionId },
-    select: { name: true },
-  });
-
-  const existingLower = new Set(
-    existingContestants.map((contestant) => contestant.name.toLowerCase())
-  );
-
-  const namesToInsert = uniqueNames.filter(
-    (name) => !existingLower.has(name.toLowerCase())
+  const {
+    mode,
+    totalRows,
+    validNames,
+    entries,
+    updates,
+    unchanged,
+    restored,
+    withdrawIds,
+    removeIds,
+    kept,
+    rejected,
+    skippedDuplicatesInFile,
+    skippedDuplicatesInDb,
+    skippedInvalidTickets,
+    skippedInvalidEmails,
+  } = analysis;
+
+  const counts = await prisma.$transaction(
+    async (tx) => {
+      // Every write repeats the winner guard, in case a draw lands between
+      // the analysis and this transaction.
+      const removed =
+        removeIds.length > 0
+          ? (
+              await tx.contestant.deleteMany({
+                where: {
+                  id: { in: removeIds },
+                  sessionId,
+                  ...REMOVABLE_CONTESTANT_WHERE,
+                },
+              })
+            ).count
+          : 0;
+
+      let updated = 0;
+      for (const update of updates) {
+        const result = await tx.contestant.updateMany({
+          where: { id: update.id, sessionId, winner: null },
+          data: update.data,
+        });
+        updated += result.count;
+      }
+
+      const withdrawn =
+        withdrawIds.length > 0
+          ? (
+              await tx.contestant.updateMany({
+                where: {
+                  id: { in: withdrawIds },
+                  sessionId,
+                  winner: null,
+                  withdrawnAt: null,
+                },
+                data: { withdrawnAt: new Date() },
+              })
+            ).count
+          : 0;
+
+      const inserted =
+        entries.length > 0
+          ? (
+              await tx.contestant.createMany({
+                data: entries.map((entry) => ({
+                  ...entry,
+                  sessionId,
+                  ticketCode: newTicketCode(),
+                })),
+                skipDuplicates: true,
+              })
+            ).count
+          : 0;
+
+      const result = {
+        inserted,
+        updated,
+        unchanged,
+        restored,
+        withdrawn,
+        removed,
+        kept,
+      };
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "contestants.import",
+        summary: {
+          fileName: form.file.name,
+          sheet: table.sheet,
+          mode,
+          mapping: analysis.mapping,
+          totalRows,
+          ...result,
+          skippedDuplicatesInFile,
+          skippedDuplicatesInDb,
+          skippedInvalidTickets,
+          skippedInvalidEmails,
+        },
+      });
+
+      return result;
+    },
+    // Merges run one update per changed row.
+    { timeout: IMPORT_TIMEOUT_MS }
   );
 
-  const skippedDuplicatesInDb = uniqueNames.length - namesToInsert.length;
-
-  const inserted =
-    namesToInsert.length > 0
-      ? (
-          await prisma.contestant.createMany({
-            data: namesToInsert.map((name) => ({ name, sessionId })),
-            skipDuplicates: true,
-          })
-        ).count
-      : 0;
-
   return NextResponse.json({
     sessionId,
+    mode,
     totalRows,
     validNames,
-    inserted,
+    ...counts,
+    rejected: rejected.length,
     skippedDuplicatesInFile,
     skippedDuplicatesInDb,
+    skippedInvalidTickets,
+    skippedInvalidEmails,
   });
 }
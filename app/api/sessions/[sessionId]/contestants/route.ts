@@ -1,5 +1,17 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import {
+  DUPLICATE_CONTESTANT_MESSAGE,
+  contestantCreateSchema,
+  findIdentityClash,
+  serializeContestant,
+} from "@/lib/contestants";
+import { eligibleContestantWhere } from "@/lib/eligibility";
 import { prisma } from "@/lib/prisma";
+import { newTicketCode } from "@/lib/tickets";
+import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
 type Params =
   | { params: { sessionId: string | string[] } | Promise<{ sessionId: string | string[] }> }
@@ -10,16 +22,53 @@ function normalizeSessionId(raw: string | string[] | undefined): string | null {
   return raw ?? null;
 }
 
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function isTrue(value: string | null): boolean {
+  return value !== null && ["true", "1", "yes"].includes(value.toLowerCase());
+}
+
+function isFalse(value: string | null): boolean {
+  return value !== null && ["false", "0", "no"].includes(value.toLowerCase());
+}
+
+function pickRandom<T>(items: T[], count: number): T[] {
+  const pool = [...items];
+  for (let i = pool.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+// Filters: `search` (name, ID or email), `eligible=true`, `won=true|false`,
+// `checkedIn=true|false` and `prizeId`, which narrows eligibility to that
+// prize and `won=true` to its winners.
+// Results come a page at a time; pass `nextCursor` back as `cursor`.
+// `sample=N` instead returns N random matches, for the presenter's roll.
 export async function GET(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
   const url = new URL(req.url);
   const sessionId =
     normalizeSessionId(params?.sessionId) ||
     url.pathname.split("/")[3];
-  const eligibleParam = url.searchParams.get("eligible");
-  const filterEligible =
-    eligibleParam !== null &&
-    ["true", "1", "yes"].includes(eligibleParam.toLowerCase());
+  const filterEligible = isTrue(url.searchParams.get("eligible"));
+  const wonParam = url.searchParams.get("won");
+  const checkedInParam = url.searchParams.get("checkedIn");
+  const prizeId = url.searchParams.get("prizeId");
+  const search = url.searchParams.get("search")?.trim() ?? "";
+  const cursor = url.searchParams.get("cursor");
+  const limitParam = Number(url.searchParams.get("limit"));
+  const limit =
+    Number.isInteger(limitParam) && limitParam > 0
+      ? Math.min(limitParam, MAX_LIMIT)
+      : DEFAULT_LIMIT;
+  const sampleParam = Number(url.searchParams.get("sample"));
+  const sample =
+    Number.isInteger(sampleParam) && sampleParam > 0
+      ? Math.min(sampleParam, MAX_LIMIT)
+      : null;
 
   if (!sessionId) {
     return NextResponse.json(
@@ -28,34 +77,162 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
 
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  const prize = prizeId
+    ? await prisma.prize.findFirst({
+        where: { id: prizeId, sessionId },
+        select: { eligibleCategories: true },
+      })
+    : null;
+
+  if (prizeId && !prize) {
+    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
   }
 
-  const [contestants, total, eligible] = await Promise.all([
-    prisma.contestant.findMany({
-      where: { sessionId, ...(filterEligible ? { winner: null } : {}) },
-      include: { winner: true },
-      orderBy: { name: "asc" },
-    }),
+  const eligibleWhere = eligibleContestantWhere(sessionId, prize);
+
+  const filters: Prisma.ContestantWhereInput[] = [
+    filterEligible ? eligibleWhere : { sessionId },
+  ];
+  if (search) {
+    filters.push({
+      OR: [
+        { name: { contains: search, mode: "insensitive" } },
+        { externalId: { contains: search, mode: "insensitive" } },
+        { email: { contains: search, mode: "insensitive" } },
+      ],
+    });
+  }
+  if (isTrue(wonParam)) {
+    filters.push({
+      winner: prizeId ? { draw: { prizeId } } : { isNot: null },
+    });
+  } else if (isFalse(wonParam)) {
+    filters.push({ winner: null });
+  }
+  if (isTrue(checkedInParam)) {
+    filters.push({ checkedInAt: { not: null } });
+  } else if (isFalse(checkedInParam)) {
+    filters.push({ checkedInAt: null });
+  }
+  const where: Prisma.ContestantWhereInput = { AND: filters };
+
+  const [total, eligible, checkedIn, matched] = await Promise.all([
     prisma.contestant.count({ where: { sessionId } }),
-    prisma.contestant.count({ where: { sessionId, winner: null } }),
+    prisma.contestant.count({ where: eligibleWhere }),
+    prisma.contestant.count({
+      where: { sessionId, checkedInAt: { not: null } },
+    }),
+    prisma.contestant.count({ where }),
   ]);
 
+  let contestants;
+  let nextCursor: string | null = null;
+
+  if (sample) {
+    const ids = await prisma.contestant.findMany({
+      where,
+      select: { id: true },
+    });
+    contestants = await prisma.contestant.findMany({
+      where: { id: { in: pickRandom(ids, sample).map((c) => c.id) } },
+      include: { winner: true },
+    });
+  } else {
+    const page = await prisma.contestant.findMany({
+      where,
+      include: { winner: true },
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    contestants = page.slice(0, limit);
+    nextCursor =
+      page.length > limit ? contestants[contestants.length - 1].id : null;
+  }
+
   return NextResponse.json({
     sessionId,
     total,
     eligible,
-    contestants: contestants.map((contestant) => ({
-      id: contestant.id,
-      name: contestant.name,
-      hasPrize: Boolean(contestant.winner),
-      prizeName: contestant.winner?.prizeName ?? null,
-    })),
+    checkedIn,
+    matched,
+    nextCursor,
+    contestants: contestants.map(serializeContestant),
   });
 }
+
+// Single walk-in registration, alongside the bulk CSV import.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = contestantCreateSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const contestant = await prisma.$transaction(async (tx) => {
+      const identity = {
+        name: parsed.name,
+        externalId: parsed.externalId ?? null,
+      };
+      if (await findIdentityClash(tx, sessionId, identity)) return null;
+
+      const created = await tx.contestant.create({
+        data: { ...parsed, sessionId, ticketCode: newTicketCode() },
+      });
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "contestant.create",
+        summary: {
+          contestantId: created.id,
+          name: created.name,
+          externalId: created.externalId,
+          tickets: created.tickets,
+          categories: created.categories,
+        },
+      });
+
+      return created;
+    });
+
+    if (!contestant) {
+      return NextResponse.json({ error: DUPLICATE_CONTESTANT_MESSAGE }, { status: 409 });
+    }
+
+    return NextResponse.json(serializeContestant(contestant));
+  } catch (err) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return NextResponse.json({ error: DUPLICATE_CONTESTANT_MESSAGE }, { status: 409 });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,85 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type RouteParams = {
+  sessionId: string | string[];
+  drawId: string | string[];
+  forfeitId: string | string[];
+};
+
+type Params = { params: RouteParams | Promise<RouteParams> } | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+// Puts a forfeited contestant back into the eligible pool for future draws.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  const sessionId = normalize(params?.sessionId) || segments[3];
+  const drawId = normalize(params?.drawId) || segments[5];
+  const forfeitId = normalize(params?.forfeitId) || segments[7];
+
+  if (!sessionId || !drawId || !forfeitId) {
+    return NextResponse.json(
+      { error: "Session id, draw id and forfeit id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const forfeit = await prisma.forfeit.findFirst({
+    where: { id: forfeitId, drawId, draw: { sessionId } },
+    select: {
+      id: true,
+      reinstatedAt: true,
+      contestant: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!forfeit) {
+    return NextResponse.json({ error: "Forfeit not found" }, { status: 404 });
+  }
+
+  if (forfeit.reinstatedAt) {
+    return NextResponse.json(
+      { error: "Contestant has already been reinstated" },
+      { status: 409 }
+    );
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const reinstated = await tx.forfeit.update({
+      where: { id: forfeit.id },
+      data: { reinstatedAt: new Date() },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "forfeit.reinstate",
+      summary: {
+        drawId,
+        forfeitId: forfeit.id,
+        contestantId: forfeit.contestant.id,
+        contestantName: forfeit.contestant.name,
+      },
+    });
+
+    return reinstated;
+  });
+
+  return NextResponse.json({
+    forfeitId: updated.id,
+    drawId,
+    sessionId,
+    contestantId: updated.contestantId,
+    reinstatedAt: updated.reinstatedAt,
+  });
+}
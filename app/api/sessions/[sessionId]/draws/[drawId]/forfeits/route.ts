@@ -0,0 +1,177 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { forfeitWinner } from "@/lib/forfeits";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; drawId: string | string[] }
+        | Promise<{ sessionId: string | string[]; drawId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+const forfeitSchema = z.object({
+  contestantId: z.string().min(1, "contestantId is required"),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "reason is required")
+    .max(500, "reason must be 500 characters or less"),
+  redraw: z.boolean().default(true),
+  keepEligible: z.boolean().default(false),
+});
+
+class ForfeitRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalize(params?.sessionId) || new URL(req.url).pathname.split("/")[3];
+  const drawId =
+    normalize(params?.drawId) || new URL(req.url).pathname.split("/")[5];
+
+  if (!sessionId || !drawId) {
+    return NextResponse.json(
+      { error: "Session id and draw id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const draw = await prisma.draw.findFirst({
+    where: { id: drawId, sessionId },
+    include: {
+      prize: { select: { id: true, eligibleCategories: true } },
+    },
+  });
+
+  if (!draw) {
+    return NextResponse.json({ error: "Draw not found" }, { status: 404 });
+  }
+
+  if (draw.voidedAt) {
+    return NextResponse.json(
+      { error: "Draw has been voided" },
+      { status: 409 }
+    );
+  }
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = forfeitSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      // Same lock as POST /draws, so a replacement never races a new draw
+      // for the last unit of this prize.
+      await tx.$queryRaw`SELECT "id" FROM "Prize" WHERE "id" = ${draw.prizeId} FOR UPDATE`;
+
+      const winner = await tx.winner.findFirst({
+        where: { drawId, contestantId: parsed.contestantId },
+        include: { contestant: { select: { id: true, name: true } } },
+      });
+
+      if (!winner) {
+        throw new ForfeitRejectedError(
+          "Contestant is not a current winner of this draw",
+          404
+        );
+      }
+
+      const { forfeit, replacement } = await forfeitWinner(tx, {
+        sessionId,
+        draw,
+        winner,
+        reason: parsed.reason,
+        forfeitedBy: access.user.name,
+        redraw: parsed.redraw,
+        keepEligible: parsed.keepEligible,
+      });
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "winner.forfeit",
+        summary: {
+          drawId,
+          forfeitId: forfeit.id,
+          contestantId: winner.contestant.id,
+          contestantName: winner.contestant.name,
+          reason: forfeit.reason,
+          keptEligible: parsed.keepEligible,
+          replacementId: replacement?.id ?? null,
+          replacementName: replacement?.name ?? null,
+          commitmentId: forfeit.commitmentId,
+        },
+      });
+
+      return { forfeit, winner, replacement };
+    });
+
+    return NextResponse.json({
+      forfeitId: result.forfeit.id,
+      drawId,
+      sessionId,
+      forfeited: {
+        contestantId: result.winner.contestant.id,
+        name: result.winner.contestant.name,
+      },
+      reason: result.forfeit.reason,
+      forfeitedBy: result.forfeit.forfeitedBy,
+      forfeitedAt: result.forfeit.forfeitedAt,
+      keptEligible: result.forfeit.reinstatedAt !== null,
+      replacement: result.replacement
+        ? {
+            contestantId: result.replacement.id,
+            name: result.replacement.name,
+            tickets: result.replacement.tickets,
+          }
+        : null,
+    });
+  } catch (err) {
+    if (err instanceof ForfeitRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Replacement contestant already has a prize. Please refresh and try again.",
+        },
+        { status: 409 }
+      );
+    }
+
+    throw err;
+  }
+}
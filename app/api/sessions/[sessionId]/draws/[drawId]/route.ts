@@ -1,5 +1,10 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { REVEAL_MODES } from "@/lib/presenter";
 import { prisma } from "@/lib/prisma";
+import { PRIZE_OMIT, prizeImageUrl } from "@/lib/prizes";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
 type Params =
   | {
@@ -14,6 +19,30 @@ function normalize(value: string | string[] | undefined): string | null {
   return value ?? null;
 }
 
+const voidSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .max(500, "reason must be 500 characters or less")
+    .optional()
+    .transform((value) => value || "Voided by operator"),
+});
+
+const revealSchema = z.object({
+  revealMode: z.enum(REVEAL_MODES).optional(),
+  revealBatchSize: z.coerce
+    .number()
+    .int("revealBatchSize must be an integer")
+    .min(1, "revealBatchSize must be at least 1")
+    .max(100, "revealBatchSize must be 100 or less")
+    .optional(),
+  revealPosition: z.coerce
+    .number()
+    .int("revealPosition must be an integer")
+    .min(0, "revealPosition cannot be negative")
+    .optional(),
+});
+
 export async function GET(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
   const sessionId =
@@ -28,22 +57,25 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
 
   const draw = await prisma.draw.findFirst({
     where: { id: drawId, sessionId },
     include: {
-      prize: { select: { id: true, name: true } },
+      prize: { omit: PRIZE_OMIT },
       winners: {
-        orderBy: { createdAt: "asc" },
-        include: { contestant: { select: { id: true, name: true } } },
+        orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+        include: {
+          contestant: { select: { id: true, name: true, externalId: true } },
+        },
+      },
+      forfeits: {
+        orderBy: { forfeitedAt: "asc" },
+        include: {
+          contestant: { select: { id: true, name: true, externalId: true } },
+          replacement: { select: { id: true, name: true, externalId: true } },
+        },
       },
     },
   });
@@ -56,13 +88,232 @@ export async function GET(req: Request, context: Params) {
     drawId: draw.id,
     sessionId,
     createdAt: draw.createdAt,
+    voidedAt: draw.voidedAt,
+    voidedBy: draw.voidedBy,
+    voidReason: draw.voidReason,
+    reveal: {
+      mode: draw.revealMode,
+      batchSize: draw.revealBatchSize,
+      position: Math.min(draw.revealPosition, draw.winners.length),
+      total: draw.winners.length,
+    },
     prize: {
       id: draw.prize.id,
       name: draw.prize.name,
+      description: draw.prize.description,
+      sponsor: draw.prize.sponsor,
+      imageUrl: prizeImageUrl(draw.prize),
     },
     winners: draw.winners.map((winner) => ({
       contestantId: winner.contestant.id,
       name: winner.contestant.name,
+      externalId: winner.contestant.externalId,
+      claimStatus: winner.claimStatus,
+    })),
+    forfeits: draw.forfeits.map((forfeit) => ({
+      id: forfeit.id,
+      contestantId: forfeit.contestant.id,
+      name: forfeit.contestant.name,
+      externalId: forfeit.contestant.externalId,
+      reason: forfeit.reason,
+      forfeitedBy: forfeit.forfeitedBy,
+      forfeitedAt: forfeit.forfeitedAt,
+      reinstatedAt: forfeit.reinstatedAt,
+      replacement: forfeit.replacement
+        ? {
+            contestantId: forfeit.replacement.id,
+            name: forfeit.replacement.name,
+            externalId: forfeit.replacement.externalId,
+          }
+        : null,
     })),
   });
 }
+
+// Moves a sequential reveal along. Presenter screens pick up the new position
+// from the event stream without a new roll being triggered.
+export async function PATCH(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalize(params?.sessionId) || new URL(req.url).pathname.split("/")[3];
+  const drawId =
+    normalize(params?.drawId) || new URL(req.url).pathname.split("/")[5];
+
+  if (!sessionId || !drawId) {
+    return NextResponse.json(
+      { error: "Session id and draw id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = revealSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const draw = await prisma.draw.findFirst({
+    where: { id: drawId, sessionId },
+    select: { id: true, voidedAt: true, _count: { select: { winners: true } } },
+  });
+
+  if (!draw) {
+    return NextResponse.json({ error: "Draw not found" }, { status: 404 });
+  }
+
+  if (draw.voidedAt) {
+    return NextResponse.json(
+      { error: "Draw has been voided" },
+      { status: 409 }
+    );
+  }
+
+  const total = draw._count.winners;
+  const updated = await prisma.draw.update({
+    where: { id: draw.id },
+    data: {
+      revealMode: parsed.revealMode,
+      revealBatchSize: parsed.revealBatchSize,
+      revealPosition:
+        parsed.revealPosition === undefined
+          ? undefined
+          : Math.min(parsed.revealPosition, total),
+    },
+  });
+
+  return NextResponse.json({
+    drawId: updated.id,
+    sessionId,
+    reveal: {
+      mode: updated.revealMode,
+      batchSize: updated.revealBatchSize,
+      position: Math.min(updated.revealPosition, total),
+      total,
+    },
+  });
+}
+
+// Voids the draw instead of deleting it: winners go back to the eligible
+// pool, the prize stock is restored, and the draw stays on record for audit.
+export async function DELETE(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalize(params?.sessionId) || new URL(req.url).pathname.split("/")[3];
+  const drawId =
+    normalize(params?.drawId) || new URL(req.url).pathname.split("/")[5];
+
+  if (!sessionId || !drawId) {
+    return NextResponse.json(
+      { error: "Session id and draw id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const text = await req.text();
+    parsed = voidSchema.parse(text ? JSON.parse(text) : {});
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const draw = await prisma.draw.findFirst({
+    where: { id: drawId, sessionId },
+    select: { id: true, prizeId: true },
+  });
+
+  if (!draw) {
+    return NextResponse.json({ error: "Draw not found" }, { status: 404 });
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Same lock as POST /draws, so the restored stock is never read halfway.
+    await tx.$queryRaw`SELECT "id" FROM "Prize" WHERE "id" = ${draw.prizeId} FOR UPDATE`;
+
+    const current = await tx.draw.findUnique({
+      where: { id: draw.id },
+      select: { voidedAt: true },
+    });
+
+    if (current?.voidedAt) return null;
+
+    const winners = await tx.winner.findMany({ where: { drawId: draw.id } });
+
+    await tx.voidedWinner.createMany({
+      data: winners.map((winner) => ({
+        drawId: draw.id,
+        contestantId: winner.contestantId,
+        prizeName: winner.prizeName,
+        tickets: winner.tickets,
+        wonAt: winner.createdAt,
+      })),
+    });
+
+    await tx.winner.deleteMany({ where: { drawId: draw.id } });
+
+    // People forfeited from this draw were only excluded because of it.
+    await tx.forfeit.updateMany({
+      where: { drawId: draw.id, reinstatedAt: null },
+      data: { reinstatedAt: new Date() },
+    });
+
+    await tx.presenterState.updateMany({
+      where: { sessionId, drawId: draw.id },
+      data: { phase: "IDLE", version: { increment: 1 } },
+    });
+
+    const voided = await tx.draw.update({
+      where: { id: draw.id },
+      data: {
+        voidedAt: new Date(),
+        voidedBy: access.user.name,
+        voidReason: parsed.reason,
+      },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "draw.void",
+      summary: {
+        drawId: draw.id,
+        reason: voided.voidReason,
+        releasedWinners: winners.length,
+      },
+    });
+
+    return { voided, released: winners.length };
+  });
+
+  if (!result) {
+    return NextResponse.json(
+      { error: "Draw has already been voided" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({
+    drawId: result.voided.id,
+    sessionId,
+    voidedAt: result.voided.voidedAt,
+    voidedBy: result.voided.voidedBy,
+    voidReason: result.voided.voidReason,
+    releasedWinners: result.released,
+  });
+}
@@ -0,0 +1,191 @@
+import {
+  DRAW_ALGORITHM,
+  LEGACY_DRAW_ALGORITHM,
+  deriveDrawSeed,
+  hashEligibleList,
+  hashWeightedEligibleList,
+  seededShuffle,
+  sha256Hex,
+  weightedSample,
+} from "@/lib/draw-seed";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; drawId: string | string[] }
+        | Promise<{ sessionId: string | string[]; drawId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+// Public on purpose: attendees who challenge a draw have no account. The
+// proof holds only ids, weights and hashes, plus the server seed, which is
+// safe to reveal once the draw it was committed for has run.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalize(params?.sessionId) || new URL(req.url).pathname.split("/")[3];
+  const drawId =
+    normalize(params?.drawId) || new URL(req.url).pathname.split("/")[5];
+
+  if (!sessionId || !drawId) {
+    return NextResponse.json(
+      { error: "Session id and draw id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const draw = await prisma.draw.findFirst({
+    where: { id: drawId, sessionId, session: { deletedAt: null } },
+    include: {
+      commitment: true,
+      winners: { select: { contestantId: true } },
+      forfeits: {
+        include: { commitment: true },
+        orderBy: { forfeitedAt: "asc" },
+      },
+      voidedWinners: { select: { contestantId: true } },
+    },
+  });
+
+  if (!draw) {
+    return NextResponse.json({ error: "Draw not found" }, { status: 404 });
+  }
+
+  if (!draw.commitment || !draw.eligibleHash || !draw.algorithm) {
+    return NextResponse.json(
+      { error: "This draw was run before seeded draws and cannot be verified" },
+      { status: 422 }
+    );
+  }
+
+  if (
+    draw.algorithm !== DRAW_ALGORITHM &&
+    draw.algorithm !== LEGACY_DRAW_ALGORITHM
+  ) {
+    return NextResponse.json(
+      { error: `Unsupported draw algorithm: ${draw.algorithm}` },
+      { status: 422 }
+    );
+  }
+
+  const { serverSeed, seedHash } = draw.commitment;
+  const seed = deriveDrawSeed(
+    serverSeed,
+    draw.publicEntropy,
+    draw.eligibleHash
+  );
+  const weightedEntries = draw.eligibleIds.map((id, index) => ({
+    id,
+    tickets: draw.eligibleWeights[index] ?? 1,
+  }));
+  const isLegacy = draw.algorithm === LEGACY_DRAW_ALGORITHM;
+
+  // Replacements for forfeited winners are picked after the fact, so the
+  // replay is checked against the draw's original winners.
+  const replacementIds = new Set(
+    draw.forfeits.flatMap((f) => (f.replacementId ? [f.replacementId] : []))
+  );
+  const storedWinnerIds = [
+    ...draw.winners.map((w) => w.contestantId),
+    ...draw.forfeits.map((f) => f.contestantId),
+    ...draw.voidedWinners.map((w) => w.contestantId),
+  ]
+    .filter((id) => !replacementIds.has(id))
+    .sort();
+  const replayedWinnerIds = (
+    isLegacy
+      ? seededShuffle(draw.eligibleIds, seed).slice(0, storedWinnerIds.length)
+      : weightedSample(weightedEntries, storedWinnerIds.length, seed).map(
+          (entry) => entry.id
+        )
+  ).sort();
+
+  // Each replacement was picked with its own seed from the pool left at the
+  // time. Forfeits from before replacements were seeded carry no proof and
+  // are listed without a replay.
+  const replacements = draw.forfeits
+    .filter((f) => f.replacementId || f.commitment)
+    .map((f) => {
+      if (!f.commitment || !f.eligibleHash) {
+        return {
+          forfeitId: f.id,
+          replacementId: f.replacementId,
+          replayedId: null,
+          verified: null,
+          proof: null,
+        };
+      }
+      const entries = f.eligibleIds.map((id, index) => ({
+        id,
+        tickets: f.eligibleWeights[index] ?? 1,
+      }));
+      const replaySeed = deriveDrawSeed(
+        f.commitment.serverSeed,
+        null,
+        f.eligibleHash
+      );
+      const replayedId = weightedSample(entries, 1, replaySeed)[0]?.id ?? null;
+      return {
+        forfeitId: f.id,
+        replacementId: f.replacementId,
+        replayedId,
+        verified:
+          f.algorithm === DRAW_ALGORITHM &&
+          sha256Hex(f.commitment.serverSeed) === f.commitment.seedHash &&
+          hashWeightedEligibleList(entries) === f.eligibleHash &&
+          replayedId === f.replacementId,
+        proof: {
+          algorithm: f.algorithm,
+          commitmentId: f.commitment.id,
+          seedHash: f.commitment.seedHash,
+          serverSeed: f.commitment.serverSeed,
+          eligibleHash: f.eligibleHash,
+          eligibleIds: f.eligibleIds,
+          eligibleWeights: f.eligibleWeights,
+        },
+      };
+    });
+
+  const checks = {
+    seedMatchesCommitment: sha256Hex(serverSeed) === seedHash,
+    eligibleListMatchesHash:
+      (isLegacy
+        ? hashEligibleList(draw.eligibleIds)
+        : hashWeightedEligibleList(weightedEntries)) === draw.eligibleHash,
+    winnersMatchReplay:
+      storedWinnerIds.length === replayedWinnerIds.length &&
+      storedWinnerIds.every((id, index) => id === replayedWinnerIds[index]),
+    replacementsMatchReplay: replacements.every(
+      (replacement) => replacement.verified !== false
+    ),
+  };
+
+  return NextResponse.json({
+    drawId: draw.id,
+    sessionId,
+    verified: Object.values(checks).every(Boolean),
+    checks,
+    proof: {
+      algorithm: draw.algorithm,
+      commitmentId: draw.commitment.id,
+      committedAt: draw.commitment.createdAt,
+      seedHash,
+      serverSeed,
+      publicEntropy: draw.publicEntropy,
+      eligibleHash: draw.eligibleHash,
+      eligibleIds: draw.eligibleIds,
+      eligibleWeights: isLegacy ? null : draw.eligibleWeights,
+    },
+    storedWinnerIds,
+    replayedWinnerIds,
+    replacementIds: [...replacementIds].sort(),
+    replacements,
+  });
+}
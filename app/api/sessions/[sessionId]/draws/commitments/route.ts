@@ -0,0 +1,60 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { generateServerSeed, sha256Hex } from "@/lib/draw-seed";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Publishes the hash of a fresh server seed before the draw runs. The seed
+// itself is only revealed through the draw's verify endpoint.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const serverSeed = generateServerSeed();
+  const commitment = await prisma.$transaction(async (tx) => {
+    const created = await tx.drawCommitment.create({
+      data: { sessionId, serverSeed, seedHash: sha256Hex(serverSeed) },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "draw.commit",
+      summary: { commitmentId: created.id, seedHash: created.seedHash },
+    });
+
+    return created;
+  });
+
+  return NextResponse.json({
+    commitmentId: commitment.id,
+    sessionId,
+    seedHash: commitment.seedHash,
+    createdAt: commitment.createdAt,
+  });
+}
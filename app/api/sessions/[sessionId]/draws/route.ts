@@ -1,5 +1,11 @@
+import { authorizeSession } from "@/lib/auth";
+import {
+  drawErrorResponse,
+  drawSchema,
+  executeDraw,
+  serializeDrawResult,
+} from "@/lib/draws";
 import { prisma } from "@/lib/prisma";
-import { Prisma } from "@prisma/client";
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
@@ -16,23 +22,6 @@ function normalizeSessionId(raw: string | string[] | undefined): string | null {
   return raw ?? null;
 }
 
-const drawSchema = z.object({
-  prizeId: z.string().min(1, "prizeId is required"),
-  quantity: z.coerce
-    .number()
-    .int("quantity must be an integer")
-    .min(1, "quantity must be at least 1"),
-});
-
-function shuffle<T>(items: T[]): T[] {
-  const arr = [...items];
-  for (let i = arr.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
 export async function GET(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
   const sessionId =
@@ -46,14 +35,8 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
 
   const draws = await prisma.draw.findMany({
     where: { sessionId },
@@ -61,21 +44,25 @@ export async function GET(req: Request, context: Params) {
     select: {
       id: true,
       createdAt: true,
+      voidedAt: true,
       prize: { select: { id: true, name: true } },
       _count: { select: { winners: true } },
     },
   });
 
-  const drawCount = draws.length;
+  const drawCount = draws.filter((d) => !d.voidedAt).length;
+  const voidedCount = draws.length - drawCount;
   const totalWinners = draws.reduce((sum, d) => sum + d._count.winners, 0);
 
   return NextResponse.json({
     sessionId,
     drawCount,
+    voidedCount,
     totalWinners,
     draws: draws.map((d) => ({
       id: d.id,
       createdAt: d.createdAt,
+      voidedAt: d.voidedAt,
       prize: d.prize,
       winners: d._count.winners,
     })),
@@ -95,14 +82,8 @@ export async function POST(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
 
   let parsed;
   try {
@@ -116,79 +97,17 @@ export async function POST(req: Request, context: Params) {
     return NextResponse.json({ error: message }, { status: 400 });
   }
 
-  const prize = await prisma.prize.findFirst({
-    where: { id: parsed.prizeId, sessionId },
-    select: { id: true, name: true },
-  });
-
-  if (!prize) {
-    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
-  }
-
-  const eligibleContestants = await prisma.contestant.findMany({
-    where: { sessionId, winner: null },
-    select: { id: true, name: true },
-  });
-
-  const eligibleCount = eligibleContestants.length;
+  try {
+    const result = await prisma.$transaction((tx) =>
+      executeDraw(tx, { req, actor: access.user }, { sessionId, input: parsed })
+    );
 
-  if (parsed.quantity > eligibleCount) {
     return NextResponse.json(
-      { error: "Requested quantity exceeds eligible contestants" },
-      { status: 400 }
+      serializeDrawResult(sessionId, parsed.quantity, result)
     );
-  }
-
-  const shuffled = shuffle(eligibleContestants);
-  const selected = shuffled.slice(0, parsed.quantity);
-
-  try {
-    const draw = await prisma.$transaction(async (tx) => {
-      const createdDraw = await tx.draw.create({
-        data: {
-          sessionId,
-          prizeId: prize.id,
-        },
-      });
-
-      await tx.winner.createMany({
-        data: selected.map((contestant) => ({
-          contestantId: contestant.id,
-          drawId: createdDraw.id,
-          prizeName: prize.name,
-        })),
-      });
-
-      return createdDraw;
-    });
-
-    return NextResponse.json({
-      drawId: draw.id,
-      sessionId,
-      prize: { id: prize.id, name: prize.name },
-      requestedQuantity: parsed.quantity,
-      eligibleBefore: eligibleCount,
-      winners: selected.map((c) => ({
-        contestantId: c.id,
-        name: c.name,
-        prizeName: prize.name,
-      })),
-      createdAt: draw.createdAt,
-    });
   } catch (err) {
-    if (
-      err instanceof Prisma.PrismaClientKnownRequestError &&
-      err.code === "P2002"
-    ) {
-      return NextResponse.json(
-        {
-          error:
-            "Contestant already has a prize. Please refresh and try again.",
-        },
-        { status: 409 }
-      );
-    }
-
+    const response = drawErrorResponse(err);
+    if (response) return response;
     throw err;
   }
 }
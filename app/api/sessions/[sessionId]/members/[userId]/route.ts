@@ -0,0 +1,67 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; userId: string | string[] }
+        | Promise<{ sessionId: string | string[]; userId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+export async function DELETE(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalize(params?.sessionId) || new URL(req.url).pathname.split("/")[3];
+  const userId =
+    normalize(params?.userId) || new URL(req.url).pathname.split("/")[5];
+
+  if (!sessionId || !userId) {
+    return NextResponse.json(
+      { error: "Session id and user id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OWNER");
+  if (access.response) return access.response;
+
+  const removed = await prisma.$transaction(async (tx) => {
+    const member = await tx.sessionMember.findUnique({
+      where: { sessionId_userId: { sessionId, userId } },
+      include: { user: { select: { email: true, name: true } } },
+    });
+    if (!member) return null;
+
+    await tx.sessionMember.delete({
+      where: { sessionId_userId: { sessionId, userId } },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "member.remove",
+      summary: {
+        userId,
+        email: member.user.email,
+        name: member.user.name,
+        role: member.role,
+      },
+    });
+
+    return member;
+  });
+
+  if (!removed) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ removed: true });
+}
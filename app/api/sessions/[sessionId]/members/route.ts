@@ -0,0 +1,140 @@
+import { recordAudit } from "@/lib/audit";
+import { SESSION_ROLES, authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const memberSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1, "email is required"),
+  role: z.enum(SESSION_ROLES),
+});
+
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      owner: { select: { id: true, email: true, name: true } },
+      members: {
+        orderBy: { createdAt: "asc" },
+        include: { user: { select: { id: true, email: true, name: true } } },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    sessionId,
+    role: access.role,
+    owner: session?.owner ?? null,
+    members: (session?.members ?? []).map((member) => ({
+      userId: member.user.id,
+      email: member.user.email,
+      name: member.user.name,
+      role: member.role,
+    })),
+  });
+}
+
+// Adds a member or changes their role. Only owners manage access.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OWNER");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = memberSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: parsed.email },
+    select: { id: true, email: true, name: true },
+  });
+
+  if (!user) {
+    return NextResponse.json(
+      { error: "No account uses that email" },
+      { status: 404 }
+    );
+  }
+
+  const member = await prisma.$transaction(async (tx) => {
+    const previous = await tx.sessionMember.findUnique({
+      where: { sessionId_userId: { sessionId, userId: user.id } },
+      select: { role: true },
+    });
+
+    const saved = await tx.sessionMember.upsert({
+      where: { sessionId_userId: { sessionId, userId: user.id } },
+      create: { sessionId, userId: user.id, role: parsed.role },
+      update: { role: parsed.role },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: previous ? "member.role" : "member.add",
+      summary: {
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        role: saved.role,
+        previousRole: previous?.role ?? null,
+      },
+    });
+
+    return saved;
+  });
+
+  return NextResponse.json({
+    userId: user.id,
+    email: user.email,
+    name: user.name,
+    role: member.role,
+  });
+}
@@ -0,0 +1,110 @@
+import { authorizeSession } from "@/lib/auth";
+import { readPresenterState } from "@/lib/presenter";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Server-sent events for presenter screens. State lives in the database so
+// every server instance (and a restarted one) streams the same thing.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const encoder = new TextEncoder();
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stop = () => {
+    clearInterval(pollTimer);
+    clearInterval(heartbeatTimer);
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let lastKey = "";
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+          stop();
+        }
+      };
+
+      const poll = async () => {
+        try {
+          const state = await readPresenterState(prisma, sessionId);
+          // Reveal steps move the position without bumping the version, so
+          // screens can tell "next winner" apart from a fresh roll command.
+          const key = `${state.version}:${state.reveal?.position ?? ""}`;
+          if (key === lastKey) return;
+          lastKey = key;
+          write(`event: state\ndata: ${JSON.stringify(state)}\n\n`);
+        } catch (err) {
+          console.error("Presenter event poll failed", err);
+        }
+      };
+
+      write(`retry: ${POLL_INTERVAL_MS * 2}\n\n`);
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      heartbeatTimer = setInterval(
+        () => write(": heartbeat\n\n"),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      req.signal.addEventListener("abort", () => {
+        closed = true;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client.
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
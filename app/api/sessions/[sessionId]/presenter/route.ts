@@ -0,0 +1,131 @@
+import { authorizeSession } from "@/lib/auth";
+import {
+  PRESENTER_PHASES,
+  readPresenterState,
+  setPresenterState,
+} from "@/lib/presenter";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const presenterSchema = z.object({
+  drawId: z.string().min(1).nullable().optional(),
+  phase: z.enum(PRESENTER_PHASES, {
+    message: `phase must be one of ${PRESENTER_PHASES.join(", ")}`,
+  }),
+});
+
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  return NextResponse.json(await readPresenterState(prisma, sessionId));
+}
+
+// Drives every connected screen: switch draw, start rolling, reveal, idle.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = presenterSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const current = await readPresenterState(prisma, sessionId);
+  const drawId = parsed.drawId === undefined ? current.drawId : parsed.drawId;
+
+  if (parsed.phase !== "IDLE" && !drawId) {
+    return NextResponse.json(
+      { error: "drawId is required to roll or reveal" },
+      { status: 400 }
+    );
+  }
+
+  if (drawId) {
+    const draw = await prisma.draw.findFirst({
+      where: { id: drawId, sessionId },
+      select: { id: true, voidedAt: true },
+    });
+
+    if (!draw) {
+      return NextResponse.json({ error: "Draw not found" }, { status: 404 });
+    }
+
+    if (draw.voidedAt && parsed.phase !== "IDLE") {
+      return NextResponse.json(
+        { error: "Draw has been voided" },
+        { status: 409 }
+      );
+    }
+  }
+
+  const state = await prisma.$transaction(async (tx) => {
+    // The reveal position is stored on the draw so a reloaded screen comes
+    // back where it was. A console reveal uncovers every winner; rolling an
+    // all-at-once draw again starts it over.
+    if (drawId && parsed.phase === "REVEALED") {
+      const total = await tx.winner.count({ where: { drawId } });
+      await tx.draw.update({
+        where: { id: drawId },
+        data: { revealPosition: total },
+      });
+    } else if (drawId && parsed.phase === "ROLLING") {
+      await tx.draw.updateMany({
+        where: { id: drawId, revealMode: "ALL" },
+        data: { revealPosition: 0 },
+      });
+    }
+
+    return setPresenterState(tx, sessionId, {
+      drawId: drawId ?? null,
+      phase: parsed.phase,
+    });
+  });
+
+  return NextResponse.json(state);
+}
@@ -0,0 +1,131 @@
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { PRIZE_OMIT, serializePrize } from "@/lib/prizes";
+import { MAX_THEME_IMAGE_BYTES, THEME_IMAGE_TYPES } from "@/lib/theme";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; prizeId: string | string[] }
+        | Promise<{ sessionId: string | string[]; prizeId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+async function resolveIds(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  return {
+    sessionId: normalize(params?.sessionId) || segments[3],
+    prizeId: normalize(params?.prizeId) || segments[5],
+  };
+}
+
+function missingIds() {
+  return NextResponse.json(
+    { error: "Session id and prize id are required in the route" },
+    { status: 400 }
+  );
+}
+
+export async function GET(req: Request, context: Params) {
+  const { sessionId, prizeId } = await resolveIds(req, context);
+  if (!sessionId || !prizeId) return missingIds();
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const prize = await prisma.prize.findFirst({
+    where: { id: prizeId, sessionId },
+    select: { imageData: true, imageType: true },
+  });
+
+  if (!prize?.imageData || !prize.imageType) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(prize.imageData), {
+    headers: {
+      "Content-Type": prize.imageType,
+      // URLs are versioned by the prize's update time, which every edit and
+      // image upload bumps. Private, since only session members may see it.
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
+
+// Same formats and size limit as the presenter theme images.
+export async function POST(req: Request, context: Params) {
+  const { sessionId, prizeId } = await resolveIds(req, context);
+  if (!sessionId || !prizeId) return missingIds();
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const formData = await req.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json({ error: "No image uploaded" }, { status: 400 });
+  }
+
+  if (!THEME_IMAGE_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: "Images must be PNG, JPEG, WebP or GIF" },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_THEME_IMAGE_BYTES) {
+    return NextResponse.json(
+      { error: "Images must be 2 MB or smaller" },
+      { status: 400 }
+    );
+  }
+
+  const { count } = await prisma.prize.updateMany({
+    where: { id: prizeId, sessionId },
+    data: {
+      imageData: new Uint8Array(await file.arrayBuffer()),
+      imageType: file.type,
+    },
+  });
+
+  if (count === 0) {
+    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+  }
+
+  const prize = await prisma.prize.findUniqueOrThrow({
+    where: { id: prizeId },
+    omit: PRIZE_OMIT,
+  });
+  return NextResponse.json(serializePrize(prize));
+}
+
+export async function DELETE(req: Request, context: Params) {
+  const { sessionId, prizeId } = await resolveIds(req, context);
+  if (!sessionId || !prizeId) return missingIds();
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const { count } = await prisma.prize.updateMany({
+    where: { id: prizeId, sessionId },
+    data: { imageData: null, imageType: null },
+  });
+
+  if (count === 0) {
+    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+  }
+
+  const prize = await prisma.prize.findUniqueOrThrow({
+    where: { id: prizeId },
+    omit: PRIZE_OMIT,
+  });
+  return NextResponse.json(serializePrize(prize));
+}
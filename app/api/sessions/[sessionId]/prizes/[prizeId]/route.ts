@@ -0,0 +1,224 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { eligibleContestantWhere } from "@/lib/eligibility";
+import { prisma } from "@/lib/prisma";
+import { PRIZE_OMIT, prizeUpdateSchema, serializePrize } from "@/lib/prizes";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; prizeId: string | string[] }
+        | Promise<{ sessionId: string | string[]; prizeId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+async function resolveIds(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  return {
+    sessionId: normalize(params?.sessionId) || segments[3],
+    prizeId: normalize(params?.prizeId) || segments[5],
+  };
+}
+
+class PrizeRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+  }
+}
+
+function sameCategories(a: string[], b: string[]) {
+  return a.length === b.length && a.every((category) => b.includes(category));
+}
+
+export async function PATCH(req: Request, context: Params) {
+  const { sessionId, prizeId } = await resolveIds(req, context);
+
+  if (!sessionId || !prizeId) {
+    return NextResponse.json(
+      { error: "Session id and prize id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = prizeUpdateSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      // Same lock as POST /draws, so the drawn count cannot move while the
+      // new quantity is checked against it.
+      await tx.$queryRaw`SELECT "id" FROM "Prize" WHERE "id" = ${prizeId} FOR UPDATE`;
+
+      const prize = await tx.prize.findFirst({
+        where: { id: prizeId, sessionId },
+        omit: PRIZE_OMIT,
+      });
+
+      if (!prize) {
+        throw new PrizeRejectedError("Prize not found", 404);
+      }
+
+      const drawn = await tx.winner.count({
+        where: { draw: { prizeId } },
+      });
+      const quantity = parsed.quantity ?? prize.quantity;
+      const eligibleCategories =
+        parsed.eligibleCategories ?? prize.eligibleCategories;
+
+      if (quantity < drawn) {
+        throw new PrizeRejectedError(
+          `Quantity cannot be less than the ${drawn} already drawn`,
+          409
+        );
+      }
+
+      // Only a change that asks for more winners is checked against the
+      // pool; renaming a prize whose pool has shrunk stays possible.
+      const categoriesChanged = !sameCategories(
+        eligibleCategories,
+        prize.eligibleCategories
+      );
+      if (quantity > prize.quantity || categoriesChanged) {
+        const eligibleCount = await tx.contestant.count({
+          where: eligibleContestantWhere(sessionId, { eligibleCategories }),
+        });
+        if (quantity - drawn > eligibleCount) {
+          throw new PrizeRejectedError(
+            "Remaining quantity cannot exceed eligible contestants",
+            400
+          );
+        }
+      }
+
+      const updated = await tx.prize.update({
+        where: { id: prizeId },
+        data: parsed,
+        omit: PRIZE_OMIT,
+      });
+
+      // Winners keep a copy of the prize name for reports; follow a rename
+      // so they do not show the old one. Forfeits and voided winners are a
+      // record of what was announced and keep theirs.
+      let renamedWinners = 0;
+      if (parsed.name && parsed.name !== prize.name) {
+        const { count } = await tx.winner.updateMany({
+          where: { draw: { prizeId } },
+          data: { prizeName: parsed.name },
+        });
+        renamedWinners = count;
+      }
+
+      const changes = Object.fromEntries(
+        Object.entries(parsed).filter(([, value]) => value !== undefined)
+      );
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "prize.update",
+        summary: {
+          prizeId,
+          name: updated.name,
+          ...(parsed.name && parsed.name !== prize.name
+            ? { previousName: prize.name, renamedWinners }
+            : {}),
+          changes,
+        },
+      });
+
+      return { prize: updated, drawn };
+    });
+
+    return NextResponse.json({
+      ...serializePrize(result.prize),
+      alreadyDrawn: result.drawn,
+      remaining: Math.max(result.prize.quantity - result.drawn, 0),
+    });
+  } catch (err) {
+    if (err instanceof PrizeRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
+
+// Only prizes that were never drawn can go; a draw, even a voided one,
+// keeps its prize for the record.
+export async function DELETE(req: Request, context: Params) {
+  const { sessionId, prizeId } = await resolveIds(req, context);
+
+  if (!sessionId || !prizeId) {
+    return NextResponse.json(
+      { error: "Session id and prize id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT "id" FROM "Prize" WHERE "id" = ${prizeId} FOR UPDATE`;
+
+      const prize = await tx.prize.findFirst({
+        where: { id: prizeId, sessionId },
+        select: { id: true, name: true, _count: { select: { draws: true } } },
+      });
+
+      if (!prize) {
+        throw new PrizeRejectedError("Prize not found", 404);
+      }
+
+      if (prize._count.draws > 0) {
+        throw new PrizeRejectedError(
+          "This prize has been drawn and cannot be deleted",
+          409
+        );
+      }
+
+      // Planned steps and schedules for a prize that was never drawn have
+      // nothing to keep.
+      await tx.runSheetStep.deleteMany({ where: { prizeId } });
+      await tx.scheduledDraw.deleteMany({ where: { prizeId } });
+      await tx.prize.delete({ where: { id: prizeId } });
+
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "prize.delete",
+        summary: { prizeId, name: prize.name },
+      });
+    });
+  } catch (err) {
+    if (err instanceof PrizeRejectedError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+
+  return NextResponse.json({ deleted: true, prizeId });
+}
@@ -0,0 +1,84 @@
+import { authorizeSession } from "@/lib/auth";
+import { readImportTable } from "@/lib/import-file";
+import { suggestPrizeColumnMapping } from "@/lib/import-mapping";
+import { prisma } from "@/lib/prisma";
+import { analyzePrizeImport, readPrizeImportForm } from "@/lib/prize-import";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+const SAMPLE_ROWS = 5;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Reports what a prize file would add, row by row, without writing
+// anything.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const form = await readPrizeImportForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
+  }
+
+  const table = await readImportTable(form.file, form.sheet);
+
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
+  }
+
+  const analysis = await analyzePrizeImport(
+    prisma,
+    sessionId,
+    table.rows,
+    form.mapping
+  );
+
+  if ("error" in analysis) {
+    return NextResponse.json({ error: analysis.error }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    sessionId,
+    sheets: table.sheets,
+    sheet: table.sheet,
+    headers: analysis.headers,
+    suggestedMapping: suggestPrizeColumnMapping(analysis.headers),
+    mapping: analysis.mapping,
+    sampleRows: analysis.entries.slice(0, SAMPLE_ROWS),
+    totalRows: analysis.totalRows,
+    toInsert: analysis.entries.length,
+    totalQuantity: analysis.totalQuantity,
+    eligibleContestants: analysis.eligibleContestants,
+    exceedsEligible: analysis.totalQuantity > analysis.eligibleContestants,
+    rejected: analysis.rejected.length,
+    rejectedRows: analysis.rejected.map(({ line, reason }) => ({
+      line,
+      reason,
+    })),
+  });
+}
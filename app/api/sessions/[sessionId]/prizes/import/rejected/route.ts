@@ -0,0 +1,67 @@
+import { authorizeSession } from "@/lib/auth";
+import { readImportTable, rejectedRowsCsv } from "@/lib/import-file";
+import { prisma } from "@/lib/prisma";
+import { analyzePrizeImport, readPrizeImportForm } from "@/lib/prize-import";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// The prize rows an import would skip, with the reason for each.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const form = await readPrizeImportForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
+  }
+
+  const table = await readImportTable(form.file, form.sheet);
+
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
+  }
+
+  const analysis = await analyzePrizeImport(
+    prisma,
+    sessionId,
+    table.rows,
+    form.mapping
+  );
+
+  if ("error" in analysis) {
+    return NextResponse.json({ error: analysis.error }, { status: 400 });
+  }
+
+  return new NextResponse(rejectedRowsCsv(analysis), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="rejected-prizes-${sessionId}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,114 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { readImportTable } from "@/lib/import-file";
+import { prisma } from "@/lib/prisma";
+import { analyzePrizeImport, readPrizeImportForm } from "@/lib/prize-import";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Adds every valid row of a prize file at once. The file's total quantity
+// is held to the same limit the prize form applies to a single prize, so a
+// sponsor list cannot promise more prizes than there are people to win them.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const form = await readPrizeImportForm(req);
+
+  if ("error" in form) {
+    return NextResponse.json({ error: form.error }, { status: 400 });
+  }
+
+  const table = await readImportTable(form.file, form.sheet);
+
+  if ("error" in table) {
+    return NextResponse.json({ error: table.error }, { status: 400 });
+  }
+
+  const analysis = await analyzePrizeImport(
+    prisma,
+    sessionId,
+    table.rows,
+    form.mapping
+  );
+
+  if ("error" in analysis) {
+    return NextResponse.json({ error: analysis.error }, { status: 400 });
+  }
+
+  const { totalRows, entries, totalQuantity, eligibleContestants, rejected } =
+    analysis;
+
+  if (entries.length === 0) {
+    return NextResponse.json(
+      { error: "No valid prizes found" },
+      { status: 400 }
+    );
+  }
+
+  if (totalQuantity > eligibleContestants) {
+    return NextResponse.json(
+      {
+        error: `Total quantity (${totalQuantity}) cannot exceed eligible contestants (${eligibleContestants})`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const inserted = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.prize.createMany({
+      data: entries.map((entry) => ({ ...entry, sessionId })),
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "prizes.import",
+      summary: {
+        fileName: form.file.name,
+        sheet: table.sheet,
+        mapping: analysis.mapping,
+        totalRows,
+        inserted: count,
+        totalQuantity,
+        rejected: rejected.length,
+      },
+    });
+
+    return count;
+  });
+
+  return NextResponse.json({
+    sessionId,
+    totalRows,
+    inserted,
+    totalQuantity,
+    eligibleContestants,
+    rejected: rejected.length,
+  });
+}
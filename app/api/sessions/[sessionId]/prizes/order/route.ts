@@ -0,0 +1,99 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const orderSchema = z.object({
+  prizeIds: z
+    .array(z.string().min(1))
+    .min(1, "prizeIds must list the session's prizes"),
+});
+
+// Replaces the running order in one go. The list must name every prize in
+// the session exactly once, so a prize added or deleted since the list was
+// loaded is never silently left out of the order.
+export async function PUT(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = orderSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const prizes = await prisma.prize.findMany({
+    where: { sessionId },
+    select: { id: true, name: true },
+  });
+
+  const requested = new Set(parsed.prizeIds);
+  if (
+    requested.size !== parsed.prizeIds.length ||
+    requested.size !== prizes.length ||
+    prizes.some((prize) => !requested.has(prize.id))
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "The prize list has changed since it was loaded. Please refresh and try again.",
+      },
+      { status: 409 }
+    );
+  }
+
+  const names = new Map(prizes.map((prize) => [prize.id, prize.name]));
+
+  await prisma.$transaction(async (tx) => {
+    for (const [index, id] of parsed.prizeIds.entries()) {
+      await tx.prize.update({
+        where: { id },
+        data: { sortOrder: index + 1 },
+      });
+    }
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "prize.reorder",
+      summary: {
+        prizeIds: parsed.prizeIds,
+        names: parsed.prizeIds.map((id) => names.get(id) ?? id),
+      },
+    });
+  });
+
+  return NextResponse.json({ sessionId, prizeIds: parsed.prizeIds });
+}
@@ -1,5 +1,19 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import {
+  eligibleContestantWhere,
+  normalizeCategories,
+} from "@/lib/eligibility";
 import { prisma } from "@/lib/prisma";
+import {
+  PRIZE_OMIT,
+  PRIZE_ORDER,
+  nextPrizeSortOrder,
+  prizeDetailsSchema,
+  serializePrize,
+} from "@/lib/prizes";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
 type Params =
   | {
@@ -27,14 +41,8 @@ export async function POST(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
 
   let body: unknown;
   try {
@@ -52,6 +60,20 @@ export async function POST(req: Request, context: Params) {
       : typeof quantityRaw === "string" && quantityRaw.trim() !== ""
       ? Number(quantityRaw)
       : NaN;
+  const eligibleCategories = normalizeCategories(
+    (body as { eligibleCategories?: unknown }).eligibleCategories
+  );
+
+  let details;
+  try {
+    details = prizeDetailsSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid input";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
 
   if (!name) {
     return NextResponse.json(
@@ -82,7 +104,7 @@ export async function POST(req: Request, context: Params) {
   // }
 
   const eligibleCount = await prisma.contestant.count({
-    where: { sessionId, winner: null },
+    where: eligibleContestantWhere(sessionId, { eligibleCategories }),
   });
 
   if (quantity > eligibleCount) {
@@ -92,20 +114,38 @@ export async function POST(req: Request, context: Params) {
     );
   }
 
-  const prize = await prisma.prize.create({
-    data: {
-      name,
-      quantity,
+  const prize = await prisma.$transaction(async (tx) => {
+    const created = await tx.prize.create({
+      data: {
+        name,
+        quantity,
+        eligibleCategories,
+        description: details.description ?? null,
+        sponsor: details.sponsor ?? null,
+        sortOrder: await nextPrizeSortOrder(tx, sessionId),
+        sessionId,
+      },
+      omit: PRIZE_OMIT,
+    });
+
+    await recordAudit(tx, req, {
       sessionId,
-    },
+      actor: access.user,
+      action: "prize.create",
+      summary: {
+        prizeId: created.id,
+        name,
+        quantity,
+        eligibleCategories,
+      },
+    });
+
+    return created;
   });
 
   return NextResponse.json({
-    id: prize.id,
-    name: prize.name,
-    quantity: prize.quantity,
+    ...serializePrize(prize),
     eligibleAtCreation: eligibleCount,
-    createdAt: prize.createdAt,
   });
 }
 
@@ -122,18 +162,13 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
-  });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
 
   const prizes = await prisma.prize.findMany({
     where: { sessionId },
-    orderBy: { createdAt: "asc" },
+    orderBy: PRIZE_ORDER,
+    omit: PRIZE_OMIT,
   });
 
   const drawCounts = await prisma.draw.findMany({
@@ -150,18 +185,24 @@ export async function GET(req: Request, context: Params) {
     drawnMap.set(d.prizeId, current + d._count.winners);
   });
 
+  const eligibleCounts = await Promise.all(
+    prizes.map((prize) =>
+      prisma.contestant.count({
+        where: eligibleContestantWhere(sessionId, prize),
+      })
+    )
+  );
+
   return NextResponse.json({
     sessionId,
-    prizes: prizes.map((prize) => {
+    prizes: prizes.map((prize, index) => {
       const drawn = drawnMap.get(prize.id) ?? 0;
       const remaining = Math.max(prize.quantity - drawn, 0);
       return {
-        id: prize.id,
-        name: prize.name,
-        quantity: prize.quantity,
-        createdAt: prize.createdAt,
+        ...serializePrize(prize),
         alreadyDrawn: drawn,
         remaining,
+        eligible: eligibleCounts[index],
       };
     }),
   });
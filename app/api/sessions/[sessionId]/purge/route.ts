@@ -0,0 +1,103 @@
+import { auditEventData } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { sessionPurgeOperations } from "@/lib/session-trash";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const purgeSchema = z.object({
+  confirmName: z.string().min(1, "confirmName is required"),
+});
+
+// Permanently deletes a trashed session. The caller has to repeat the
+// session name, so a stray request cannot wipe a live event.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OWNER", {
+    includeTrashed: true,
+  });
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = purgeSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      name: true,
+      deletedAt: true,
+      _count: { select: { contestants: true, prizes: true, draws: true } },
+    },
+  });
+
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  if (!session.deletedAt) {
+    return NextResponse.json(
+      { error: "Move the session to the trash before purging it" },
+      { status: 409 }
+    );
+  }
+
+  if (parsed.confirmName !== session.name) {
+    return NextResponse.json(
+      { error: "The confirmation does not match the session name" },
+      { status: 400 }
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.auditEvent.create({
+      data: auditEventData(req, {
+        sessionId,
+        actor: access.user,
+        action: "session.purge",
+        summary: {
+          name: session.name,
+          trashedAt: session.deletedAt.toISOString(),
+          contestants: session._count.contestants,
+          prizes: session._count.prizes,
+          draws: session._count.draws,
+        },
+      }),
+    }),
+    ...sessionPurgeOperations(sessionId),
+  ]);
+
+  return NextResponse.json({ purged: true });
+}
@@ -1,3 +1,5 @@
+import { authorizeSession } from "@/lib/auth";
+import { claimDeadline } from "@/lib/claims";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 
@@ -29,27 +31,38 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
   const session = await prisma.session.findUnique({
     where: { id: sessionId },
-    select: { id: true },
+    select: { claimWindowMinutes: true },
   });
-
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
-  }
+  const claimWindowMinutes = session?.claimWindowMinutes ?? null;
 
   const draws = await prisma.draw.findMany({
     where: { sessionId },
     orderBy: { createdAt: "asc" },
     include: {
-      prize: true,
+      prize: { select: { name: true } },
       winners: {
         orderBy: { createdAt: "asc" },
         include: { contestant: true },
       },
+      forfeits: {
+        orderBy: { forfeitedAt: "asc" },
+        include: { contestant: true },
+      },
+      voidedWinners: {
+        orderBy: { wonAt: "asc" },
+        include: { contestant: true },
+      },
     },
   });
 
+  const voidedDraws = draws.filter((draw) => draw.voidedAt);
+  const activeDraws = draws.filter((draw) => !draw.voidedAt);
+
   const rows: string[] = [];
   rows.push(
     [
@@ -60,11 +73,25 @@ export async function GET(req: Request, context: Params) {
       "prizeName",
       "contestantId",
       "contestantName",
+      "externalId",
+      "tickets",
       "wonAt",
+      "status",
+      "forfeitReason",
+      "forfeitedBy",
+      "forfeitedAt",
+      "voidReason",
+      "voidedBy",
+      "voidedAt",
+      "claimStatus",
+      "claimedAt",
+      "claimedBy",
+      "claimNote",
+      "claimDeadline",
     ].join(",")
   );
 
-  draws.forEach((draw, index) => {
+  activeDraws.forEach((draw, index) => {
     const drawNumber = index + 1;
     const prizeName =
       draw.prize?.name ??
@@ -86,12 +113,97 @@ export async function GET(req: Request, context: Params) {
             prizeName,
             winner.contestantId,
             contestantName,
+            winner.contestant.externalId ?? "",
+            winner.tickets.toString(),
             winner.createdAt.toISOString(),
+            "won",
+            "",
+            "",
+            "",
+            "",
+            "",
+            "",
+            winner.claimStatus.toLowerCase(),
+            winner.claimedAt?.toISOString() ?? "",
+            winner.claimedBy ?? "",
+            winner.claimNote ?? "",
+            claimDeadline(
+              winner.createdAt,
+              claimWindowMinutes
+            )?.toISOString() ?? "",
           ]
             .map(escapeCsv)
             .join(",")
         );
       });
+    draw.forfeits.forEach((forfeit) => {
+      rows.push(
+        [
+          drawNumber.toString(),
+          draw.id,
+          draw.createdAt.toISOString(),
+          draw.prizeId,
+          prizeName,
+          forfeit.contestantId,
+          forfeit.contestant.name,
+          forfeit.contestant.externalId ?? "",
+          forfeit.tickets.toString(),
+          forfeit.wonAt.toISOString(),
+          "forfeited",
+          forfeit.reason,
+          forfeit.forfeitedBy,
+          forfeit.forfeitedAt.toISOString(),
+          "",
+          "",
+          "",
+          // The claim status the winner had when the prize was taken back.
+          forfeit.claimStatus?.toLowerCase() ?? "",
+          "",
+          "",
+          "",
+          "",
+        ]
+          .map(escapeCsv)
+          .join(",")
+      );
+    });
+  });
+
+  // Voided draws come last, numbered separately so the live draw numbers
+  // still match what was announced on stage.
+  voidedDraws.forEach((draw, index) => {
+    const prizeName =
+      draw.prize?.name ?? draw.voidedWinners[0]?.prizeName ?? "Prize";
+    draw.voidedWinners.forEach((winner) => {
+      rows.push(
+        [
+          `V${index + 1}`,
+          draw.id,
+          draw.createdAt.toISOString(),
+          draw.prizeId,
+          prizeName,
+          winner.contestantId,
+          winner.contestant.name,
+          winner.contestant.externalId ?? "",
+          winner.tickets.toString(),
+          winner.wonAt.toISOString(),
+          "voided",
+          "",
+          "",
+          "",
+          draw.voidReason ?? "",
+          draw.voidedBy ?? "",
+          draw.voidedAt?.toISOString() ?? "",
+          "",
+          "",
+          "",
+          "",
+          "",
+        ]
+          .map(escapeCsv)
+          .join(",")
+      );
+    });
   });
 
   const csv = rows.join("\n");
@@ -1,3 +1,5 @@
+import { authorizeSession } from "@/lib/auth";
+import { contestantLabel } from "@/lib/contestant-label";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 
@@ -23,6 +25,9 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
   const session = await prisma.session.findUnique({
     where: { id: sessionId },
     select: { id: true, name: true },
@@ -36,15 +41,26 @@ export async function GET(req: Request, context: Params) {
     where: { sessionId },
     orderBy: { createdAt: "asc" },
     include: {
-      prize: true,
+      prize: { select: { name: true } },
       winners: {
         orderBy: { createdAt: "asc" },
         include: { contestant: true },
       },
+      forfeits: {
+        orderBy: { forfeitedAt: "asc" },
+        include: { contestant: true, replacement: true },
+      },
+      voidedWinners: {
+        orderBy: { wonAt: "asc" },
+        include: { contestant: true },
+      },
     },
   });
 
-  const totalWinners = draws.reduce(
+  const voidedDraws = draws.filter((draw) => draw.voidedAt);
+  const activeDraws = draws.filter((draw) => !draw.voidedAt);
+
+  const totalWinners = activeDraws.reduce(
     (sum, draw) => sum + draw.winners.length,
     0
   );
@@ -54,14 +70,15 @@ export async function GET(req: Request, context: Params) {
   lines.push(`Session ID: ${session.id}`);
   lines.push(`Generated At: ${new Date().toISOString()}`);
   lines.push("");
-  lines.push(`Draws: ${draws.length}`);
+  lines.push(`Draws: ${activeDraws.length}`);
+  lines.push(`Voided Draws: ${voidedDraws.length}`);
   lines.push(`Total Winners: ${totalWinners}`);
   lines.push("");
 
-  if (draws.length === 0) {
+  if (activeDraws.length === 0) {
     lines.push("No draws have been run yet.");
   } else {
-    draws.forEach((draw, index) => {
+    activeDraws.forEach((draw, index) => {
       const drawNumber = index + 1;
       const prizeName =
         draw.prize?.name ??
@@ -75,7 +92,43 @@ export async function GET(req: Request, context: Params) {
         `[${drawNumber}] ${draw.createdAt.toISOString()} — Prize: ${prizeName} (${draw.winners.length})`
       );
       winnerNames.forEach((winner) => {
-        lines.push(`- ${winner.contestant.name}`);
+        lines.push(
+          winner.tickets > 1
+            ? `- ${contestantLabel(winner.contestant)} (${winner.tickets} tickets)`
+            : `- ${contestantLabel(winner.contestant)}`
+        );
+      });
+      if (draw.forfeits.length > 0) {
+        lines.push("  Forfeited:");
+        draw.forfeits.forEach((forfeit) => {
+          const replacedBy = forfeit.replacement
+            ? ` → replaced by ${contestantLabel(forfeit.replacement)}`
+            : " → not replaced";
+          const reinstated = forfeit.reinstatedAt ? " (reinstated)" : "";
+          lines.push(
+            `  x ${contestantLabel(forfeit.contestant)}${reinstated} — ${forfeit.reason} (by ${forfeit.forfeitedBy} at ${forfeit.forfeitedAt.toISOString()})${replacedBy}`
+          );
+        });
+      }
+      lines.push("");
+    });
+  }
+
+  if (voidedDraws.length > 0) {
+    lines.push("");
+    lines.push("Voided Draws");
+    lines.push("");
+    voidedDraws.forEach((draw, index) => {
+      const prizeName =
+        draw.prize?.name ?? draw.voidedWinners[0]?.prizeName ?? "Prize";
+      lines.push(
+        `[V${index + 1}] ${draw.createdAt.toISOString()} — Prize: ${prizeName} (${draw.voidedWinners.length} released)`
+      );
+      lines.push(
+        `  Voided by ${draw.voidedBy ?? "Operator"} at ${draw.voidedAt?.toISOString()} — ${draw.voidReason ?? ""}`
+      );
+      draw.voidedWinners.forEach((winner) => {
+        lines.push(`- ${contestantLabel(winner.contestant)}`);
       });
       lines.push("");
     });
@@ -0,0 +1,70 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Takes a session back out of the trash. Its data was never touched, so draw
+// history, winners and forfeits come back exactly as they were.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OWNER", {
+    includeTrashed: true,
+  });
+  if (access.response) return access.response;
+
+  const restored = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.session.updateMany({
+      where: { id: sessionId, deletedAt: { not: null } },
+      data: { deletedAt: null, deletedBy: null },
+    });
+
+    if (count === 0) return null;
+
+    const session = await tx.session.findUniqueOrThrow({
+      where: { id: sessionId },
+      select: { id: true, name: true, createdAt: true },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "session.restore",
+      summary: { name: session.name },
+    });
+
+    return session;
+  });
+
+  if (!restored) {
+    return NextResponse.json(
+      { error: "Session is not in the trash" },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ ...restored, role: access.role });
+}
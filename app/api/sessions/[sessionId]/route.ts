@@ -1,5 +1,9 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { purgeAfter } from "@/lib/session-trash";
 import { NextResponse } from "next/server";
+import { z } from "zod";
 
 type Params =
   | {
@@ -14,6 +18,14 @@ function normalizeSessionId(raw: string | string[] | undefined): string | null {
   return raw ?? null;
 }
 
+const SESSION_SELECT = {
+  id: true,
+  name: true,
+  createdAt: true,
+  requireCheckIn: true,
+  claimWindowMinutes: true,
+};
+
 export async function GET(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
   const sessionId =
@@ -27,19 +39,36 @@ export async function GET(req: Request, context: Params) {
     );
   }
 
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
   const session = await prisma.session.findUnique({
     where: { id: sessionId },
-    select: { id: true, name: true, createdAt: true },
+    select: SESSION_SELECT,
   });
 
   if (!session) {
     return NextResponse.json({ error: "Session not found" }, { status: 404 });
   }
 
-  return NextResponse.json(session);
+  return NextResponse.json({ ...session, role: access.role });
 }
 
-export async function DELETE(req: Request, context: Params) {
+const settingsSchema = z.object({
+  requireCheckIn: z.boolean().optional(),
+  // Null turns the claim deadline off.
+  claimWindowMinutes: z
+    .number()
+    .int("claimWindowMinutes must be a whole number of minutes")
+    .min(1, "claimWindowMinutes must be at least 1")
+    .max(60 * 24 * 365, "claimWindowMinutes must be a year or less")
+    .nullable()
+    .optional(),
+});
+
+// Session-wide settings that change who can win or keep a prize, so they
+// are owner-only.
+export async function PATCH(req: Request, context: Params) {
   const params = await Promise.resolve(context?.params);
   const sessionId =
     normalizeSessionId(params?.sessionId) ||
@@ -52,22 +81,87 @@ export async function DELETE(req: Request, context: Params) {
     );
   }
 
-  const session = await prisma.session.findUnique({
-    where: { id: sessionId },
-    select: { id: true },
+  const access = await authorizeSession(sessionId, "OWNER");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = settingsSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const session = await prisma.$transaction(async (tx) => {
+    const updated = await tx.session.update({
+      where: { id: sessionId },
+      data: parsed,
+      select: SESSION_SELECT,
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "session.settings",
+      summary: parsed,
+    });
+
+    return updated;
   });
 
-  if (!session) {
-    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  return NextResponse.json({ ...session, role: access.role });
+}
+
+// Moves the session to the trash. Nothing is removed until it is purged,
+// either explicitly or once the retention period runs out.
+export async function DELETE(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
   }
 
-  await prisma.$transaction([
-    prisma.winner.deleteMany({ where: { draw: { sessionId } } }),
-    prisma.draw.deleteMany({ where: { sessionId } }),
-    prisma.prize.deleteMany({ where: { sessionId } }),
-    prisma.contestant.deleteMany({ where: { sessionId } }),
-    prisma.session.delete({ where: { id: sessionId } }),
-  ]);
+  const access = await authorizeSession(sessionId, "OWNER");
+  if (access.response) return access.response;
+
+  const session = await prisma.$transaction(async (tx) => {
+    const trashed = await tx.session.update({
+      where: { id: sessionId },
+      data: { deletedAt: new Date(), deletedBy: access.user.name },
+      select: { name: true, deletedAt: true },
+    });
+
+    // Screens still following the session go back to idle.
+    await tx.presenterState.updateMany({
+      where: { sessionId },
+      data: { phase: "IDLE", version: { increment: 1 } },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "session.trash",
+      summary: { name: trashed.name },
+    });
 
-  return NextResponse.json({ deleted: true });
+    return trashed;
+  });
+
+  const deletedAt = session.deletedAt ?? new Date();
+
+  return NextResponse.json({
+    trashed: true,
+    deletedAt,
+    purgeAfter: purgeAfter(deletedAt),
+  });
 }
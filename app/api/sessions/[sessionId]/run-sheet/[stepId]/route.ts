@@ -0,0 +1,63 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { loadRunSheet } from "@/lib/run-sheet";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; stepId: string | string[] }
+        | Promise<{ sessionId: string | string[]; stepId: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+// Removes a step from the plan. Draws it already ran stay on the record;
+// they simply no longer count towards a step.
+export async function DELETE(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  const sessionId = normalize(params?.sessionId) || segments[3];
+  const stepId = normalize(params?.stepId) || segments[5];
+
+  if (!sessionId || !stepId) {
+    return NextResponse.json(
+      { error: "Session id and step id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const step = await prisma.runSheetStep.findFirst({
+    where: { id: stepId, sessionId },
+    include: { prize: { select: { name: true } } },
+  });
+
+  if (!step) {
+    return NextResponse.json({ error: "Step not found" }, { status: 404 });
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.runSheetStep.delete({ where: { id: stepId } });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "runsheet.remove",
+      summary: {
+        stepId,
+        prizeName: step.prize.name,
+        quantity: step.quantity,
+      },
+    });
+  });
+
+  return NextResponse.json(await loadRunSheet(prisma, sessionId));
+}
@@ -0,0 +1,109 @@
+import { authorizeSession } from "@/lib/auth";
+import {
+  drawErrorResponse,
+  DrawRejectedError,
+  executeDraw,
+  serializeDrawResult,
+} from "@/lib/draws";
+import { prisma } from "@/lib/prisma";
+import { loadRunSheet } from "@/lib/run-sheet";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// The caller names the step and batch it is looking at, so a double click
+// or a second screen pressing the hotkey cannot run two batches at once.
+const nextSchema = z.object({
+  stepId: z.string().min(1, "stepId is required"),
+  batch: z.coerce.number().int().min(0, "batch must be 0 or more"),
+});
+
+// Runs the next batch of the run-sheet through the regular draw.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = nextSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const { result, quantity } = await prisma.$transaction(async (tx) => {
+      // One run-sheet advance per session at a time; the second caller
+      // sees the progress the first one made.
+      await tx.$queryRaw`SELECT "id" FROM "Session" WHERE "id" = ${sessionId} FOR UPDATE`;
+
+      const { next } = await loadRunSheet(tx, sessionId);
+
+      if (!next) {
+        throw new DrawRejectedError("The run-sheet is complete", 409);
+      }
+
+      if (next.stepId !== parsed.stepId || next.batch !== parsed.batch) {
+        throw new DrawRejectedError(
+          "The run-sheet has moved on since it was loaded. Please refresh and try again.",
+          409
+        );
+      }
+
+      const result = await executeDraw(
+        tx,
+        { req, actor: access.user },
+        {
+          sessionId,
+          runSheetStepId: next.stepId,
+          input: {
+            prizeId: next.prize.id,
+            quantity: next.quantity,
+            publicEntropy: null,
+            revealMode: "ALL",
+            revealBatchSize: 1,
+          },
+        }
+      );
+
+      return { result, quantity: next.quantity };
+    });
+
+    return NextResponse.json({
+      ...serializeDrawResult(sessionId, quantity, result),
+      runSheet: await loadRunSheet(prisma, sessionId),
+    });
+  } catch (err) {
+    const response = drawErrorResponse(err);
+    if (response) return response;
+    throw err;
+  }
+}
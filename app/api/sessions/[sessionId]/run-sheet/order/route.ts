@@ -0,0 +1,93 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { loadRunSheet } from "@/lib/run-sheet";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+const orderSchema = z.object({
+  stepIds: z
+    .array(z.string().min(1))
+    .min(1, "stepIds must list the run-sheet's steps"),
+});
+
+// Same rules as the prize order: every step, exactly once.
+export async function PUT(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = orderSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const steps = await prisma.runSheetStep.findMany({
+    where: { sessionId },
+    select: { id: true },
+  });
+
+  const requested = new Set(parsed.stepIds);
+  if (
+    requested.size !== parsed.stepIds.length ||
+    requested.size !== steps.length ||
+    steps.some((step) => !requested.has(step.id))
+  ) {
+    return NextResponse.json(
+      {
+        error:
+          "The run-sheet has changed since it was loaded. Please refresh and try again.",
+      },
+      { status: 409 }
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const [index, id] of parsed.stepIds.entries()) {
+      await tx.runSheetStep.update({
+        where: { id },
+        data: { position: index + 1 },
+      });
+    }
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "runsheet.reorder",
+      summary: { stepIds: parsed.stepIds },
+    });
+  });
+
+  return NextResponse.json(await loadRunSheet(prisma, sessionId));
+}
@@ -0,0 +1,139 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { loadRunSheet, runSheetStepSchema } from "@/lib/run-sheet";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  return NextResponse.json(await loadRunSheet(prisma, sessionId));
+}
+
+// Adds a step to the end of the run-sheet. Steps for the same prize share
+// its stock, so the plan cannot promise more than is left to draw.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = runSheetStepSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const prize = await prisma.prize.findFirst({
+    where: { id: parsed.prizeId, sessionId },
+    select: { id: true, name: true, quantity: true },
+  });
+
+  if (!prize) {
+    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+  }
+
+  const [drawn, sheet] = await Promise.all([
+    prisma.winner.count({ where: { draw: { prizeId: prize.id } } }),
+    loadRunSheet(prisma, sessionId),
+  ]);
+  const planned = sheet.steps
+    .filter((step) => step.prize.id === prize.id)
+    .reduce((sum, step) => sum + step.pendingQuantity, 0);
+  const available = Math.max(prize.quantity - drawn - planned, 0);
+
+  if (parsed.quantity > available) {
+    return NextResponse.json(
+      {
+        error: "Planned quantity exceeds the remaining stock for this prize",
+        available,
+      },
+      { status: 409 }
+    );
+  }
+
+  const batchSize =
+    parsed.batchSize && parsed.batchSize < parsed.quantity
+      ? parsed.batchSize
+      : null;
+
+  const step = await prisma.$transaction(async (tx) => {
+    const { _max } = await tx.runSheetStep.aggregate({
+      where: { sessionId },
+      _max: { position: true },
+    });
+
+    const created = await tx.runSheetStep.create({
+      data: {
+        sessionId,
+        prizeId: prize.id,
+        quantity: parsed.quantity,
+        batchSize,
+        position: (_max.position ?? 0) + 1,
+      },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "runsheet.add",
+      summary: {
+        stepId: created.id,
+        prizeId: prize.id,
+        prizeName: prize.name,
+        quantity: parsed.quantity,
+        batchSize,
+      },
+    });
+
+    return created;
+  });
+
+  return NextResponse.json({
+    stepId: step.id,
+    ...(await loadRunSheet(prisma, sessionId)),
+  });
+}
@@ -0,0 +1,86 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { serializeScheduledDraw } from "@/lib/scheduled-draws";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; scheduledDrawId: string | string[] }
+        | Promise<{
+            sessionId: string | string[];
+            scheduledDrawId: string | string[];
+          }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+// Cancels a draw that has not run yet. The row stays, marked CANCELLED, so
+// the schedule shows what was planned.
+export async function DELETE(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  const sessionId = normalize(params?.sessionId) || segments[3];
+  const scheduledDrawId = normalize(params?.scheduledDrawId) || segments[5];
+
+  if (!sessionId || !scheduledDrawId) {
+    return NextResponse.json(
+      { error: "Session id and scheduled draw id are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const scheduled = await prisma.$transaction(async (tx) => {
+    // Guarded on the status, so a draw the scheduler is running or has
+    // just run cannot be cancelled after the fact.
+    const { count } = await tx.scheduledDraw.updateMany({
+      where: { id: scheduledDrawId, sessionId, status: "PENDING" },
+      data: { status: "CANCELLED", finishedAt: new Date() },
+    });
+    if (count === 0) return null;
+
+    const cancelled = await tx.scheduledDraw.findUniqueOrThrow({
+      where: { id: scheduledDrawId },
+      include: { prize: { select: { id: true, name: true } } },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "draw.unschedule",
+      summary: {
+        scheduledDrawId,
+        prizeName: cancelled.prize.name,
+        quantity: cancelled.quantity,
+        runAt: cancelled.runAt.toISOString(),
+      },
+    });
+
+    return cancelled;
+  });
+
+  if (!scheduled) {
+    const exists = await prisma.scheduledDraw.count({
+      where: { id: scheduledDrawId, sessionId },
+    });
+    return exists
+      ? NextResponse.json(
+          { error: "Only pending scheduled draws can be cancelled" },
+          { status: 409 }
+        )
+      : NextResponse.json(
+          { error: "Scheduled draw not found" },
+          { status: 404 }
+        );
+  }
+
+  return NextResponse.json(serializeScheduledDraw(scheduled));
+}
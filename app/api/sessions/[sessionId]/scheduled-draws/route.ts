@@ -0,0 +1,135 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  scheduledDrawSchema,
+  serializeScheduledDraw,
+} from "@/lib/scheduled-draws";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const scheduled = await prisma.scheduledDraw.findMany({
+    where: { sessionId },
+    orderBy: [{ runAt: "asc" }, { createdAt: "asc" }],
+    include: { prize: { select: { id: true, name: true } } },
+  });
+
+  return NextResponse.json({
+    sessionId,
+    scheduledDraws: scheduled.map(serializeScheduledDraw),
+  });
+}
+
+// Plans a draw for later. Stock and eligibility are checked again when it
+// runs, since both can change in the meantime.
+export async function POST(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  let parsed;
+  try {
+    const body = await req.json();
+    parsed = scheduledDrawSchema.parse(body);
+  } catch (err) {
+    const message =
+      err instanceof z.ZodError
+        ? err.issues[0]?.message || "Invalid input"
+        : "Invalid JSON body";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  const prize = await prisma.prize.findFirst({
+    where: { id: parsed.prizeId, sessionId },
+    select: { id: true, name: true, quantity: true },
+  });
+
+  if (!prize) {
+    return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+  }
+
+  const drawn = await prisma.winner.count({
+    where: { draw: { prizeId: prize.id } },
+  });
+  const remaining = Math.max(prize.quantity - drawn, 0);
+
+  if (parsed.quantity > remaining) {
+    return NextResponse.json(
+      {
+        error: "Requested quantity exceeds remaining stock for this prize",
+        remaining,
+      },
+      { status: 409 }
+    );
+  }
+
+  const scheduled = await prisma.$transaction(async (tx) => {
+    const created = await tx.scheduledDraw.create({
+      data: {
+        sessionId,
+        prizeId: prize.id,
+        quantity: parsed.quantity,
+        runAt: parsed.runAt,
+        createdBy: access.user.name,
+      },
+      include: { prize: { select: { id: true, name: true } } },
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "draw.schedule",
+      summary: {
+        scheduledDrawId: created.id,
+        prizeId: prize.id,
+        prizeName: prize.name,
+        quantity: parsed.quantity,
+        runAt: parsed.runAt.toISOString(),
+      },
+    });
+
+    return created;
+  });
+
+  return NextResponse.json(serializeScheduledDraw(scheduled));
+}
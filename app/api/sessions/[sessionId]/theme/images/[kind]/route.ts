@@ -0,0 +1,178 @@
+import { recordAudit } from "@/lib/audit";
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  MAX_THEME_IMAGE_BYTES,
+  THEME_IMAGE_KINDS,
+  THEME_IMAGE_TYPES,
+  readPresenterTheme,
+  type ThemeImageKind,
+} from "@/lib/theme";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; kind: string | string[] }
+        | Promise<{ sessionId: string | string[]; kind: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+function isImageKind(value: string | null): value is ThemeImageKind {
+  return THEME_IMAGE_KINDS.includes(value as ThemeImageKind);
+}
+
+// Logo and background live in the same row, so each kind maps to its own
+// pair of columns.
+function imageColumns(
+  kind: ThemeImageKind,
+  data: Uint8Array<ArrayBuffer> | null,
+  type: string | null
+) {
+  return kind === "logo"
+    ? { logoData: data, logoType: type }
+    : { backgroundData: data, backgroundType: type };
+}
+
+async function resolveRoute(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  const sessionId = normalize(params?.sessionId) || segments[3];
+  const kind = normalize(params?.kind) || segments[6];
+  return { sessionId, kind };
+}
+
+export async function GET(req: Request, context: Params) {
+  const { sessionId, kind } = await resolveRoute(req, context);
+
+  if (!sessionId || !isImageKind(kind)) {
+    return NextResponse.json(
+      { error: "Session id and image kind are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const theme = await prisma.presenterTheme.findUnique({
+    where: { sessionId },
+    select: {
+      logoData: kind === "logo",
+      logoType: kind === "logo",
+      backgroundData: kind === "background",
+      backgroundType: kind === "background",
+    },
+  });
+
+  const data = kind === "logo" ? theme?.logoData : theme?.backgroundData;
+  const type = kind === "logo" ? theme?.logoType : theme?.backgroundType;
+
+  if (!data || !type) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": type,
+      // URLs are versioned by the theme's update time. Private, since only
+      // signed-in members of the session may see them.
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
+
+export async function POST(req: Request, context: Params) {
+  const { sessionId, kind } = await resolveRoute(req, context);
+
+  if (!sessionId || !isImageKind(kind)) {
+    return NextResponse.json(
+      { error: "Session id and image kind are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  const formData = await req.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return NextResponse.json({ error: "No image uploaded" }, { status: 400 });
+  }
+
+  if (!THEME_IMAGE_TYPES.includes(file.type)) {
+    return NextResponse.json(
+      { error: "Images must be PNG, JPEG, WebP or GIF" },
+      { status: 400 }
+    );
+  }
+
+  if (file.size > MAX_THEME_IMAGE_BYTES) {
+    return NextResponse.json(
+      { error: "Images must be 2 MB or smaller" },
+      { status: 400 }
+    );
+  }
+
+  const columns = imageColumns(
+    kind,
+    new Uint8Array(await file.arrayBuffer()),
+    file.type
+  );
+
+  await prisma.$transaction(async (tx) => {
+    await tx.presenterTheme.upsert({
+      where: { sessionId },
+      create: { sessionId, ...columns },
+      update: columns,
+    });
+
+    await recordAudit(tx, req, {
+      sessionId,
+      actor: access.user,
+      action: "theme.imageUpload",
+      summary: { kind, fileName: file.name, type: file.type, bytes: file.size },
+    });
+  });
+
+  return NextResponse.json(await readPresenterTheme(prisma, sessionId));
+}
+
+export async function DELETE(req: Request, context: Params) {
+  const { sessionId, kind } = await resolveRoute(req, context);
+
+  if (!sessionId || !isImageKind(kind)) {
+    return NextResponse.json(
+      { error: "Session id and image kind are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  await prisma.$transaction(async (tx) => {
+    const cleared = await tx.presenterTheme.updateMany({
+      where: { sessionId },
+      data: imageColumns(kind, null, null),
+    });
+
+    if (cleared.count > 0) {
+      await recordAudit(tx, req, {
+        sessionId,
+        actor: access.user,
+        action: "theme.imageRemove",
+        summary: { kind },
+      });
+    }
+  });
+
+  return NextResponse.json(await readPresenterTheme(prisma, sessionId));
+}
@@ -0,0 +1,79 @@
+import { authorizeSession } from "@/lib/auth";
+import { serializeClaim } from "@/lib/claims";
+import { serializeContestant } from "@/lib/contestants";
+import { prisma } from "@/lib/prisma";
+import { normalizeTicketCode } from "@/lib/tickets";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[]; code: string | string[] }
+        | Promise<{ sessionId: string | string[]; code: string | string[] }>;
+    }
+  | undefined;
+
+function normalize(value: string | string[] | undefined): string | null {
+  if (Array.isArray(value)) return value[0] ?? null;
+  return value ?? null;
+}
+
+// Resolves a scanned ticket to its contestant and whether they have won.
+// Read-only: checking in and claiming are separate actions.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const segments = new URL(req.url).pathname.split("/");
+  const sessionId = normalize(params?.sessionId) || segments[3];
+  const rawCode = normalize(params?.code) || segments[5];
+
+  if (!sessionId || !rawCode) {
+    return NextResponse.json(
+      { error: "Session id and ticket code are required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const contestant = await prisma.contestant.findFirst({
+    where: {
+      sessionId,
+      ticketCode: normalizeTicketCode(rawCode),
+    },
+    include: {
+      winner: {
+        include: {
+          draw: {
+            select: {
+              id: true,
+              prize: { select: { id: true } },
+              session: { select: { claimWindowMinutes: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!contestant) {
+    return NextResponse.json({ error: "Unknown ticket code" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    sessionId,
+    contestant: serializeContestant(contestant),
+    winner: contestant.winner
+      ? {
+          drawId: contestant.winner.drawId,
+          prizeId: contestant.winner.draw.prize.id,
+          prizeName: contestant.winner.prizeName,
+          wonAt: contestant.winner.createdAt,
+          claim: serializeClaim(
+            contestant.winner,
+            contestant.winner.draw.session.claimWindowMinutes
+          ),
+        }
+      : null,
+  });
+}
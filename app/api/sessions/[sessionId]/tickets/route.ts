@@ -0,0 +1,62 @@
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ensureTicketCodes } from "@/lib/tickets";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Everything the printable ticket sheet needs. Operator-only, because a
+// ticket code is what a winner shows to collect their prize.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "OPERATOR");
+  if (access.response) return access.response;
+
+  await ensureTicketCodes(prisma, sessionId);
+
+  const [session, contestants] = await Promise.all([
+    prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { name: true },
+    }),
+    prisma.contestant.findMany({
+      where: { sessionId },
+      select: {
+        id: true,
+        name: true,
+        externalId: true,
+        department: true,
+        ticketCode: true,
+      },
+      orderBy: [{ name: "asc" }, { id: "asc" }],
+    }),
+  ]);
+
+  return NextResponse.json({
+    sessionId,
+    sessionName: session?.name ?? null,
+    tickets: contestants,
+  });
+}
@@ -0,0 +1,66 @@
+import { authorizeSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+type Params =
+  | {
+      params:
+        | { sessionId: string | string[] }
+        | Promise<{ sessionId: string | string[] }>;
+    }
+  | undefined;
+
+function normalizeSessionId(raw: string | string[] | undefined): string | null {
+  if (Array.isArray(raw)) return raw[0] ?? null;
+  return raw ?? null;
+}
+
+// Current winners grouped by draw, for the stage "winners so far" board.
+export async function GET(req: Request, context: Params) {
+  const params = await Promise.resolve(context?.params);
+  const sessionId =
+    normalizeSessionId(params?.sessionId) ||
+    new URL(req.url).pathname.split("/")[3];
+
+  if (!sessionId) {
+    return NextResponse.json(
+      { error: "Session id is required in the route" },
+      { status: 400 }
+    );
+  }
+
+  const access = await authorizeSession(sessionId, "VIEWER");
+  if (access.response) return access.response;
+
+  const draws = await prisma.draw.findMany({
+    where: { sessionId, voidedAt: null },
+    orderBy: { createdAt: "asc" },
+    include: {
+      prize: { select: { id: true, name: true } },
+      winners: {
+        include: {
+          contestant: { select: { id: true, name: true, externalId: true } },
+        },
+      },
+    },
+  });
+
+  const totalWinners = draws.reduce((sum, d) => sum + d.winners.length, 0);
+
+  return NextResponse.json({
+    sessionId,
+    totalWinners,
+    draws: draws.map((draw) => ({
+      drawId: draw.id,
+      createdAt: draw.createdAt,
+      prize: draw.prize,
+      winners: draw.winners
+        .map((winner) => ({
+          contestantId: winner.contestant.id,
+          name: winner.contestant.name,
+          externalId: winner.contestant.externalId,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    })),
+  });
+}
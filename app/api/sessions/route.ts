@@ -1,13 +1,44 @@
 // src/app/api/sessions/route.ts
+import { getCurrentUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { purgeExpiredSessions } from "@/lib/session-trash";
 import { NextResponse } from "next/server";
 
 export async function GET() {
-  const sessions = await prisma.session.findMany();
-  return NextResponse.json(sessions);
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  await purgeExpiredSessions();
+
+  // Only sessions the user owns or has been added to, minus the trash.
+  const sessions = await prisma.session.findMany({
+    where: {
+      deletedAt: null,
+      OR: [{ ownerId: user.id }, { members: { some: { userId: user.id } } }],
+    },
+    include: {
+      members: { where: { userId: user.id }, select: { role: true } },
+    },
+  });
+
+  return NextResponse.json(
+    sessions.map(({ members, ...session }) => ({
+      ...session,
+      role: session.ownerId === user.id ? "OWNER" : members[0]?.role,
+    }))
+  );
 }
 
 export async function POST(req: Request) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
   const body = await req.json();
 
   if (!body.name) {
@@ -18,7 +49,7 @@ export async function POST(req: Request) {
   }
 
   const session = await prisma.session.create({
-    data: { name: body.name },
+    data: { name: body.name, ownerId: user.id },
   });
 
   return NextResponse.json(session);
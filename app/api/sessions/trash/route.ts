@@ -0,0 +1,28 @@
+import { getCurrentUser } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { purgeAfter, purgeExpiredSessions } from "@/lib/session-trash";
+import { NextResponse } from "next/server";
+
+// Trashed sessions the user owns; only owners can restore or purge them.
+export async function GET() {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Sign in to continue" }, { status: 401 });
+  }
+
+  await purgeExpiredSessions();
+
+  const sessions = await prisma.session.findMany({
+    where: { ownerId: user.id, deletedAt: { not: null } },
+    select: { id: true, name: true, deletedAt: true, deletedBy: true },
+    orderBy: { deletedAt: "desc" },
+  });
+
+  return NextResponse.json(
+    sessions.map((session) => ({
+      ...session,
+      purgeAfter: session.deletedAt ? purgeAfter(session.deletedAt) : null,
+    }))
+  );
+}
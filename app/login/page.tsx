@@ -0,0 +1,139 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+
+type Mode = "login" | "register";
+
+// Only follow same-site paths back after signing in. Browsers read "/\host"
+// as "//host", so the path is resolved against this origin rather than
+// pattern matched.
+function safeRedirect(next: string | null): string {
+  if (!next || !next.startsWith("/")) return "/";
+  try {
+    const origin = window.location.origin;
+    const url = new URL(next, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : "/";
+  } catch {
+    return "/";
+  }
+}
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          mode === "register" ? { email, name, password } : { email, password }
+        ),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(
+          data?.error ||
+            (mode === "register"
+              ? "Failed to create account"
+              : "Failed to sign in")
+        );
+      }
+      router.replace(safeRedirect(searchParams.get("next")));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="mx-auto flex max-w-sm flex-col gap-4 p-6">
+      <h1 className="text-3xl font-semibold">
+        {mode === "login" ? "Sign in" : "Create account"}
+      </h1>
+      <form className="flex flex-col gap-2" onSubmit={handleSubmit}>
+        <label className="text-sm font-medium" htmlFor="login-email">
+          Email
+        </label>
+        <input
+          id="login-email"
+          type="email"
+          autoComplete="email"
+          className="rounded border px-3 py-2"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        {mode === "register" && (
+          <>
+            <label className="text-sm font-medium" htmlFor="login-name">
+              Name
+            </label>
+            <input
+              id="login-name"
+              type="text"
+              autoComplete="name"
+              className="rounded border px-3 py-2"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </>
+        )}
+        <label className="text-sm font-medium" htmlFor="login-password">
+          Password
+        </label>
+        <input
+          id="login-password"
+          type="password"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          className="rounded border px-3 py-2"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+          disabled={submitting || !email || !password}
+        >
+          {submitting
+            ? "Please wait..."
+            : mode === "login"
+            ? "Sign in"
+            : "Create account"}
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        className="self-start text-sm text-blue-700 underline"
+        onClick={() => {
+          setError(null);
+          setMode(mode === "login" ? "register" : "login");
+        }}
+      >
+        {mode === "login"
+          ? "No account yet? Create one"
+          : "Already have an account? Sign in"}
+      </button>
+    </main>
+  );
+}
+
+// useSearchParams needs a Suspense boundary for static rendering.
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -7,6 +7,21 @@ import { useRouter } from "next/navigation";
 type Session = {
   id: string;
   name: string;
+  role: "OWNER" | "OPERATOR" | "VIEWER";
+};
+
+type TrashedSession = {
+  id: string;
+  name: string;
+  deletedAt: string;
+  deletedBy: string | null;
+  purgeAfter: string;
+};
+
+type CurrentUser = {
+  id: string;
+  email: string;
+  name: string;
 };
 
 export default function Home() {
@@ -15,6 +30,12 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [trash, setTrash] = useState<TrashedSession[]>([]);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [purging, setPurging] = useState<string | null>(null);
+  const [purgeConfirmation, setPurgeConfirmation] = useState("");
+  const [user, setUser] = useState<CurrentUser | null>(null);
   const router = useRouter();
 
   const fetchSessions = async () => {
@@ -22,6 +43,10 @@ export default function Home() {
     setLoading(true);
     try {
       const res = await fetch("/api/sessions");
+      if (res.status === 401) {
+        window.location.assign("/login");
+        return;
+      }
       if (!res.ok) {
         throw new Error("Failed to load sessions");
       }
@@ -34,10 +59,32 @@ export default function Home() {
     }
   };
 
+  const fetchTrash = async () => {
+    const res = await fetch("/api/sessions/trash");
+    if (!res.ok) return;
+    setTrash((await res.json()) as TrashedSession[]);
+  };
+
   useEffect(() => {
     fetchSessions();
+    fetchTrash();
   }, []);
 
+  useEffect(() => {
+    const fetchUser = async () => {
+      const res = await fetch("/api/auth/me");
+      if (!res.ok) return;
+      const data = await res.json();
+      setUser(data.user as CurrentUser);
+    };
+    fetchUser();
+  }, []);
+
+  async function signOut() {
+    await fetch("/api/auth/logout", { method: "POST" });
+    router.replace("/login");
+  }
+
   async function createSession() {
     if (!name.trim()) {
       setError("Session name is required");
@@ -68,7 +115,8 @@ export default function Home() {
       if (!res.ok) {
         throw new Error(data?.error || "Failed to delete session");
       }
-      await fetchSessions();
+      setConfirmingDelete(null);
+      await Promise.all([fetchSessions(), fetchTrash()]);
     } catch (err) {
       setError((err as Error).message);
     } finally {
@@ -76,9 +124,58 @@ export default function Home() {
     }
   }
 
+  async function restoreSession(id: string) {
+    setError(null);
+    setRestoring(id);
+    try {
+      const res = await fetch(`/api/sessions/${id}/restore`, {
+        method: "POST",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to restore session");
+      }
+      await Promise.all([fetchSessions(), fetchTrash()]);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRestoring(null);
+    }
+  }
+
+  async function purgeSession(id: string) {
+    setError(null);
+    try {
+      const res = await fetch(`/api/sessions/${id}/purge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirmName: purgeConfirmation }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to purge session");
+      }
+      setPurging(null);
+      setPurgeConfirmation("");
+      await fetchTrash();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
   return (
     <main className="mx-auto flex max-w-3xl flex-col gap-4 p-6">
-      <h1 className="text-3xl font-semibold">Sessions</h1>
+      <div className="flex items-center justify-between gap-2">
+        <h1 className="text-3xl font-semibold">Sessions</h1>
+        {user && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>{user.name}</span>
+            <button className="underline" onClick={signOut}>
+              Sign out
+            </button>
+          </div>
+        )}
+      </div>
 
       <div className="flex gap-2">
         <input
@@ -111,18 +208,111 @@ export default function Home() {
                 >
                   {session.name}
                 </Link>
-                <button
-                  className="rounded border border-red-500 px-3 py-1 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
-                  onClick={() => deleteSession(session.id)}
-                  disabled={deleting === session.id}
-                >
-                  {deleting === session.id ? "Deleting..." : "Delete"}
-                </button>
+                {session.role === "OWNER" && confirmingDelete === session.id ? (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-600">Move to trash?</span>
+                    <button
+                      className="rounded border border-red-500 bg-red-600 px-3 py-1 text-white hover:bg-red-700 disabled:opacity-50"
+                      onClick={() => deleteSession(session.id)}
+                      disabled={deleting === session.id}
+                    >
+                      {deleting === session.id ? "Deleting..." : "Yes, delete"}
+                    </button>
+                    <button
+                      className="rounded border px-3 py-1"
+                      onClick={() => setConfirmingDelete(null)}
+                      disabled={deleting === session.id}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : session.role === "OWNER" ? (
+                  <button
+                    className="rounded border border-red-500 px-3 py-1 text-sm text-red-600 hover:bg-red-50"
+                    onClick={() => setConfirmingDelete(session.id)}
+                  >
+                    Delete
+                  </button>
+                ) : (
+                  <span className="text-sm text-gray-500">
+                    {session.role.toLowerCase()}
+                  </span>
+                )}
               </li>
             ))}
           </ul>
         )}
       </div>
+
+      {trash.length > 0 && (
+        <div className="flex flex-col gap-2 rounded border border-gray-200 p-4">
+          <h2 className="text-lg font-semibold">Trash</h2>
+          <p className="text-sm text-gray-500">
+            Trashed sessions are purged automatically after the date shown.
+            Restoring brings back contestants, prizes and draw history intact.
+          </p>
+          <ul className="space-y-3">
+            {trash.map((session) => (
+              <li key={session.id} className="flex flex-col gap-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{session.name}</p>
+                    <p className="text-xs text-gray-500">
+                      Deleted {new Date(session.deletedAt).toLocaleString()}
+                      {session.deletedBy ? ` by ${session.deletedBy}` : ""} ·
+                      purged after{" "}
+                      {new Date(session.purgeAfter).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      className="rounded border px-3 py-1 disabled:opacity-50"
+                      onClick={() => restoreSession(session.id)}
+                      disabled={restoring === session.id}
+                    >
+                      {restoring === session.id ? "Restoring..." : "Restore"}
+                    </button>
+                    <button
+                      className="rounded border border-red-500 px-3 py-1 text-red-600 hover:bg-red-50"
+                      onClick={() => {
+                        setPurging(purging === session.id ? null : session.id);
+                        setPurgeConfirmation("");
+                      }}
+                    >
+                      Delete forever
+                    </button>
+                  </div>
+                </div>
+                {purging === session.id && (
+                  <div className="flex flex-col gap-2 rounded border border-red-200 bg-red-50 p-3">
+                    <p className="text-red-700">
+                      This permanently deletes every contestant, prize and draw
+                      in this session. Type{" "}
+                      <span className="font-semibold">{session.name}</span> to
+                      confirm.
+                    </p>
+                    <div className="flex gap-2">
+                      <input
+                        value={purgeConfirmation}
+                        onChange={(e) => setPurgeConfirmation(e.target.value)}
+                        className="flex-1 rounded border px-3 py-1"
+                        placeholder={session.name}
+                      />
+                      <button
+                        className="rounded bg-red-600 px-3 py-1 text-white disabled:opacity-50"
+                        onClick={() => purgeSession(session.id)}
+                        disabled={purgeConfirmation !== session.name}
+                      >
+                        Purge
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </main>
   );
 }
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import QrScanner from "@/components/QrScanner";
+import { contestantLabel } from "@/lib/contestant-label";
+
+type CheckInContestant = {
+  id: string;
+  name: string;
+  externalId: string | null;
+  department: string | null;
+  ticketNumber: string | null;
+  withdrawn: boolean;
+  checkedInAt: string | null;
+  checkedInBy: string | null;
+  hasPrize: boolean;
+};
+
+type BulkCheckInSummary = {
+  totalRows: number;
+  matched: number;
+  checkedIn: number;
+  alreadyCheckedIn: number;
+  unmatched: number;
+  ambiguous: number;
+  unmatchedRows: { line: number; value: string }[];
+};
+
+type ScanResult = {
+  tone: "ok" | "warn" | "error";
+  message: string;
+};
+
+const SEARCH_LIMIT = 20;
+
+// Built for a phone at the venue entrance: one scan field, big buttons and
+// a running count of arrivals.
+export default function CheckInPage() {
+  const params = useParams<{ sessionID: string }>();
+  const sessionId = params?.sessionID ?? "";
+
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [requireCheckIn, setRequireCheckIn] = useState(false);
+  const [counts, setCounts] = useState<{
+    total: number;
+    checkedIn: number;
+  } | null>(null);
+  const [code, setCode] = useState("");
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [searchInput, setSearchInput] = useState("");
+  const [results, setResults] = useState<CheckInContestant[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [bulkFile, setBulkFile] = useState<File | null>(null);
+  const [bulkUploading, setBulkUploading] = useState(false);
+  const [bulkSummary, setBulkSummary] = useState<BulkCheckInSummary | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const fetchSession = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load session");
+        setSessionName(data.name ?? null);
+        setRequireCheckIn(Boolean(data.requireCheckIn));
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    fetchSession();
+  }, [sessionId]);
+
+  const fetchCounts = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants?limit=1`,
+        { cache: "no-store" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load counts");
+      setCounts({ total: data.total ?? 0, checkedIn: data.checkedIn ?? 0 });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
+  const runSearch = useCallback(
+    async (search: string) => {
+      if (!sessionId || !search) {
+        setResults([]);
+        return;
+      }
+      setSearching(true);
+      try {
+        const query = new URLSearchParams({
+          search,
+          limit: String(SEARCH_LIMIT),
+        });
+        const res = await fetch(
+          `/api/sessions/${sessionId}/contestants?${query}`,
+          { cache: "no-store" }
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Search failed");
+        setResults((data.contestants as CheckInContestant[]) ?? []);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setSearching(false);
+      }
+    },
+    [sessionId]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => runSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [runSearch, searchInput]);
+
+  const replaceResult = (contestant: CheckInContestant) => {
+    setResults((prev) =>
+      prev.map((row) => (row.id === contestant.id ? contestant : row))
+    );
+  };
+
+  const handleScan = async (scanned: string) => {
+    const value = scanned.trim();
+    if (!value) return;
+    setScanning(true);
+    setScanResult(null);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants/check-in`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ code: value }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Check-in failed");
+      const contestant = data.contestant as CheckInContestant;
+      setScanResult(
+        data.changed
+          ? { tone: "ok", message: `Checked in ${contestantLabel(contestant)}` }
+          : {
+              tone: "warn",
+              message: `${contestantLabel(contestant)} was already checked in`,
+            }
+      );
+      replaceResult(contestant);
+      setCode("");
+      await fetchCounts();
+    } catch (err) {
+      setScanResult({ tone: "error", message: (err as Error).message });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const toggleCheckIn = async (contestant: CheckInContestant) => {
+    setBusyId(contestant.id);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants/${contestant.id}/check-in`,
+        { method: contestant.checkedInAt ? "DELETE" : "POST" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Check-in failed");
+      replaceResult(data.contestant as CheckInContestant);
+      await fetchCounts();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleBulkUpload = async () => {
+    if (!bulkFile) return;
+    setBulkUploading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", bulkFile);
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants/check-in/import`,
+        { method: "POST", body: formData }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Bulk check-in failed");
+      setBulkSummary(data as BulkCheckInSummary);
+      setBulkFile(null);
+      await fetchCounts();
+      await runSearch(searchInput.trim());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBulkUploading(false);
+    }
+  };
+
+  const scanTone =
+    scanResult?.tone === "ok"
+      ? "bg-green-100 text-green-800"
+      : scanResult?.tone === "warn"
+      ? "bg-amber-100 text-amber-800"
+      : "bg-red-100 text-red-800";
+
+  return (
+    <div className="mx-auto flex max-w-md flex-col gap-4 p-4">
+      <div className="flex flex-col gap-1">
+        <Link
+          className="underline hover:text-blue-300"
+          href={`/sessions/${sessionId}`}
+        >
+          Back to session
+        </Link>
+        <h1 className="text-2xl font-semibold">
+          Check-in{sessionName ? ` · ${sessionName}` : ""}
+        </h1>
+        <p className="text-lg">
+          {counts
+            ? `${counts.checkedIn} of ${counts.total} checked in`
+            : "Loading..."}
+        </p>
+        {requireCheckIn && (
+          <p className="text-sm text-gray-600">
+            Only checked-in contestants can win in this session.
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <form
+        className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm"
+        onSubmit={(event) => {
+          event.preventDefault();
+          handleScan(code);
+        }}
+      >
+        <label className="text-sm font-medium" htmlFor="check-in-code">
+          Scan or type a ticket, ID or QR code
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="check-in-code"
+            className="flex-1 rounded border px-3 py-3 text-lg"
+            autoFocus
+            autoComplete="off"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <button
+            type="submit"
+            className="rounded bg-blue-600 px-4 py-3 text-white disabled:bg-blue-300"
+            disabled={scanning || !code.trim()}
+          >
+            Check in
+          </button>
+        </div>
+        <QrScanner onScan={handleScan} />
+        {scanResult && (
+          <p className={`rounded px-3 py-2 text-sm font-medium ${scanTone}`}>
+            {scanResult.message}
+          </p>
+        )}
+      </form>
+
+      <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+        <input
+          type="search"
+          placeholder="Search by name or ID"
+          className="rounded border px-3 py-3 text-lg"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+        {searching && <p className="text-sm text-gray-500">Searching...</p>}
+        <ul className="flex flex-col divide-y">
+          {results.map((contestant) => (
+            <li
+              key={contestant.id}
+              className="flex items-center justify-between gap-2 py-2"
+            >
+              <div className="flex flex-col">
+                <span className="font-medium">
+                  {contestantLabel(contestant)}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {[
+                    contestant.department,
+                    contestant.withdrawn && "Withdrawn",
+                    contestant.hasPrize && "Winner",
+                    contestant.checkedInAt &&
+                      `In at ${new Date(
+                        contestant.checkedInAt
+                      ).toLocaleTimeString()}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </div>
+              <button
+                className={
+                  contestant.checkedInAt
+                    ? "rounded border px-3 py-2 text-sm disabled:opacity-50"
+                    : "rounded bg-green-600 px-3 py-2 text-sm text-white disabled:opacity-50"
+                }
+                onClick={() => toggleCheckIn(contestant)}
+                disabled={busyId === contestant.id}
+              >
+                {contestant.checkedInAt ? "Undo" : "Check in"}
+              </button>
+            </li>
+          ))}
+          {searchInput.trim() && !searching && results.length === 0 && (
+            <li className="py-2 text-sm text-gray-500">No one matches.</li>
+          )}
+        </ul>
+      </div>
+
+      <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+        <h2 className="text-lg font-semibold">Bulk check-in</h2>
+        <p className="text-sm text-gray-600">
+          Upload an attendance list (CSV or Excel). Rows are matched by ID when
+          there is an ID or badge column, otherwise by name.
+        </p>
+        <input
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => {
+            setBulkFile(e.target.files?.[0] ?? null);
+            setBulkSummary(null);
+          }}
+        />
+        <button
+          className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+          onClick={handleBulkUpload}
+          disabled={bulkUploading || !bulkFile}
+        >
+          {bulkUploading ? "Checking in..." : "Check in everyone on the list"}
+        </button>
+        {bulkSummary && (
+          <ul className="space-y-1 text-sm">
+            <li>Rows: {bulkSummary.totalRows}</li>
+            <li>Checked in: {bulkSummary.checkedIn}</li>
+            <li>Already checked in: {bulkSummary.alreadyCheckedIn}</li>
+            <li>
+              Not found: {bulkSummary.unmatched}
+              {bulkSummary.ambiguous > 0 &&
+                ` (${bulkSummary.ambiguous} shared names need an ID)`}
+            </li>
+            {bulkSummary.unmatchedRows.length > 0 && (
+              <li className="text-xs text-gray-500">
+                {bulkSummary.unmatchedRows
+                  .map(({ line, value }) => `line ${line}: ${value}`)
+                  .join(", ")}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
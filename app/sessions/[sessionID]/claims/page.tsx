@@ -0,0 +1,420 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import QrScanner from "@/components/QrScanner";
+import { contestantLabel } from "@/lib/contestant-label";
+import type { ClaimStatus } from "@/lib/claims";
+
+type Claim = {
+  winnerId: string;
+  status: ClaimStatus;
+  claimedAt: string | null;
+  claimedBy: string | null;
+  claimNote: string | null;
+  deadline: string | null;
+  overdue: boolean;
+  drawId: string;
+  prizeName: string;
+  wonAt: string;
+  contestant: {
+    id: string;
+    name: string;
+    externalId: string | null;
+    department: string | null;
+    ticketNumber: string | null;
+  };
+};
+
+type ClaimCounts = Record<ClaimStatus, number> & { overdue: number };
+
+type ExpireResult = {
+  expired: number;
+  redrawn: {
+    name: string;
+    prizeName: string;
+    replacementName: string | null;
+  }[];
+};
+
+const STATUS_LABELS: Record<ClaimStatus, string> = {
+  UNCLAIMED: "Unclaimed",
+  CLAIMED: "Claimed",
+  EXPIRED: "Expired",
+};
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  UNCLAIMED: "bg-gray-100 text-gray-700",
+  CLAIMED: "bg-green-100 text-green-800",
+  EXPIRED: "bg-red-100 text-red-800",
+};
+
+// The prize handover table: find a winner by name or ticket, note the
+// signature or photo, and hand the prize over before the deadline.
+export default function ClaimDeskPage() {
+  const params = useParams<{ sessionID: string }>();
+  const sessionId = params?.sessionID ?? "";
+
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [claimWindowMinutes, setClaimWindowMinutes] = useState<number | null>(
+    null
+  );
+  const [windowInput, setWindowInput] = useState("");
+  const [savingWindow, setSavingWindow] = useState(false);
+  const [counts, setCounts] = useState<ClaimCounts | null>(null);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [searchInput, setSearchInput] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ClaimStatus | "">("");
+  const [loading, setLoading] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expiring, setExpiring] = useState(false);
+  const [expireResult, setExpireResult] = useState<ExpireResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const fetchSession = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load session");
+        setSessionName(data.name ?? null);
+        setRole(data.role ?? null);
+        setWindowInput(
+          data.claimWindowMinutes ? String(data.claimWindowMinutes) : ""
+        );
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    fetchSession();
+  }, [sessionId]);
+
+  const fetchClaims = useCallback(
+    async (search: string, status: ClaimStatus | "") => {
+      if (!sessionId) return;
+      setLoading(true);
+      try {
+        const query = new URLSearchParams();
+        if (search) query.set("search", search);
+        if (status) query.set("status", status);
+        const res = await fetch(`/api/sessions/${sessionId}/claims?${query}`, {
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load claims");
+        setClaims((data.claims as Claim[]) ?? []);
+        setCounts((data.counts as ClaimCounts) ?? null);
+        setClaimWindowMinutes(data.claimWindowMinutes ?? null);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [sessionId]
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(
+      () => fetchClaims(searchInput.trim(), statusFilter),
+      300
+    );
+    return () => clearTimeout(timer);
+  }, [fetchClaims, searchInput, statusFilter]);
+
+  const refresh = () => fetchClaims(searchInput.trim(), statusFilter);
+
+  const setClaimed = async (claim: Claim, claimed: boolean) => {
+    setBusyId(claim.winnerId);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/claims/${claim.winnerId}`,
+        claimed
+          ? {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ note: notes[claim.winnerId] ?? "" }),
+            }
+          : { method: "DELETE" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to update claim");
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[claim.winnerId];
+        return next;
+      });
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const saveClaimWindow = async () => {
+    const trimmed = windowInput.trim();
+    const minutes = trimmed ? Number(trimmed) : null;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1)) {
+      setError("The claim window must be a whole number of minutes");
+      return;
+    }
+    setSavingWindow(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ claimWindowMinutes: minutes }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save setting");
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSavingWindow(false);
+    }
+  };
+
+  const handleExpire = async (redraw: boolean) => {
+    const message = redraw
+      ? "Expire overdue prizes and redraw every expired prize? Forfeited winners cannot win again unless reinstated."
+      : "Mark every overdue unclaimed prize as expired?";
+    if (!window.confirm(message)) return;
+    setExpiring(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/claims/expire`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ redraw }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to expire prizes");
+      setExpireResult(data as ExpireResult);
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExpiring(false);
+    }
+  };
+
+  const canOperate = role === "OPERATOR" || role === "OWNER";
+
+  return (
+    <div className="mx-auto flex max-w-2xl flex-col gap-4 p-6">
+      <div className="flex flex-col gap-1">
+        <Link
+          className="underline hover:text-blue-300"
+          href={`/sessions/${sessionId}`}
+        >
+          Back to session
+        </Link>
+        <h1 className="text-2xl font-semibold">
+          Claim desk{sessionName ? ` · ${sessionName}` : ""}
+        </h1>
+        {counts && (
+          <p className="text-sm text-gray-600">
+            {counts.CLAIMED} claimed · {counts.UNCLAIMED} unclaimed
+            {counts.overdue > 0 &&
+              ` (${counts.overdue} past the deadline)`} · {counts.EXPIRED}{" "}
+            expired
+          </p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+        <h2 className="text-lg font-semibold">Claim deadline</h2>
+        <p className="text-sm text-gray-600">
+          {claimWindowMinutes
+            ? `Winners have ${claimWindowMinutes} minutes from their draw to collect.`
+            : "No deadline: prizes stay unclaimed until handed over."}
+        </p>
+        {role === "OWNER" && (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              placeholder="Minutes"
+              className="w-32 rounded border px-3 py-2"
+              value={windowInput}
+              onChange={(e) => setWindowInput(e.target.value)}
+            />
+            <button
+              className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+              onClick={saveClaimWindow}
+              disabled={savingWindow}
+            >
+              {savingWindow ? "Saving..." : "Save"}
+            </button>
+            <span className="text-xs text-gray-500">
+              Leave empty for no deadline.
+            </span>
+          </div>
+        )}
+        {claimWindowMinutes !== null && canOperate && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              className="rounded border px-3 py-2 text-sm disabled:opacity-50"
+              onClick={() => handleExpire(false)}
+              disabled={expiring}
+            >
+              Expire overdue prizes
+            </button>
+            <button
+              className="rounded border border-red-500 px-3 py-2 text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+              onClick={() => handleExpire(true)}
+              disabled={expiring}
+            >
+              {expiring ? "Working..." : "Expire and redraw"}
+            </button>
+          </div>
+        )}
+        {expireResult && (
+          <div className="text-sm">
+            <p>
+              {expireResult.expired} prizes expired
+              {expireResult.redrawn.length > 0 &&
+                `, ${expireResult.redrawn.length} redrawn`}
+              .
+            </p>
+            <ul className="text-xs text-gray-600">
+              {expireResult.redrawn.map((entry, index) => (
+                <li key={index}>
+                  {entry.prizeName}: {entry.name} →{" "}
+                  {entry.replacementName ?? "no eligible replacement"}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            placeholder="Name, ID or ticket code"
+            className="flex-1 rounded border px-3 py-3 text-lg"
+            autoFocus
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <select
+            className="rounded border px-2"
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as ClaimStatus | "")
+            }
+          >
+            <option value="">All</option>
+            {(Object.keys(STATUS_LABELS) as ClaimStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <QrScanner onScan={(code) => setSearchInput(code)} />
+        {loading && <p className="text-sm text-gray-500">Loading...</p>}
+
+        <ul className="flex flex-col divide-y">
+          {claims.map((claim) => (
+            <li key={claim.winnerId} className="flex flex-col gap-2 py-3">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex flex-col">
+                  <span className="font-medium">
+                    {contestantLabel(claim.contestant)}
+                  </span>
+                  <span className="text-sm">{claim.prizeName}</span>
+                  <span className="text-xs text-gray-500">
+                    {[
+                      claim.contestant.department,
+                      `Won ${new Date(claim.wonAt).toLocaleTimeString()}`,
+                      claim.deadline &&
+                        claim.status === "UNCLAIMED" &&
+                        `Collect by ${new Date(
+                          claim.deadline
+                        ).toLocaleString()}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </div>
+                <span
+                  className={`rounded px-2 py-0.5 text-xs font-medium ${
+                    claim.overdue
+                      ? STATUS_STYLES.EXPIRED
+                      : STATUS_STYLES[claim.status]
+                  }`}
+                >
+                  {claim.overdue
+                    ? "Past deadline"
+                    : STATUS_LABELS[claim.status]}
+                </span>
+              </div>
+
+              {claim.status === "CLAIMED" && (
+                <p className="text-xs text-gray-600">
+                  Handed over by {claim.claimedBy} at{" "}
+                  {claim.claimedAt &&
+                    new Date(claim.claimedAt).toLocaleString()}
+                  {claim.claimNote && ` — ${claim.claimNote}`}
+                </p>
+              )}
+
+              {canOperate &&
+                (claim.status === "UNCLAIMED" ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="Signature or photo note (optional)"
+                      className="flex-1 rounded border px-2 py-1 text-sm"
+                      value={notes[claim.winnerId] ?? ""}
+                      onChange={(e) =>
+                        setNotes((prev) => ({
+                          ...prev,
+                          [claim.winnerId]: e.target.value,
+                        }))
+                      }
+                      disabled={claim.overdue}
+                    />
+                    <button
+                      className="rounded bg-green-600 px-3 py-2 text-sm text-white disabled:opacity-50"
+                      onClick={() => setClaimed(claim, true)}
+                      disabled={busyId === claim.winnerId || claim.overdue}
+                    >
+                      Hand over
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    className="self-start rounded border px-3 py-1 text-sm disabled:opacity-50"
+                    onClick={() => setClaimed(claim, false)}
+                    disabled={busyId === claim.winnerId}
+                  >
+                    Reopen claim
+                  </button>
+                ))}
+            </li>
+          ))}
+          {!loading && claims.length === 0 && (
+            <li className="py-2 text-sm text-gray-500">
+              {searchInput.trim() || statusFilter
+                ? "No winner matches."
+                : "No winners yet."}
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -3,35 +3,149 @@
 import { useCallback, useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
+import AuditTimeline from "@/components/AuditTimeline";
+import ColumnMappingEditor from "@/components/ColumnMappingEditor";
+import ContestantList from "@/components/ContestantList";
+import ImportPreview, {
+  type ImportPreviewData,
+} from "@/components/ImportPreview";
+import PrizeImport from "@/components/PrizeImport";
+import PrizeList from "@/components/PrizeList";
+import RunSheet from "@/components/RunSheet";
+import SessionMembers from "@/components/SessionMembers";
+import ThemeEditor from "@/components/ThemeEditor";
+import { contestantLabel } from "@/lib/contestant-label";
+import {
+  IMPORT_MODES,
+  IMPORT_MODE_LABELS,
+  type ColumnMapping,
+  type ImportMode,
+} from "@/lib/import-mapping";
+import type {
+  PresenterPhase,
+  PresenterSnapshot,
+  RevealMode,
+} from "@/lib/presenter";
+import type { ScheduledDrawStatus } from "@/lib/scheduled-draws";
 
 type ImportSummary = {
   sessionId: string;
+  mode: ImportMode;
   totalRows: number;
   validNames: number;
   inserted: number;
+  updated: number;
+  unchanged: number;
+  restored: number;
+  withdrawn: number;
+  removed: number;
+  kept: number;
+  rejected: number;
   skippedDuplicatesInFile: number;
   skippedDuplicatesInDb: number;
+  skippedInvalidTickets: number;
+  skippedInvalidEmails: number;
 };
 
-type ContestantRow = {
-  id: string;
-  name: string;
-  hasPrize: boolean;
-  prizeName: string | null;
-};
+// Without a name column the server reads the file as a bare name list, so
+// an unfinished mapping is left out rather than rejected.
+function importFormData(
+  file: File,
+  mapping: ColumnMapping | null,
+  sheet: string | null,
+  mode: ImportMode
+) {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("mode", mode);
+  if (sheet) {
+    formData.append("sheet", sheet);
+  }
+  if (mapping?.name) {
+    formData.append("mapping", JSON.stringify(mapping));
+  }
+  return formData;
+}
 
 type PrizeRow = {
   id: string;
   name: string;
   quantity: number;
+  eligibleCategories?: string[];
+  description?: string | null;
+  sponsor?: string | null;
+  imageUrl?: string | null;
   alreadyDrawn?: number;
   remaining?: number;
+  eligible?: number;
+};
+
+type DrawCommitment = {
+  commitmentId: string;
+  seedHash: string;
 };
 
 type DrawWinner = {
   contestantId: string;
   name: string;
   prizeName: string;
+  tickets: number;
+};
+
+type DrawListItem = {
+  id: string;
+  createdAt: string;
+  voidedAt: string | null;
+  prize?: { id: string; name: string };
+};
+
+type ScheduledDrawItem = {
+  id: string;
+  prize: { id: string; name: string };
+  quantity: number;
+  runAt: string;
+  status: ScheduledDrawStatus;
+  drawId: string | null;
+  error: string | null;
+};
+
+// Leaves the scheduler a moment to finish before the lists are reloaded.
+const SCHEDULE_REFRESH_DELAY_MS = 20000;
+
+// setTimeout fires at once for anything longer than this, so a draw planned
+// weeks ahead is waited for in steps instead.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+const SCHEDULE_STATUS_LABELS: Record<ScheduledDrawStatus, string> = {
+  PENDING: "Scheduled",
+  DONE: "Ran",
+  FAILED: "Failed",
+  CANCELLED: "Cancelled",
+};
+
+type DrawDetail = {
+  drawId: string;
+  winners: {
+    contestantId: string;
+    name: string;
+    externalId: string | null;
+    claimStatus: string;
+  }[];
+  forfeits: {
+    id: string;
+    contestantId: string;
+    name: string;
+    externalId: string | null;
+    reason: string;
+    forfeitedBy: string;
+    forfeitedAt: string;
+    reinstatedAt: string | null;
+    replacement: {
+      contestantId: string;
+      name: string;
+      externalId: string | null;
+    } | null;
+  }[];
 };
 
 export default function SessionPage() {
@@ -42,17 +156,32 @@ export default function SessionPage() {
   const [uploading, setUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [result, setResult] = useState<ImportSummary | null>(null);
+  const [importHeaders, setImportHeaders] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(
+    null
+  );
+  const [importSheet, setImportSheet] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("append");
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [downloadingRejected, setDownloadingRejected] = useState(false);
 
-  const [contestants, setContestants] = useState<ContestantRow[]>([]);
+  const [contestantsVersion, setContestantsVersion] = useState(0);
   const [totalContestants, setTotalContestants] = useState<number | null>(null);
   const [eligibleContestants, setEligibleContestants] = useState<number | null>(
     null
   );
+  const [checkedInContestants, setCheckedInContestants] = useState<
+    number | null
+  >(null);
   const [contestantError, setContestantError] = useState<string | null>(null);
   const [contestantLoading, setContestantLoading] = useState(false);
 
   const [prizeName, setPrizeName] = useState("");
   const [prizeQuantity, setPrizeQuantity] = useState<string>("");
+  const [prizeCategories, setPrizeCategories] = useState("");
+  const [prizeDescription, setPrizeDescription] = useState("");
+  const [prizeSponsor, setPrizeSponsor] = useState("");
   const [prizeSubmitting, setPrizeSubmitting] = useState(false);
   const [prizeError, setPrizeError] = useState<string | null>(null);
   const [prizes, setPrizes] = useState<PrizeRow[]>([]);
@@ -64,22 +193,39 @@ export default function SessionPage() {
   const [drawSubmitting, setDrawSubmitting] = useState(false);
   const [drawError, setDrawError] = useState<string | null>(null);
   const [drawWinners, setDrawWinners] = useState<DrawWinner[] | null>(null);
+  const [drawCommitment, setDrawCommitment] = useState<DrawCommitment | null>(
+    null
+  );
+  const [publicEntropy, setPublicEntropy] = useState("");
+  const [revealMode, setRevealMode] = useState<RevealMode>("ALL");
+  const [revealBatchSize, setRevealBatchSize] = useState("1");
+  const [drawDetail, setDrawDetail] = useState<DrawDetail | null>(null);
+  const [drawDetailError, setDrawDetailError] = useState<string | null>(null);
+  const [forfeiting, setForfeiting] = useState<string | null>(null);
   const [drawCount, setDrawCount] = useState<number | null>(null);
   const [drawStatusError, setDrawStatusError] = useState<string | null>(null);
-  const [drawList, setDrawList] = useState<
-    { id: string; createdAt: string; prize?: { id: string; name: string } }[]
-  >([]);
+  const [drawList, setDrawList] = useState<DrawListItem[]>([]);
+  const [scheduledDraws, setScheduledDraws] = useState<ScheduledDrawItem[]>([]);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [scheduling, setScheduling] = useState(false);
+  const [voiding, setVoiding] = useState<string | null>(null);
+  const [presenter, setPresenter] = useState<PresenterSnapshot | null>(null);
+  const [presenterError, setPresenterError] = useState<string | null>(null);
+  const [presenterBusy, setPresenterBusy] = useState(false);
   const [sessionName, setSessionName] = useState<string | null>(null);
   const [sessionError, setSessionError] = useState<string | null>(null);
   const [sessionLoading, setSessionLoading] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [sessionRole, setSessionRole] = useState<string | null>(null);
+  const [requireCheckIn, setRequireCheckIn] = useState(false);
+  const [settingsBusy, setSettingsBusy] = useState(false);
 
   const fetchContestants = useCallback(async () => {
     if (!sessionId) return;
     setContestantLoading(true);
     setContestantError(null);
     try {
-      const res = await fetch(`/api/sessions/${sessionId}/contestants`);
+      // Only the counters are needed here; the list pages on its own.
+      const res = await fetch(`/api/sessions/${sessionId}/contestants?limit=1`);
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
         throw new Error(data?.error || "Failed to load contestants");
@@ -87,11 +233,12 @@ export default function SessionPage() {
       const data = (await res.json()) as {
         total: number;
         eligible: number;
-        contestants: ContestantRow[];
+        checkedIn: number;
       };
-      setContestants(data.contestants);
       setTotalContestants(data.total);
       setEligibleContestants(data.eligible);
+      setCheckedInContestants(data.checkedIn);
+      setContestantsVersion((prev) => prev + 1);
     } catch (err) {
       setContestantError((err as Error).message);
     } finally {
@@ -128,12 +275,16 @@ export default function SessionPage() {
       const res = await fetch(`/api/sessions/${sessionId}`);
       const data = (await res.json().catch(() => ({}))) as {
         name?: string;
+        role?: string;
+        requireCheckIn?: boolean;
         error?: string;
       };
       if (!res.ok) {
         throw new Error(data?.error || "Failed to load session");
       }
       setSessionName(data.name ?? "");
+      setSessionRole(data.role ?? null);
+      setRequireCheckIn(Boolean(data.requireCheckIn));
     } catch (err) {
       setSessionError((err as Error).message);
     } finally {
@@ -141,30 +292,108 @@ export default function SessionPage() {
     }
   }, [sessionId]);
 
+  const handleRequireCheckIn = async (required: boolean) => {
+    setSettingsBusy(true);
+    setContestantError(null);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requireCheckIn: required }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save setting");
+      setRequireCheckIn(Boolean(data.requireCheckIn));
+      await Promise.all([fetchContestants(), fetchPrizes()]);
+    } catch (err) {
+      setContestantError((err as Error).message);
+    } finally {
+      setSettingsBusy(false);
+    }
+  };
+
   const fetchDrawStatus = useCallback(async () => {
     if (!sessionId) return;
     setDrawStatusError(null);
     try {
-      const res = await fetch(`/api/sessions/${sessionId}/draws`);
+      const [res, scheduledRes] = await Promise.all([
+        fetch(`/api/sessions/${sessionId}/draws`),
+        fetch(`/api/sessions/${sessionId}/scheduled-draws`, {
+          cache: "no-store",
+        }),
+      ]);
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
         throw new Error(data?.error || "Failed to load draw status");
       }
       const data = (await res.json()) as {
         drawCount: number;
-        draws?: {
-          id: string;
-          createdAt: string;
-          prize?: { id: string; name: string };
-        }[];
+        draws?: DrawListItem[];
       };
+      const scheduled = await scheduledRes.json().catch(() => ({}));
+      if (!scheduledRes.ok) {
+        throw new Error(scheduled?.error || "Failed to load scheduled draws");
+      }
       setDrawCount(data.drawCount);
       setDrawList(data.draws ?? []);
+      setScheduledDraws(
+        (scheduled.scheduledDraws as ScheduledDrawItem[]) ?? []
+      );
     } catch (err) {
       setDrawStatusError((err as Error).message);
     }
   }, [sessionId]);
 
+  const fetchPresenter = useCallback(async () => {
+    if (!sessionId) return;
+    setPresenterError(null);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/presenter`, {
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load presenter state");
+      }
+      setPresenter(data as PresenterSnapshot);
+    } catch (err) {
+      setPresenterError((err as Error).message);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchPresenter();
+  }, [fetchPresenter]);
+
+  // The scheduler runs on the server; reload the lists shortly after the
+  // next pending draw is due so its result shows up here.
+  useEffect(() => {
+    const nextRunAt = scheduledDraws
+      .filter((scheduled) => scheduled.status === "PENDING")
+      .map((scheduled) => new Date(scheduled.runAt).getTime())
+      .sort((a, b) => a - b)[0];
+    if (nextRunAt === undefined) return;
+    const timer = setTimeout(
+      () => {
+        fetchContestants();
+        fetchPrizes();
+        fetchDrawStatus();
+        fetchPresenter();
+      },
+      Math.min(
+        Math.max(nextRunAt - Date.now(), 0) + SCHEDULE_REFRESH_DELAY_MS,
+        MAX_TIMER_DELAY_MS
+      )
+    );
+    return () => clearTimeout(timer);
+  }, [
+    scheduledDraws,
+    fetchContestants,
+    fetchPrizes,
+    fetchDrawStatus,
+    fetchPresenter,
+  ]);
+
   useEffect(() => {
     console.log("sessionId:", sessionId);
     console.log("contestants url:", `/api/sessions/${sessionId}/contestants`);
@@ -174,26 +403,56 @@ export default function SessionPage() {
     fetchDrawStatus();
   }, [fetchContestants, fetchPrizes, fetchSessionDetails, fetchDrawStatus]);
 
+  // Publish the seed hash before the draw so the audience can hold us to it.
   useEffect(() => {
-    setCurrentPage(1);
-  }, [contestants]);
+    if (!sessionId || !drawPrizeId || drawCommitment) return;
+    let cancelled = false;
+    const fetchCommitment = async () => {
+      try {
+        const res = await fetch(
+          `/api/sessions/${sessionId}/draws/commitments`,
+          { method: "POST" }
+        );
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(data?.error || "Failed to prepare draw seed");
+        }
+        if (!cancelled) setDrawCommitment(data as DrawCommitment);
+      } catch (err) {
+        if (!cancelled) setDrawError((err as Error).message);
+      }
+    };
+    fetchCommitment();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, drawPrizeId, drawCommitment]);
 
   const handleUpload = async () => {
     if (!file) {
-      setUploadError("Choose a CSV file to upload.");
+      setUploadError("Choose a file to upload.");
+      return;
+    }
+
+    if (
+      preview &&
+      (preview.toRemove > 0 || preview.toWithdraw > 0) &&
+      !window.confirm(
+        preview.toRemove > 0
+          ? `Remove ${preview.toRemove} contestants who never took part in a draw?`
+          : `Withdraw ${preview.toWithdraw} contestants missing from the file?`
+      )
+    ) {
       return;
     }
 
     setUploadError(null);
     setUploading(true);
 
-    const formData = new FormData();
-    formData.append("file", file);
-
     try {
       const res = await fetch(`/api/sessions/${sessionId}/contestants/import`, {
         method: "POST",
-        body: formData,
+        body: importFormData(file, columnMapping, importSheet, importMode),
       });
 
       const data = await res.json();
@@ -204,6 +463,10 @@ export default function SessionPage() {
 
       setResult(data as ImportSummary);
       setFile(null);
+      setImportHeaders([]);
+      setColumnMapping(null);
+      setImportSheet(null);
+      setPreview(null);
       await fetchContestants();
     } catch (err) {
       setUploadError((err as Error).message);
@@ -212,6 +475,105 @@ export default function SessionPage() {
     }
   };
 
+  // Nothing is written until the operator confirms; the preview runs the
+  // same checks as the import itself.
+  const requestPreview = async (
+    chosen: File,
+    mapping: ColumnMapping | null,
+    sheet: string | null,
+    mode: ImportMode = importMode
+  ) => {
+    setUploadError(null);
+    setPreviewing(true);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants/import/preview`,
+        { method: "POST", body: importFormData(chosen, mapping, sheet, mode) }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to preview file");
+      const next = data as ImportPreviewData;
+      setPreview(next);
+      // The first preview suggests the mapping; later ones only recount.
+      if (!mapping) {
+        setImportSheet(next.sheet);
+        setImportHeaders(next.headers);
+        setColumnMapping(next.headers.length > 0 ? next.mapping : null);
+      }
+    } catch (err) {
+      setPreview(null);
+      setUploadError((err as Error).message);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleFileChosen = (chosen: File | null) => {
+    setFile(chosen);
+    setResult(null);
+    setImportHeaders([]);
+    setColumnMapping(null);
+    setImportSheet(null);
+    setPreview(null);
+    if (chosen) requestPreview(chosen, null, null);
+  };
+
+  // Sheets have their own headers, so the mapping is suggested afresh.
+  const handleSheetChange = (sheet: string) => {
+    if (!file) return;
+    setImportSheet(sheet);
+    setImportHeaders([]);
+    setColumnMapping(null);
+    requestPreview(file, null, sheet);
+  };
+
+  const handleMappingChange = (mapping: ColumnMapping) => {
+    setColumnMapping(mapping);
+    if (file) requestPreview(file, mapping, importSheet);
+  };
+
+  const handleModeChange = (mode: ImportMode) => {
+    setImportMode(mode);
+    if (file) requestPreview(file, columnMapping, importSheet, mode);
+  };
+
+  const handleDownloadRejected = async () => {
+    if (!file) return;
+    setUploadError(null);
+    setDownloadingRejected(true);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants/import/rejected`,
+        {
+          method: "POST",
+          body: importFormData(file, columnMapping, importSheet, importMode),
+        }
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || "Failed to download rejected rows");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `rejected-${file.name.replace(/\.[^.]*$/, "")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setUploadError((err as Error).message);
+    } finally {
+      setDownloadingRejected(false);
+    }
+  };
+
+  const previewHasChanges =
+    preview !== null &&
+    preview.toInsert +
+      preview.toUpdate +
+      preview.toWithdraw +
+      preview.toRemove >
+      0;
+
   const parsedQuantity = Number(prizeQuantity);
   const quantityInvalid =
     !Number.isInteger(parsedQuantity) ||
@@ -243,6 +605,9 @@ export default function SessionPage() {
         body: JSON.stringify({
           name: prizeName,
           quantity: parsedQuantity,
+          eligibleCategories: prizeCategories,
+          description: prizeDescription,
+          sponsor: prizeSponsor,
         }),
       });
 
@@ -254,6 +619,9 @@ export default function SessionPage() {
 
       setPrizeName("");
       setPrizeQuantity("");
+      setPrizeCategories("");
+      setPrizeDescription("");
+      setPrizeSponsor("");
       await fetchContestants();
       await fetchPrizes();
       await fetchDrawStatus();
@@ -265,12 +633,12 @@ export default function SessionPage() {
   };
 
   const selectedPrize = prizes.find((p) => p.id === drawPrizeId);
+  const eligibleForPrize = selectedPrize?.eligible ?? eligibleContestants;
   const parsedDrawQuantity = Number(drawQuantity);
   const drawQuantityInvalid =
     !Number.isInteger(parsedDrawQuantity) ||
     parsedDrawQuantity < 1 ||
-    (eligibleContestants !== null &&
-      parsedDrawQuantity > eligibleContestants) ||
+    (eligibleForPrize !== null && parsedDrawQuantity > eligibleForPrize) ||
     (selectedPrize?.remaining !== undefined &&
       parsedDrawQuantity > selectedPrize.remaining);
 
@@ -285,10 +653,7 @@ export default function SessionPage() {
       return;
     }
 
-    if (
-      eligibleContestants !== null &&
-      parsedDrawQuantity > eligibleContestants
-    ) {
+    if (eligibleForPrize !== null && parsedDrawQuantity > eligibleForPrize) {
       setDrawError("Quantity exceeds eligible contestants.");
       return;
     }
@@ -312,26 +677,33 @@ export default function SessionPage() {
         body: JSON.stringify({
           prizeId: selectedPrize.id,
           quantity: parsedDrawQuantity,
+          commitmentId: drawCommitment?.commitmentId,
+          publicEntropy: publicEntropy.trim() || undefined,
+          revealMode,
+          revealBatchSize:
+            revealMode === "SEQUENTIAL" ? Number(revealBatchSize) || 1 : 1,
         }),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
+        if (res.status === 409) {
+          // Another operator drew from this prize first; show the real stock.
+          await fetchPrizes();
+        }
         throw new Error(data?.error || "Failed to draw winners");
       }
 
       setDrawWinners(data.winners as DrawWinner[]);
       setDrawQuantity("");
+      setDrawCommitment(null);
+      setPublicEntropy("");
       await fetchContestants();
       await fetchPrizes();
       await fetchDrawStatus();
-      if (data.drawId) {
-        window.open(
-          `/sessions/${sessionId}/draws/${data.drawId}/present`,
-          "_blank"
-        );
-      }
+      // Connected screens switch to the new draw by themselves.
+      await fetchPresenter();
     } catch (err) {
       setDrawError((err as Error).message);
     } finally {
@@ -339,6 +711,253 @@ export default function SessionPage() {
     }
   };
 
+  const handleScheduleDraw = async () => {
+    if (!selectedPrize || drawQuantityInvalid) {
+      setDrawError("Select a prize and a valid quantity to schedule.");
+      return;
+    }
+    const runAt = new Date(scheduleAt);
+    if (!scheduleAt || Number.isNaN(runAt.getTime())) {
+      setDrawError("Choose when the draw should run.");
+      return;
+    }
+
+    setDrawError(null);
+    setScheduling(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/scheduled-draws`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prizeId: selectedPrize.id,
+          quantity: parsedDrawQuantity,
+          runAt: runAt.toISOString(),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to schedule draw");
+      setScheduleAt("");
+      setDrawQuantity("");
+      await fetchDrawStatus();
+    } catch (err) {
+      setDrawError((err as Error).message);
+    } finally {
+      setScheduling(false);
+    }
+  };
+
+  const handleCancelScheduled = async (scheduled: ScheduledDrawItem) => {
+    if (
+      !window.confirm(
+        `Cancel the ${scheduled.prize.name} draw planned for ${new Date(
+          scheduled.runAt
+        ).toLocaleString()}?`
+      )
+    ) {
+      return;
+    }
+    setDrawStatusError(null);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/scheduled-draws/${scheduled.id}`,
+        { method: "DELETE" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to cancel scheduled draw");
+      }
+    } catch (err) {
+      setDrawStatusError((err as Error).message);
+    } finally {
+      await fetchDrawStatus();
+    }
+  };
+
+  const fetchDrawDetail = async (drawId: string) => {
+    setDrawDetailError(null);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/draws/${drawId}`, {
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to load draw winners");
+      }
+      setDrawDetail(data as DrawDetail);
+    } catch (err) {
+      setDrawDetailError((err as Error).message);
+    }
+  };
+
+  const toggleDrawDetail = (drawId: string) => {
+    if (drawDetail?.drawId === drawId) {
+      setDrawDetail(null);
+      return;
+    }
+    fetchDrawDetail(drawId);
+  };
+
+  const handleForfeit = async (
+    drawId: string,
+    contestantId: string,
+    name: string
+  ) => {
+    const reason = window.prompt(`Why is ${name} forfeiting?`, "Not present");
+    if (reason === null) return;
+
+    setDrawDetailError(null);
+    setForfeiting(contestantId);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/draws/${drawId}/forfeits`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            contestantId,
+            reason,
+          }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to forfeit winner");
+      }
+      await fetchDrawDetail(drawId);
+      await fetchContestants();
+      await fetchPrizes();
+    } catch (err) {
+      setDrawDetailError((err as Error).message);
+    } finally {
+      setForfeiting(null);
+    }
+  };
+
+  const handleReinstate = async (drawId: string, forfeitId: string) => {
+    setDrawDetailError(null);
+    setForfeiting(forfeitId);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/draws/${drawId}/forfeits/${forfeitId}/reinstate`,
+        { method: "POST" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to reinstate contestant");
+      }
+      await fetchDrawDetail(drawId);
+      await fetchContestants();
+    } catch (err) {
+      setDrawDetailError((err as Error).message);
+    } finally {
+      setForfeiting(null);
+    }
+  };
+
+  const handleVoidDraw = async (draw: DrawListItem) => {
+    const reason = window.prompt(
+      `Void the ${draw.prize?.name ?? "prize"} draw? Its winners go back into the pool. Reason:`,
+      "Wrong prize or quantity"
+    );
+    if (reason === null) return;
+
+    setDrawStatusError(null);
+    setVoiding(draw.id);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/draws/${draw.id}`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to void draw");
+      }
+      if (drawDetail?.drawId === draw.id) setDrawDetail(null);
+      await fetchContestants();
+      await fetchPrizes();
+      await fetchDrawStatus();
+    } catch (err) {
+      setDrawStatusError((err as Error).message);
+    } finally {
+      setVoiding(null);
+    }
+  };
+
+  const sendPresenter = async (
+    phase: PresenterPhase,
+    drawId?: string | null
+  ) => {
+    setPresenterError(null);
+    setPresenterBusy(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/presenter`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phase, drawId }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update presenter");
+      }
+      setPresenter(data as PresenterSnapshot);
+    } catch (err) {
+      setPresenterError((err as Error).message);
+    } finally {
+      setPresenterBusy(false);
+    }
+  };
+
+  // Moves a sequential reveal one batch forward or back on every screen.
+  const stepReveal = async (direction: 1 | -1) => {
+    const reveal = presenter?.reveal;
+    if (!presenter?.drawId || !reveal) return;
+    const position =
+      direction === 1
+        ? reveal.position + reveal.batchSize
+        : Math.ceil(reveal.position / reveal.batchSize) * reveal.batchSize -
+          reveal.batchSize;
+
+    setPresenterError(null);
+    setPresenterBusy(true);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/draws/${presenter.drawId}`,
+        {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ revealPosition: Math.max(position, 0) }),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data?.error || "Failed to update reveal");
+      }
+      await fetchPresenter();
+    } catch (err) {
+      setPresenterError((err as Error).message);
+    } finally {
+      setPresenterBusy(false);
+    }
+  };
+
+  const presenterDraw = drawList.find((d) => d.id === presenter?.drawId);
+  // Draws still to run, or that never ran, are listed ahead of the real
+  // draws; scheduled draws that ran are tagged on their draw instead.
+  const upcomingScheduled = scheduledDraws.filter(
+    (scheduled) => scheduled.status !== "DONE"
+  );
+  const scheduledDrawIds = new Set(
+    scheduledDraws.flatMap((scheduled) =>
+      scheduled.drawId ? [scheduled.drawId] : []
+    )
+  );
+
+  // Changes whenever a draw is run or voided, from this page or elsewhere.
+  const drawsKey = drawList
+    .map((draw) => `${draw.id}${draw.voidedAt ? "v" : ""}`)
+    .join(",");
+
   const handleDownloadTxt = () => {
     window.location.href = `/api/sessions/${sessionId}/report.txt`;
   };
@@ -347,14 +966,6 @@ export default function SessionPage() {
     window.location.href = `/api/sessions/${sessionId}/report.csv`;
   };
 
-  const pageSize = 10;
-  const totalPages = Math.max(1, Math.ceil(contestants.length / pageSize));
-  const startIndex = (currentPage - 1) * pageSize;
-  const displayedContestants = contestants.slice(
-    startIndex,
-    startIndex + pageSize
-  );
-
   return (
     <div className="mx-auto flex max-w-2xl flex-col gap-4 p-6">
       <div className="flex flex-col gap-1">
@@ -367,14 +978,15 @@ export default function SessionPage() {
             : sessionName ?? `Session ${sessionId}`}
         </h1>
         <p className="text-sm text-gray-500">
-          Upload a CSV of contestant names to import them into this session.
+          Upload a CSV or Excel file of contestants to import them into this
+          session.
         </p>
         {sessionError && <p className="text-sm text-red-600">{sessionError}</p>}
       </div>
 
       <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
         <label className="text-sm font-medium">
-          CSV file (.csv or text/csv)
+          Contestant file (.csv, .tsv or .xlsx)
         </label>
         <div className="flex items-center justify-center w-full">
           <label
@@ -401,7 +1013,11 @@ export default function SessionPage() {
               </svg>
               <p className="font-semibold">Click to upload or drag and drop</p>
               <p className="text-xs text-gray-500">
-                CSV only. Duplicate/empty names are skipped automatically.
+                CSV (comma or semicolon), TSV or Excel. Duplicate/empty names
+                are skipped automatically. Columns are matched to name, ID,
+                email, phone, department, ticket number and tickets; you can
+                check the preview and adjust the mapping before importing. Other
+                columns become categories.
               </p>
               {file && (
                 <p className="mt-2 text-xs text-gray-700">
@@ -412,22 +1028,69 @@ export default function SessionPage() {
             <input
               id="dropzone-file"
               type="file"
-              accept=".csv,text/csv"
+              accept=".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
               className="hidden"
-              onChange={(event) => {
-                const uploadedFile = event.target.files?.[0] ?? null;
-                setFile(uploadedFile);
-                setUploadError(null);
-              }}
+              onChange={(event) =>
+                handleFileChosen(event.target.files?.[0] ?? null)
+              }
             />
           </label>
         </div>
+        {file && preview && preview.sheets.length > 1 && (
+          <label className="flex items-center gap-2 text-sm">
+            Sheet
+            <select
+              className="rounded border px-2 py-1"
+              value={importSheet ?? ""}
+              onChange={(e) => handleSheetChange(e.target.value)}
+              disabled={previewing}
+            >
+              {preview.sheets.map((sheet) => (
+                <option key={sheet} value={sheet}>
+                  {sheet}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {file && columnMapping && importHeaders.length > 0 && (
+          <ColumnMappingEditor
+            headers={importHeaders}
+            mapping={columnMapping}
+            onChange={handleMappingChange}
+          />
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          Existing contestants
+          <select
+            className="rounded border px-2 py-1"
+            value={importMode}
+            onChange={(e) => handleModeChange(e.target.value as ImportMode)}
+            disabled={previewing || uploading}
+          >
+            {IMPORT_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {IMPORT_MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {previewing && (
+          <p className="text-sm text-gray-500">Checking file...</p>
+        )}
+        {file && preview && !previewing && (
+          <ImportPreview
+            preview={preview}
+            downloading={downloadingRejected}
+            onDownloadRejected={handleDownloadRejected}
+          />
+        )}
         <button
           className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
           onClick={handleUpload}
-          disabled={uploading || !file}
+          disabled={uploading || previewing || !preview || !previewHasChanges}
         >
-          {uploading ? "Uploading..." : "Upload CSV"}
+          {uploading ? "Importing..." : preview ? "Import" : "Upload file"}
         </button>
         {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
         <p className="text-sm text-gray-700">
@@ -443,12 +1106,34 @@ export default function SessionPage() {
             <li>Total rows: {result.totalRows}</li>
             <li>Valid names: {result.validNames}</li>
             <li>Inserted: {result.inserted}</li>
+            {(result.mode === "merge" || result.mode === "sync") && (
+              <>
+                <li>Updated: {result.updated}</li>
+                <li>Unchanged: {result.unchanged}</li>
+              </>
+            )}
+            {result.mode === "sync" && (
+              <>
+                <li>Withdrawn: {result.withdrawn}</li>
+                <li>Restored: {result.restored}</li>
+              </>
+            )}
+            {result.mode === "replace" && (
+              <>
+                <li>Removed: {result.removed}</li>
+                <li>Kept (winners and past winners): {result.kept}</li>
+              </>
+            )}
             <li>
               Skipped duplicates in file: {result.skippedDuplicatesInFile}
             </li>
             <li>
               Skipped duplicates in database: {result.skippedDuplicatesInDb}
             </li>
+            <li>
+              Skipped invalid ticket counts: {result.skippedInvalidTickets}
+            </li>
+            <li>Skipped invalid emails: {result.skippedInvalidEmails}</li>
           </ul>
         </div>
       )}
@@ -457,9 +1142,33 @@ export default function SessionPage() {
         <div className="flex flex-col">
           <h2 className="text-lg font-semibold">Contestants</h2>
           <p className="text-sm text-gray-600">
-            Total: {totalContestants ?? "—"} · Eligible:{" "}
+            Total: {totalContestants ?? "—"} · Checked in:{" "}
+            {checkedInContestants ?? "—"} · Eligible:{" "}
             {eligibleContestants ?? "—"}
           </p>
+          <label className="mt-1 flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={requireCheckIn}
+              onChange={(e) => handleRequireCheckIn(e.target.checked)}
+              disabled={settingsBusy || sessionRole !== "OWNER"}
+            />
+            Only checked-in contestants can win
+          </label>
+          <div className="flex gap-3 text-sm">
+            <Link
+              className="text-blue-700 underline"
+              href={`/sessions/${sessionId}/check-in`}
+            >
+              Open check-in desk
+            </Link>
+            <Link
+              className="text-blue-700 underline"
+              href={`/sessions/${sessionId}/tickets`}
+            >
+              Print QR tickets
+            </Link>
+          </div>
         </div>
         <button
           className="rounded bg-gray-100 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
@@ -474,56 +1183,14 @@ export default function SessionPage() {
         <p className="text-sm text-red-600">{contestantError}</p>
       )}
 
-      <div className="overflow-x-auto rounded border border-gray-200 p-4 shadow-sm">
-        <table className="min-w-full text-left text-sm">
-          <thead>
-            <tr className="border-b">
-              <th className="py-2 pr-4">Name</th>
-            </tr>
-          </thead>
-          <tbody>
-            {displayedContestants.map((contestant) => (
-              <tr key={contestant.id} className="border-b last:border-0">
-                <td className="py-2 pr-4">{contestant.name}</td>
-              </tr>
-            ))}
-            {contestants.length === 0 && (
-              <tr>
-                <td className="py-2 pr-4" colSpan={1}>
-                  {contestantLoading
-                    ? "Loading contestants..."
-                    : "No contestants yet."}
-                </td>
-              </tr>
-            )}
-          </tbody>
-        </table>
-        {contestants.length > 0 && (
-          <div className="mt-3 flex items-center justify-between text-sm">
-            <span>
-              Page {currentPage} of {totalPages}
-            </span>
-            <div className="flex gap-2">
-              <button
-                className="rounded border px-3 py-1 disabled:opacity-50"
-                onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                disabled={currentPage === 1}
-              >
-                Previous
-              </button>
-              <button
-                className="rounded border px-3 py-1 disabled:opacity-50"
-                onClick={() =>
-                  setCurrentPage((p) => Math.min(totalPages, p + 1))
-                }
-                disabled={currentPage === totalPages}
-              >
-                Next
-              </button>
-            </div>
-          </div>
-        )}
-      </div>
+      {sessionId && (
+        <ContestantList
+          sessionId={sessionId}
+          prizes={prizes}
+          refreshKey={contestantsVersion}
+          onChange={fetchContestants}
+        />
+      )}
 
       <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
         <h2 className="text-lg font-semibold">Export</h2>
@@ -574,6 +1241,38 @@ export default function SessionPage() {
           value={prizeQuantity}
           onChange={(e) => setPrizeQuantity(e.target.value)}
         />
+        <label className="text-sm font-medium" htmlFor="prize-categories">
+          Restrict to categories (optional)
+        </label>
+        <input
+          id="prize-categories"
+          type="text"
+          placeholder="e.g. staff, jakarta"
+          className="rounded border px-3 py-2"
+          value={prizeCategories}
+          onChange={(e) => setPrizeCategories(e.target.value)}
+        />
+        <label className="text-sm font-medium" htmlFor="prize-description">
+          Description (optional)
+        </label>
+        <textarea
+          id="prize-description"
+          rows={2}
+          placeholder="Shown on the presenter screen while the prize rolls"
+          className="rounded border px-3 py-2"
+          value={prizeDescription}
+          onChange={(e) => setPrizeDescription(e.target.value)}
+        />
+        <label className="text-sm font-medium" htmlFor="prize-sponsor">
+          Sponsor (optional)
+        </label>
+        <input
+          id="prize-sponsor"
+          type="text"
+          className="rounded border px-3 py-2"
+          value={prizeSponsor}
+          onChange={(e) => setPrizeSponsor(e.target.value)}
+        />
         <p className="text-sm text-gray-700">
           Eligible contestants: {eligibleContestants ?? "Loading..."}
         </p>
@@ -597,8 +1296,51 @@ export default function SessionPage() {
         )}
       </div>
 
+      {sessionId && (
+        <PrizeImport
+          sessionId={sessionId}
+          onImported={async () => {
+            await fetchPrizes();
+            await fetchDrawStatus();
+          }}
+        />
+      )}
+
+      {sessionId && (
+        <PrizeList
+          sessionId={sessionId}
+          prizes={prizes}
+          onChange={async () => {
+            await fetchPrizes();
+            await fetchDrawStatus();
+          }}
+        />
+      )}
+
+      {sessionId && (
+        <RunSheet
+          sessionId={sessionId}
+          prizes={prizes}
+          refreshKey={`${prizes.length}:${drawsKey}`}
+          onDrawn={async () => {
+            await fetchContestants();
+            await fetchPrizes();
+            await fetchDrawStatus();
+            await fetchPresenter();
+          }}
+        />
+      )}
+
       <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
-        <h2 className="text-lg font-semibold">Draw Winners</h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Draw Winners</h2>
+          <Link
+            className="text-sm text-blue-700 underline"
+            href={`/sessions/${sessionId}/claims`}
+          >
+            Open claim desk
+          </Link>
+        </div>
         <label className="text-sm font-medium" htmlFor="draw-prize">
           Prize
         </label>
@@ -613,6 +1355,9 @@ export default function SessionPage() {
             <option key={p.id} value={p.id}>
               {p.name} (qty {p.quantity}
               {p.remaining !== undefined ? `, remaining ${p.remaining}` : ""})
+              {p.eligibleCategories?.length
+                ? ` — ${p.eligibleCategories.join(", ")} only`
+                : ""}
             </option>
           ))}
         </select>
@@ -631,13 +1376,54 @@ export default function SessionPage() {
           onChange={(e) => setDrawQuantity(e.target.value)}
         />
         <p className="text-sm text-gray-700">
-          Eligible contestants: {eligibleContestants ?? "Loading..."}
+          Eligible contestants: {eligibleForPrize ?? "Loading..."}
         </p>
         {selectedPrize?.remaining !== undefined && (
           <p className="text-sm text-gray-700">
             Remaining for prize: {selectedPrize.remaining}
           </p>
         )}
+        <label className="text-sm font-medium" htmlFor="draw-entropy">
+          Public entropy (optional)
+        </label>
+        <input
+          id="draw-entropy"
+          type="text"
+          placeholder="e.g. a number called out by the audience"
+          className="rounded border px-3 py-2"
+          value={publicEntropy}
+          onChange={(e) => setPublicEntropy(e.target.value)}
+        />
+        <label className="text-sm font-medium" htmlFor="draw-reveal-mode">
+          Reveal
+        </label>
+        <div className="flex gap-2">
+          <select
+            id="draw-reveal-mode"
+            className="rounded border px-3 py-2"
+            value={revealMode}
+            onChange={(e) => setRevealMode(e.target.value as RevealMode)}
+          >
+            <option value="ALL">All at once</option>
+            <option value="SEQUENTIAL">One batch at a time</option>
+          </select>
+          {revealMode === "SEQUENTIAL" && (
+            <input
+              type="number"
+              min={1}
+              max={100}
+              aria-label="Winners per batch"
+              className="w-24 rounded border px-3 py-2"
+              value={revealBatchSize}
+              onChange={(e) => setRevealBatchSize(e.target.value)}
+            />
+          )}
+        </div>
+        {drawCommitment && (
+          <p className="break-all font-mono text-xs text-gray-600">
+            Seed commitment: {drawCommitment.seedHash}
+          </p>
+        )}
         <button
           className="rounded bg-green-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-green-300"
           onClick={handleDrawSubmit}
@@ -651,41 +1437,321 @@ export default function SessionPage() {
         >
           {drawSubmitting ? "Drawing..." : "Draw"}
         </button>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label htmlFor="draw-schedule-at">Or run at</label>
+          <input
+            id="draw-schedule-at"
+            type="datetime-local"
+            className="rounded border px-2 py-1"
+            value={scheduleAt}
+            onChange={(e) => setScheduleAt(e.target.value)}
+          />
+          <button
+            className="rounded border px-3 py-1 disabled:opacity-50"
+            onClick={handleScheduleDraw}
+            disabled={
+              scheduling || !drawPrizeId || drawQuantityInvalid || !scheduleAt
+            }
+          >
+            {scheduling ? "Scheduling..." : "Schedule"}
+          </button>
+        </div>
         {drawError && <p className="text-sm text-red-600">{drawError}</p>}
         {drawQuantityInvalid && drawQuantity !== "" && (
           <p className="text-sm text-orange-700">
             Enter an integer not exceeding eligible or remaining.
           </p>
         )}
-        {drawList.length > 0 && (
+        <div className="flex flex-col gap-2 rounded border border-gray-200 p-3">
+          <h3 className="font-semibold">Presenter Screens</h3>
+          <p className="text-sm text-gray-700">
+            Showing:{" "}
+            {presenterDraw ? (
+              <span className="font-medium">
+                {presenterDraw.prize?.name ?? "Prize"}
+              </span>
+            ) : (
+              "nothing"
+            )}{" "}
+            · {presenter?.phase ?? "IDLE"}
+            {presenter?.reveal?.mode === "SEQUENTIAL" &&
+              ` · revealed ${Math.min(
+                presenter.reveal.position,
+                presenter.reveal.total
+              )} / ${presenter.reveal.total}`}
+          </p>
+          <div className="flex gap-2 text-sm">
+            <button
+              className="rounded border px-3 py-1 disabled:opacity-50"
+              onClick={() => sendPresenter("ROLLING")}
+              disabled={presenterBusy || !presenter?.drawId}
+            >
+              Roll
+            </button>
+            <button
+              className="rounded border px-3 py-1 disabled:opacity-50"
+              onClick={() => sendPresenter("REVEALED")}
+              disabled={presenterBusy || !presenter?.drawId}
+            >
+              Reveal
+            </button>
+            <button
+              className="rounded border px-3 py-1 disabled:opacity-50"
+              onClick={() => sendPresenter("IDLE", null)}
+              disabled={presenterBusy}
+            >
+              Idle
+            </button>
+            {presenter?.reveal?.mode === "SEQUENTIAL" && (
+              <>
+                <button
+                  className="rounded border px-3 py-1 disabled:opacity-50"
+                  onClick={() => stepReveal(-1)}
+                  disabled={presenterBusy || presenter.reveal.position <= 0}
+                >
+                  Back
+                </button>
+                <button
+                  className="rounded border px-3 py-1 disabled:opacity-50"
+                  onClick={() => stepReveal(1)}
+                  disabled={
+                    presenterBusy ||
+                    presenter.reveal.position >= presenter.reveal.total
+                  }
+                >
+                  Next
+                </button>
+              </>
+            )}
+            <a
+              href={`/sessions/${sessionId}/stage`}
+              target="_blank"
+              rel="noreferrer"
+              className="px-1 py-1 text-blue-700 underline"
+            >
+              Open stage
+            </a>
+            {presenter?.drawId && (
+              <a
+                href={`/sessions/${sessionId}/draws/${presenter.drawId}/present`}
+                target="_blank"
+                rel="noreferrer"
+                className="px-1 py-1 text-blue-700 underline"
+              >
+                Open screen
+              </a>
+            )}
+          </div>
+          {presenterError && (
+            <p className="text-sm text-red-600">{presenterError}</p>
+          )}
+        </div>
+        {(drawList.length > 0 || scheduledDraws.length > 0) && (
           <div className="rounded border border-gray-200 p-3">
             <h3 className="font-semibold">Presentation Links</h3>
+            {drawStatusError && (
+              <p className="mt-2 text-sm text-red-600">{drawStatusError}</p>
+            )}
+            {upcomingScheduled.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {upcomingScheduled.map((scheduled) => (
+                  <li
+                    key={scheduled.id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <div>
+                      <p
+                        className={
+                          scheduled.status === "PENDING"
+                            ? "font-medium"
+                            : "font-medium text-gray-400"
+                        }
+                      >
+                        {scheduled.prize.name} × {scheduled.quantity}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {new Date(scheduled.runAt).toLocaleString()}
+                        {scheduled.error && ` · ${scheduled.error}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-3">
+                      <span
+                        className={
+                          scheduled.status === "FAILED"
+                            ? "text-red-600"
+                            : "text-gray-500"
+                        }
+                      >
+                        {SCHEDULE_STATUS_LABELS[scheduled.status]}
+                      </span>
+                      {scheduled.status === "PENDING" && (
+                        <button
+                          className="text-red-600 underline"
+                          onClick={() => handleCancelScheduled(scheduled)}
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
             <ul className="mt-2 space-y-1 text-sm">
               {drawList.map((draw) => (
-                <li
-                  key={draw.id}
-                  className="flex items-center justify-between gap-2"
-                >
-                  <div>
-                    <p className="font-medium">{draw.prize?.name ?? "Prize"}</p>
-                    <p className="text-xs text-gray-600">
-                      {new Date(draw.createdAt).toLocaleString()}
-                    </p>
+                <li key={draw.id} className="flex flex-col gap-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p
+                        className={
+                          draw.voidedAt
+                            ? "font-medium text-gray-400 line-through"
+                            : "font-medium"
+                        }
+                      >
+                        {draw.prize?.name ?? "Prize"}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {new Date(draw.createdAt).toLocaleString()}
+                        {scheduledDrawIds.has(draw.id) && " · Scheduled"}
+                      </p>
+                    </div>
+                    <div className="flex gap-3">
+                      {draw.voidedAt ? (
+                        <span className="text-gray-500">Voided</span>
+                      ) : (
+                        <>
+                          <button
+                            className="text-red-600 underline disabled:opacity-50"
+                            onClick={() => handleVoidDraw(draw)}
+                            disabled={voiding !== null}
+                          >
+                            {voiding === draw.id ? "Voiding..." : "Void"}
+                          </button>
+                          <button
+                            className="text-blue-700 underline disabled:opacity-50"
+                            onClick={() => sendPresenter("ROLLING", draw.id)}
+                            disabled={presenterBusy}
+                          >
+                            Show
+                          </button>
+                          <button
+                            className="text-blue-700 underline"
+                            onClick={() => toggleDrawDetail(draw.id)}
+                          >
+                            {drawDetail?.drawId === draw.id
+                              ? "Hide"
+                              : "Winners"}
+                          </button>
+                        </>
+                      )}
+                      <a
+                        href={`/api/sessions/${sessionId}/draws/${draw.id}/verify`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-700 underline"
+                      >
+                        Verify
+                      </a>
+                      <a
+                        href={`/sessions/${sessionId}/draws/${draw.id}/present`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-700 underline"
+                      >
+                        Open
+                      </a>
+                    </div>
                   </div>
-                  <a
-                    href={`/sessions/${sessionId}/draws/${draw.id}/present`}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-blue-700 underline"
-                  >
-                    Open
-                  </a>
+                  {drawDetail?.drawId === draw.id && (
+                    <div className="flex flex-col gap-2 rounded bg-gray-50 p-2">
+                      {drawDetailError && (
+                        <p className="text-red-600">{drawDetailError}</p>
+                      )}
+                      <ul className="space-y-1">
+                        {drawDetail.winners.map((winner) => (
+                          <li
+                            key={winner.contestantId}
+                            className="flex items-center justify-between gap-2"
+                          >
+                            <span>
+                              {contestantLabel(winner)}
+                              {winner.claimStatus !== "UNCLAIMED" && (
+                                <span className="ml-2 text-xs text-gray-500">
+                                  {winner.claimStatus === "CLAIMED"
+                                    ? "Claimed"
+                                    : "Expired"}
+                                </span>
+                              )}
+                            </span>
+                            <button
+                              className="rounded border border-red-500 px-2 py-0.5 text-xs text-red-600 hover:bg-red-50 disabled:opacity-50"
+                              onClick={() =>
+                                handleForfeit(
+                                  draw.id,
+                                  winner.contestantId,
+                                  contestantLabel(winner)
+                                )
+                              }
+                              disabled={forfeiting !== null}
+                            >
+                              {forfeiting === winner.contestantId
+                                ? "Redrawing..."
+                                : "Forfeit & redraw"}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                      {drawDetail.forfeits.length > 0 && (
+                        <ul className="space-y-1 border-t pt-2 text-xs text-gray-600">
+                          {drawDetail.forfeits.map((forfeit) => (
+                            <li
+                              key={forfeit.id}
+                              className="flex items-center justify-between gap-2"
+                            >
+                              <span>
+                                <span className="line-through">
+                                  {contestantLabel(forfeit)}
+                                </span>{" "}
+                                — {forfeit.reason} (by {forfeit.forfeitedBy})
+                                {forfeit.replacement
+                                  ? ` → ${contestantLabel(forfeit.replacement)}`
+                                  : " → not replaced"}
+                              </span>
+                              {forfeit.reinstatedAt ? (
+                                <span>Reinstated</span>
+                              ) : (
+                                <button
+                                  className="rounded border px-2 py-0.5 disabled:opacity-50"
+                                  onClick={() =>
+                                    handleReinstate(draw.id, forfeit.id)
+                                  }
+                                  disabled={forfeiting !== null}
+                                >
+                                  Reinstate
+                                </button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </li>
               ))}
             </ul>
           </div>
         )}
       </div>
+
+      {sessionId && <ThemeEditor sessionId={sessionId} />}
+      {sessionId && <SessionMembers sessionId={sessionId} />}
+      {sessionId && (
+        <AuditTimeline
+          sessionId={sessionId}
+          refreshKey={`${prizes.length}:${contestantsVersion}:${drawsKey}`}
+        />
+      )}
     </div>
   );
 }
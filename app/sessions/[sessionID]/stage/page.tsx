@@ -0,0 +1,223 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import DrawPresentation from "@/components/DrawPresentation";
+import PresenterBackdrop, {
+  PresenterLogo,
+  themePanelStyle,
+  themeTitleStyle,
+} from "@/components/PresenterBackdrop";
+import { contestantLabel } from "@/lib/contestant-label";
+import type { PresenterPhase, PresenterSnapshot } from "@/lib/presenter";
+import type { RunSheet } from "@/lib/run-sheet";
+import { usePresenterEvents } from "@/lib/use-presenter-events";
+import { usePresenterTheme } from "@/lib/use-presenter-theme";
+
+type BoardDraw = {
+  drawId: string;
+  prize: { id: string; name: string };
+  winners: { contestantId: string; name: string; externalId: string | null }[];
+};
+
+// How long revealed winners stay up before the stage returns to the board.
+const BOARD_FALLBACK_MS = 45000;
+
+export default function StagePage() {
+  const params = useParams<{ sessionID: string }>();
+  const sessionId = params?.sessionID;
+
+  const [presenter, setPresenter] = useState<PresenterSnapshot | null>(null);
+  const [localPhase, setLocalPhase] = useState<PresenterPhase>("IDLE");
+  const [showBoard, setShowBoard] = useState(false);
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [board, setBoard] = useState<BoardDraw[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const theme = usePresenterTheme(sessionId);
+
+  // Whatever the screen shows next replaces an old error, such as a failed
+  // N press, so it does not stay in front of the audience.
+  usePresenterEvents(sessionId, (state) => {
+    setPresenter(state);
+    setShowBoard(false);
+    setError(null);
+  });
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const fetchSession = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}`);
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load session");
+        setSessionName(data.name ?? null);
+      } catch (err) {
+        setError((err as Error).message);
+      }
+    };
+    fetchSession();
+  }, [sessionId]);
+
+  const fetchBoard = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/winners`, {
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load winners");
+      setBoard((data.draws as BoardDraw[]) ?? []);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sessionId]);
+
+  // Refresh the board whenever the operator changes what is on screen.
+  useEffect(() => {
+    fetchBoard();
+  }, [fetchBoard, presenter?.version]);
+
+  // N runs the next step of the run-sheet. The draw goes through the same
+  // endpoint as the console button, so only operators can trigger it and
+  // the screen switches to it like any other draw.
+  const advancing = useRef(false);
+  useEffect(() => {
+    if (!sessionId) return;
+    const handleKey = async (event: KeyboardEvent) => {
+      if (event.key !== "n" && event.key !== "N") return;
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      if (advancing.current) return;
+      advancing.current = true;
+      try {
+        const sheetRes = await fetch(`/api/sessions/${sessionId}/run-sheet`, {
+          cache: "no-store",
+        });
+        const sheet = (await sheetRes.json().catch(() => ({}))) as RunSheet;
+        if (!sheetRes.ok || !sheet.next) return;
+        const res = await fetch(`/api/sessions/${sessionId}/run-sheet/next`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            stepId: sheet.next.stepId,
+            batch: sheet.next.batch,
+          }),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data?.error || "Failed to run the next draw");
+        }
+        setError(null);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        advancing.current = false;
+      }
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (localPhase !== "REVEALED") return;
+    const timer = setTimeout(() => setShowBoard(true), BOARD_FALLBACK_MS);
+    return () => clearTimeout(timer);
+  }, [localPhase, presenter?.version]);
+
+  // Keyed on the command itself, so reveal steps do not replay the roll.
+  const phase = presenter?.phase;
+  const version = presenter?.version;
+  const command = useMemo(
+    () =>
+      phase !== undefined && version !== undefined ? { phase, version } : null,
+    [phase, version]
+  );
+
+  const activeDrawId =
+    presenter && presenter.phase !== "IDLE" ? presenter.drawId : null;
+
+  if (sessionId && activeDrawId && !showBoard) {
+    return (
+      <DrawPresentation
+        key={activeDrawId}
+        sessionId={sessionId}
+        drawId={activeDrawId}
+        command={command}
+        revealPosition={presenter?.reveal?.position ?? null}
+        theme={theme}
+        onPhaseChange={setLocalPhase}
+      />
+    );
+  }
+
+  const boardDraws = board.filter((draw) => draw.winners.length > 0);
+
+  return (
+    <PresenterBackdrop theme={theme}>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-10 px-6 py-12">
+        <header className="text-center">
+          <PresenterLogo theme={theme} />
+          <h1
+            className="font-extrabold leading-tight text-transparent bg-clip-text drop-shadow-[0_12px_32px_rgba(0,0,0,0.45)]"
+            style={{
+              ...themeTitleStyle(theme),
+              fontSize: "clamp(48px, 5vw, 96px)",
+            }}
+          >
+            {theme.title ?? sessionName ?? "Doorprize"}
+          </h1>
+          {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+        </header>
+
+        {boardDraws.length === 0 ? (
+          <motion.p
+            className="text-center text-3xl font-semibold opacity-90"
+            animate={{ opacity: [0.4, 1, 0.4] }}
+            transition={{ duration: 3, repeat: Infinity }}
+          >
+            Get ready — the draw is about to begin
+          </motion.p>
+        ) : (
+          <div className="flex flex-col gap-6">
+            <h2
+              className="text-center text-3xl font-bold"
+              style={{ color: theme.accentColor }}
+            >
+              Winners so far
+            </h2>
+            <div
+              className="grid gap-4"
+              style={{
+                gridTemplateColumns: "repeat(auto-fit, minmax(320px, 1fr))",
+              }}
+            >
+              {boardDraws.map((draw) => (
+                <div
+                  key={draw.drawId}
+                  className="rounded-2xl border p-6 shadow-lg backdrop-blur"
+                  style={themePanelStyle(theme)}
+                >
+                  <h3
+                    className="mb-3 text-xl font-bold"
+                    style={{ color: theme.accentColor }}
+                  >
+                    {draw.prize.name}
+                  </h3>
+                  <ul className="space-y-1 text-lg">
+                    {draw.winners.map((winner) => (
+                      <li key={winner.contestantId}>
+                        {contestantLabel(winner)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </PresenterBackdrop>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import TicketQr from "@/components/TicketQr";
+import { contestantLabel } from "@/lib/contestant-label";
+import { formatTicketCode } from "@/lib/tickets";
+
+type Ticket = {
+  id: string;
+  name: string;
+  externalId: string | null;
+  department: string | null;
+  ticketCode: string | null;
+};
+
+// A sheet of QR tickets to print and hand out, or save as PDF from the
+// browser's print dialog.
+export default function TicketSheetPage() {
+  const params = useParams<{ sessionID: string }>();
+  const sessionId = params?.sessionID ?? "";
+
+  const [sessionName, setSessionName] = useState<string | null>(null);
+  const [tickets, setTickets] = useState<Ticket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const fetchTickets = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}/tickets`, {
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load tickets");
+        setSessionName(data.sessionName ?? null);
+        setTickets((data.tickets as Ticket[]) ?? []);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTickets();
+  }, [sessionId]);
+
+  return (
+    <div className="mx-auto flex max-w-5xl flex-col gap-4 p-6 print:max-w-none print:p-0">
+      <div className="flex flex-col gap-1 print:hidden">
+        <Link
+          className="underline hover:text-blue-300"
+          href={`/sessions/${sessionId}`}
+        >
+          Back to session
+        </Link>
+        <h1 className="text-2xl font-semibold">
+          QR tickets{sessionName ? ` · ${sessionName}` : ""}
+        </h1>
+        <p className="text-sm text-gray-600">
+          {loading ? "Loading tickets..." : `${tickets.length} tickets`}
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          className="self-start rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+          onClick={() => window.print()}
+          disabled={loading || tickets.length === 0}
+        >
+          Print or save as PDF
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 print:grid-cols-3 print:gap-0">
+        {tickets.map((ticket) =>
+          ticket.ticketCode ? (
+            <div
+              key={ticket.id}
+              className="flex break-inside-avoid flex-col items-center gap-1 rounded border border-dashed border-gray-400 p-3 text-center"
+            >
+              {sessionName && (
+                <span className="text-xs uppercase tracking-wide text-gray-500">
+                  {sessionName}
+                </span>
+              )}
+              <TicketQr code={ticket.ticketCode} />
+              <span className="font-semibold">{contestantLabel(ticket)}</span>
+              {ticket.department && (
+                <span className="text-xs text-gray-600">
+                  {ticket.department}
+                </span>
+              )}
+              <span className="font-mono text-sm tracking-wider">
+                {formatTicketCode(ticket.ticketCode)}
+              </span>
+            </div>
+          ) : null
+        )}
+      </div>
+    </div>
+  );
+}
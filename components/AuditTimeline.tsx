@@ -0,0 +1,230 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type AuditEvent = {
+  id: string;
+  action: string;
+  actorName: string;
+  summary: Record<string, unknown>;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+};
+
+type AuditTimelineProps = {
+  sessionId: string;
+  // Any change to this value reloads the newest events.
+  refreshKey?: string;
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  "prize.create": "Added prize",
+  "prize.update": "Edited prize",
+  "prize.delete": "Deleted prize",
+  "prize.reorder": "Reordered prizes",
+  "prizes.import": "Imported prizes",
+  "runsheet.add": "Planned draw",
+  "runsheet.remove": "Removed planned draw",
+  "runsheet.reorder": "Reordered run-sheet",
+  "draw.commit": "Published seed commitment",
+  "draw.create": "Ran draw",
+  "draw.void": "Voided draw",
+  "draw.schedule": "Scheduled draw",
+  "draw.unschedule": "Cancelled scheduled draw",
+  "draw.scheduleFail": "Scheduled draw failed",
+  "winner.forfeit": "Forfeited winner",
+  "forfeit.reinstate": "Reinstated contestant",
+  "winner.claim": "Handed over prize",
+  "winner.unclaim": "Reopened prize claim",
+  "claims.expire": "Expired unclaimed prizes",
+  "contestants.import": "Imported contestants",
+  "contestants.checkInImport": "Bulk check-in",
+  "contestant.checkIn": "Checked in contestant",
+  "contestant.checkOut": "Undid check-in",
+  "session.settings": "Changed session settings",
+  "session.trash": "Moved session to trash",
+  "session.restore": "Restored session",
+  "session.purge": "Purged session",
+  "member.add": "Added member",
+  "member.role": "Changed member role",
+  "member.remove": "Removed member",
+  "theme.update": "Changed presenter theme",
+  "theme.imageUpload": "Uploaded theme image",
+  "theme.imageRemove": "Removed theme image",
+};
+
+// One short line per action; the full summary stays available in the details.
+function describe(event: AuditEvent): string | null {
+  const s = event.summary;
+  switch (event.action) {
+    case "prize.create":
+      return `${s.name} × ${s.quantity}`;
+    case "prize.update":
+      return s.previousName ? `${s.previousName} → ${s.name}` : String(s.name);
+    case "prize.delete":
+      return String(s.name ?? "");
+    case "prize.reorder":
+      return Array.isArray(s.names) ? s.names.join(", ") : null;
+    case "draw.schedule":
+    case "draw.unschedule":
+      return `${s.prizeName} × ${s.quantity} at ${new Date(
+        String(s.runAt)
+      ).toLocaleString()}`;
+    case "draw.scheduleFail":
+      return `${s.prizeName} × ${s.quantity}: ${s.reason}`;
+    case "runsheet.add":
+      return `${s.prizeName} × ${s.quantity}${
+        s.batchSize ? ` in batches of ${s.batchSize}` : ""
+      }`;
+    case "runsheet.remove":
+      return `${s.prizeName} × ${s.quantity}`;
+    case "prizes.import":
+      return `${s.inserted} prizes (${s.totalQuantity} units) from ${s.fileName}`;
+    case "draw.create":
+      return `${s.prizeName}: ${
+        Array.isArray(s.winners)
+          ? s.winners.map((w: { name: string }) => w.name).join(", ")
+          : ""
+      }`;
+    case "draw.void":
+      return `${s.releasedWinners} winner(s) released — ${s.reason}`;
+    case "winner.forfeit":
+      return s.replacementName
+        ? `${s.contestantName} → ${s.replacementName} (${s.reason})`
+        : `${s.contestantName} (${s.reason})`;
+    case "forfeit.reinstate":
+      return String(s.contestantName ?? "");
+    case "winner.claim":
+      return s.note ? `${s.name} (${s.note})` : String(s.name ?? "");
+    case "winner.unclaim":
+      return String(s.name ?? "");
+    case "claims.expire":
+      return `${s.expired} expired, ${s.redrawn} redrawn, ${s.replaced} replaced`;
+    case "contestant.checkIn":
+    case "contestant.checkOut":
+      return String(s.name ?? "");
+    case "contestants.checkInImport":
+      return `${s.checkedIn} checked in, ${s.unmatched} not found, from ${s.fileName}`;
+    case "session.settings":
+      return s.requireCheckIn !== undefined
+        ? `Check-in ${s.requireCheckIn ? "required" : "not required"} to win`
+        : s.claimWindowMinutes !== undefined
+        ? s.claimWindowMinutes === null
+          ? "No claim deadline"
+          : `Claim window ${s.claimWindowMinutes} min`
+        : null;
+    case "member.add":
+    case "member.remove":
+      return `${s.name} <${s.email}> (${s.role})`;
+    case "member.role":
+      return `${s.name} <${s.email}>: ${s.previousRole} → ${s.role}`;
+    case "theme.update":
+      return Object.keys(s).join(", ");
+    case "theme.imageUpload":
+      return `${s.kind}: ${s.fileName}`;
+    case "theme.imageRemove":
+      return String(s.kind ?? "");
+    case "contestants.import":
+      return s.mode && s.mode !== "append"
+        ? `${s.mode}: ${s.inserted} added, ${s.updated ?? 0} updated, ${s.withdrawn ?? 0} withdrawn, ${s.removed ?? 0} removed from ${s.fileName}`
+        : `${s.inserted} of ${s.totalRows} rows from ${s.fileName}`;
+    default:
+      return null;
+  }
+}
+
+export default function AuditTimeline({
+  sessionId,
+  refreshKey,
+}: AuditTimelineProps) {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(
+    async (cursor?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+        const res = await fetch(`/api/sessions/${sessionId}/audit${query}`, {
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load activity");
+        const page = (data.events as AuditEvent[]) ?? [];
+        setEvents((prev) => (cursor ? [...prev, ...page] : page));
+        setNextCursor(data.nextCursor ?? null);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [sessionId]
+  );
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents, refreshKey]);
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Activity</h2>
+        <button
+          className="rounded border px-2 py-0.5 text-sm disabled:opacity-50"
+          onClick={() => fetchEvents()}
+          disabled={loading}
+        >
+          Refresh
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && events.length === 0 && !error && (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      )}
+      <ol className="flex flex-col border-l border-gray-200 pl-4 text-sm">
+        {events.map((event) => {
+          const detail = describe(event);
+          return (
+            <li key={event.id} className="relative py-2">
+              <span className="absolute -left-[21px] top-3.5 h-2 w-2 rounded-full bg-blue-500" />
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className="font-medium">
+                  {ACTION_LABELS[event.action] ?? event.action}
+                </span>
+                <span className="text-gray-600">by {event.actorName}</span>
+                <span className="text-xs text-gray-500">
+                  {new Date(event.createdAt).toLocaleString()}
+                </span>
+              </div>
+              {detail && <p className="text-gray-700">{detail}</p>}
+              <details className="text-xs text-gray-500">
+                <summary className="cursor-pointer">Details</summary>
+                <p>
+                  {event.ipAddress ?? "unknown IP"} ·{" "}
+                  {event.userAgent ?? "unknown client"}
+                </p>
+                <pre className="overflow-x-auto whitespace-pre-wrap">
+                  {JSON.stringify(event.summary, null, 2)}
+                </pre>
+              </details>
+            </li>
+          );
+        })}
+      </ol>
+      {nextCursor && (
+        <button
+          className="self-start rounded border px-3 py-1 text-sm disabled:opacity-50"
+          onClick={() => fetchEvents(nextCursor)}
+          disabled={loading}
+        >
+          {loading ? "Loading..." : "Load older"}
+        </button>
+      )}
+    </div>
+  );
+}
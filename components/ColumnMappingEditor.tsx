@@ -0,0 +1,91 @@
+"use client";
+
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/import-mapping";
+
+type ColumnMappingEditorProps = {
+  headers: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+};
+
+export default function ColumnMappingEditor({
+  headers,
+  mapping,
+  onChange,
+}: ColumnMappingEditorProps) {
+  const mapped = new Set(
+    IMPORT_FIELDS.map((field) => mapping[field]).filter(Boolean)
+  );
+
+  // A column feeds one field at most; picking it elsewhere moves it.
+  const setField = (field: ImportField, column: string | null) => {
+    const next = { ...mapping, [field]: column };
+    if (column) {
+      for (const other of IMPORT_FIELDS) {
+        if (other !== field && next[other] === column) next[other] = null;
+      }
+      next.categories = next.categories.filter((c) => c !== column);
+    }
+    onChange(next);
+  };
+
+  const toggleCategory = (column: string, checked: boolean) => {
+    onChange({
+      ...mapping,
+      categories: checked
+        ? [...mapping.categories, column]
+        : mapping.categories.filter((c) => c !== column),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-3 text-sm">
+      <h3 className="font-semibold">Column mapping</h3>
+      <div className="grid grid-cols-2 gap-2">
+        {IMPORT_FIELDS.map((field) => (
+          <label key={field} className="flex flex-col gap-1">
+            {IMPORT_FIELD_LABELS[field]}
+            <select
+              className="rounded border px-2 py-1"
+              value={mapping[field] ?? ""}
+              onChange={(e) => setField(field, e.target.value || null)}
+            >
+              <option value="">
+                {field === "name" ? "First column, no header" : "Not in file"}
+              </option>
+              {headers.map((header) => (
+                <option key={header} value={header}>
+                  {header}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {headers.some((header) => !mapped.has(header)) && (
+        <div className="flex flex-col gap-1">
+          <span>Use as categories</span>
+          <div className="flex flex-wrap gap-3">
+            {headers
+              .filter((header) => !mapped.has(header))
+              .map((header) => (
+                <label key={header} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={mapping.categories.includes(header)}
+                    onChange={(e) => toggleCategory(header, e.target.checked)}
+                  />
+                  {header}
+                </label>
+              ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
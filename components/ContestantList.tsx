@@ -0,0 +1,445 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { contestantLabel } from "@/lib/contestant-label";
+
+type ContestantRow = {
+  id: string;
+  name: string;
+  externalId: string | null;
+  email: string | null;
+  phone: string | null;
+  department: string | null;
+  ticketNumber: string | null;
+  tickets: number;
+  categories: string[];
+  withdrawn: boolean;
+  checkedInAt: string | null;
+  hasPrize: boolean;
+  prizeName: string | null;
+};
+
+type ContestantFilter =
+  "all" | "eligible" | "won" | "not-won" | "checked-in" | "not-checked-in";
+
+type ContestantDraft = {
+  name: string;
+  externalId: string;
+  email: string;
+  phone: string;
+  department: string;
+  ticketNumber: string;
+  tickets: string;
+  categories: string;
+};
+
+const DRAFT_FIELDS: {
+  key: keyof ContestantDraft;
+  label: string;
+  type?: string;
+}[] = [
+  { key: "name", label: "Name" },
+  { key: "externalId", label: "Employee / external ID" },
+  { key: "email", label: "Email", type: "email" },
+  { key: "phone", label: "Phone", type: "tel" },
+  { key: "department", label: "Department" },
+  { key: "ticketNumber", label: "Ticket number" },
+  { key: "tickets", label: "Tickets", type: "number" },
+  { key: "categories", label: "Categories, e.g. staff, jakarta" },
+];
+
+type ContestantListProps = {
+  sessionId: string;
+  prizes: { id: string; name: string }[];
+  // Bumped by the page whenever contestants may have changed elsewhere.
+  refreshKey: number;
+  onChange: () => void;
+};
+
+const PAGE_SIZE = 25;
+
+const EMPTY_DRAFT: ContestantDraft = {
+  name: "",
+  externalId: "",
+  email: "",
+  phone: "",
+  department: "",
+  ticketNumber: "",
+  tickets: "1",
+  categories: "",
+};
+
+function toPayload(draft: ContestantDraft) {
+  return {
+    ...draft,
+    tickets: draft.tickets.trim() === "" ? 1 : Number(draft.tickets),
+  };
+}
+
+function ContestantFields({
+  draft,
+  onChange,
+}: {
+  draft: ContestantDraft;
+  onChange: (draft: ContestantDraft) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2 text-sm">
+      {DRAFT_FIELDS.map(({ key, label, type }) => (
+        <input
+          key={key}
+          type={type ?? "text"}
+          min={type === "number" ? 1 : undefined}
+          placeholder={label}
+          aria-label={label}
+          className="rounded border px-3 py-2"
+          value={draft[key]}
+          onChange={(e) => onChange({ ...draft, [key]: e.target.value })}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function ContestantList({
+  sessionId,
+  prizes,
+  refreshKey,
+  onChange,
+}: ContestantListProps) {
+  const [contestants, setContestants] = useState<ContestantRow[]>([]);
+  const [matched, setMatched] = useState<number | null>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<ContestantFilter>("all");
+  const [prizeId, setPrizeId] = useState("");
+  // Cursor for every page visited so far; the last one is the current page.
+  const [pageCursors, setPageCursors] = useState<(string | null)[]>([null]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newContestant, setNewContestant] =
+    useState<ContestantDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<ContestantDraft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+
+  const cursor = pageCursors[pageCursors.length - 1];
+
+  // Typing waits for a short pause before hitting the server.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPageCursors([null]);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const fetchContestants = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (search) query.set("search", search);
+      if (filter === "eligible") query.set("eligible", "true");
+      if (filter === "won") query.set("won", "true");
+      if (filter === "not-won") query.set("won", "false");
+      if (filter === "checked-in") query.set("checkedIn", "true");
+      if (filter === "not-checked-in") query.set("checkedIn", "false");
+      if (prizeId) query.set("prizeId", prizeId);
+      if (cursor) query.set("cursor", cursor);
+
+      const res = await fetch(
+        `/api/sessions/${sessionId}/contestants?${query.toString()}`,
+        { cache: "no-store" }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load contestants");
+      setContestants((data.contestants as ContestantRow[]) ?? []);
+      setMatched(data.matched ?? null);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, search, filter, prizeId, cursor]);
+
+  useEffect(() => {
+    fetchContestants();
+  }, [fetchContestants, refreshKey]);
+
+  const mutate = async (
+    url: string,
+    init: RequestInit,
+    fallbackError: string
+  ) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || fallbackError);
+      onChange();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const ok = await mutate(
+      `/api/sessions/${sessionId}/contestants`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(newContestant)),
+      },
+      "Failed to add contestant"
+    );
+    if (ok) setNewContestant(EMPTY_DRAFT);
+  };
+
+  const startEdit = (contestant: ContestantRow) => {
+    setEditingId(contestant.id);
+    setEditDraft({
+      name: contestant.name,
+      externalId: contestant.externalId ?? "",
+      email: contestant.email ?? "",
+      phone: contestant.phone ?? "",
+      department: contestant.department ?? "",
+      ticketNumber: contestant.ticketNumber ?? "",
+      tickets: String(contestant.tickets),
+      categories: contestant.categories.join(", "),
+    });
+  };
+
+  const handleSave = async (id: string) => {
+    const ok = await mutate(
+      `/api/sessions/${sessionId}/contestants/${id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toPayload(editDraft)),
+      },
+      "Failed to update contestant"
+    );
+    if (ok) setEditingId(null);
+  };
+
+  const handleWithdrawn = async (contestant: ContestantRow) => {
+    await mutate(
+      `/api/sessions/${sessionId}/contestants/${contestant.id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ withdrawn: !contestant.withdrawn }),
+      },
+      "Failed to update contestant"
+    );
+  };
+
+  const handleRemove = async (contestant: ContestantRow) => {
+    if (!window.confirm(`Remove ${contestantLabel(contestant)}?`)) return;
+    await mutate(
+      `/api/sessions/${sessionId}/contestants/${contestant.id}`,
+      { method: "DELETE" },
+      "Failed to remove contestant"
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 overflow-x-auto rounded border border-gray-200 p-4 shadow-sm">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          placeholder="Search by name, ID or email"
+          className="flex-1 rounded border px-3 py-2 text-sm"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+        <select
+          className="rounded border px-2 py-2 text-sm"
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value as ContestantFilter);
+            setPageCursors([null]);
+          }}
+        >
+          <option value="all">Everyone</option>
+          <option value="eligible">Eligible</option>
+          <option value="won">Winners</option>
+          <option value="not-won">Not won yet</option>
+          <option value="checked-in">Checked in</option>
+          <option value="not-checked-in">Not checked in</option>
+        </select>
+        <select
+          className="rounded border px-2 py-2 text-sm"
+          value={prizeId}
+          onChange={(e) => {
+            setPrizeId(e.target.value);
+            setPageCursors([null]);
+          }}
+        >
+          <option value="">Any prize</option>
+          {prizes.map((prize) => (
+            <option key={prize.id} value={prize.id}>
+              {prize.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <table className="min-w-full text-left text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="py-2 pr-4">Name</th>
+            <th className="py-2 pr-4">Tickets</th>
+            <th className="py-2 pr-4">Categories</th>
+            <th className="py-2 pr-4">Prize</th>
+            <th className="py-2 pr-4" />
+          </tr>
+        </thead>
+        <tbody>
+          {contestants.map((contestant) =>
+            editingId === contestant.id ? (
+              <tr key={contestant.id} className="border-b last:border-0">
+                <td className="flex flex-col gap-2 py-2" colSpan={5}>
+                  <ContestantFields draft={editDraft} onChange={setEditDraft} />
+                  <div className="flex gap-1">
+                    <button
+                      className="rounded border px-2 py-0.5 disabled:opacity-50"
+                      onClick={() => handleSave(contestant.id)}
+                      disabled={busy}
+                    >
+                      Save
+                    </button>
+                    <button
+                      className="rounded border px-2 py-0.5"
+                      onClick={() => setEditingId(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ) : (
+              <tr key={contestant.id} className="border-b last:border-0">
+                <td className="py-2 pr-4">
+                  {contestantLabel(contestant)}
+                  {contestant.checkedInAt && (
+                    <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-800">
+                      Checked in
+                    </span>
+                  )}
+                  {contestant.withdrawn && (
+                    <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs text-amber-800">
+                      Withdrawn
+                    </span>
+                  )}
+                  {(contestant.department || contestant.ticketNumber) && (
+                    <span className="block text-xs text-gray-500">
+                      {[
+                        contestant.department,
+                        contestant.ticketNumber &&
+                          `#${contestant.ticketNumber}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-4">{contestant.tickets}</td>
+                <td className="py-2 pr-4">
+                  {contestant.categories.join(", ") || "—"}
+                </td>
+                <td className="py-2 pr-4">{contestant.prizeName ?? "—"}</td>
+                <td className="flex gap-1 py-2">
+                  {!contestant.hasPrize && (
+                    <>
+                      <button
+                        className="rounded border px-2 py-0.5 disabled:opacity-50"
+                        onClick={() => startEdit(contestant)}
+                        disabled={busy}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="rounded border px-2 py-0.5 disabled:opacity-50"
+                        onClick={() => handleWithdrawn(contestant)}
+                        disabled={busy}
+                      >
+                        {contestant.withdrawn ? "Reinstate" : "Withdraw"}
+                      </button>
+                      <button
+                        className="rounded border border-red-500 px-2 py-0.5 text-red-600 disabled:opacity-50"
+                        onClick={() => handleRemove(contestant)}
+                        disabled={busy}
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            )
+          )}
+          {contestants.length === 0 && (
+            <tr>
+              <td className="py-2 pr-4" colSpan={5}>
+                {loading
+                  ? "Loading contestants..."
+                  : search || filter !== "all" || prizeId
+                  ? "No contestants match."
+                  : "No contestants yet."}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="flex items-center justify-between text-sm">
+        <span>
+          Page {pageCursors.length}
+          {matched !== null &&
+            ` of ${Math.max(1, Math.ceil(matched / PAGE_SIZE))}`}{" "}
+          · {matched ?? "—"} matching
+        </span>
+        <div className="flex gap-2">
+          <button
+            className="rounded border px-3 py-1 disabled:opacity-50"
+            onClick={() => setPageCursors((prev) => prev.slice(0, -1))}
+            disabled={pageCursors.length === 1 || loading}
+          >
+            Previous
+          </button>
+          <button
+            className="rounded border px-3 py-1 disabled:opacity-50"
+            onClick={() =>
+              nextCursor && setPageCursors((prev) => [...prev, nextCursor])
+            }
+            disabled={!nextCursor || loading}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 border-t pt-3">
+        <h3 className="text-sm font-semibold">Add a walk-in</h3>
+        <ContestantFields draft={newContestant} onChange={setNewContestant} />
+        <button
+          className="self-start rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+          onClick={handleAdd}
+          disabled={busy || !newContestant.name.trim()}
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
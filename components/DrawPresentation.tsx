@@ -0,0 +1,680 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import Confetti from "react-confetti";
+import type { Variants } from "framer-motion";
+import PresenterBackdrop, {
+  PresenterLogo,
+  themePanelStyle,
+  themeTitleStyle,
+} from "@/components/PresenterBackdrop";
+import { contestantLabel } from "@/lib/contestant-label";
+import type { PresenterPhase, RevealProgress } from "@/lib/presenter";
+import { playFanfare, playTick, unlockSound } from "@/lib/presenter-sound";
+import { DEFAULT_THEME, type PresenterTheme } from "@/lib/theme";
+
+type Winner = {
+  contestantId: string;
+  name: string;
+  externalId?: string | null;
+};
+
+type Contestant = {
+  id: string;
+  name: string;
+  externalId?: string | null;
+};
+
+type DrawData = {
+  drawId: string;
+  sessionId: string;
+  createdAt: string;
+  voidedAt: string | null;
+  reveal: RevealProgress;
+  prize: {
+    id: string;
+    name: string;
+    description?: string | null;
+    sponsor?: string | null;
+    imageUrl?: string | null;
+  };
+  winners: Winner[];
+};
+
+type Phase = "ROLLING" | "REVEALED";
+
+const ROLL_POOL_SIZE = 500;
+
+// A roll/reveal instruction from the operator console; the version changes
+// with every command so repeating the same phase still re-triggers it.
+export type PresenterCommand = {
+  phase: PresenterPhase;
+  version: number;
+};
+
+type DrawPresentationProps = {
+  sessionId: string;
+  drawId: string;
+  command?: PresenterCommand | null;
+  // Sequential reveal position pushed by the presenter stream.
+  revealPosition?: number | null;
+  theme?: PresenterTheme;
+  onPhaseChange?: (phase: Phase) => void;
+};
+
+export default function DrawPresentation({
+  sessionId,
+  drawId,
+  command,
+  revealPosition,
+  theme = DEFAULT_THEME,
+  onPhaseChange,
+}: DrawPresentationProps) {
+  const [data, setData] = useState<DrawData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showConfetti, setShowConfetti] = useState<boolean>(false);
+
+  const [eligibleContestants, setEligibleContestants] = useState<Contestant[]>(
+    []
+  );
+
+  const [rollPhase, setPhase] = useState<Phase>("ROLLING");
+  const [revealed, setRevealed] = useState(0);
+  // Sequential replays roll the last uncovered batch again on this screen
+  // only; the saved reveal position stays where it is.
+  const [replayFrom, setReplayFrom] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [timeLeftMs, setTimeLeftMs] = useState(0);
+  const [windowSize, setWindowSize] = useState({ width: 0, height: 0 });
+
+  // Mirror roll/reveal commands pushed from the operator console. The ref
+  // keeps a reveal from being undone when the draw data loads afterwards.
+  const revealCommanded = useRef(false);
+  const lastRevealed = useRef(0);
+
+  // Latest reveal actions, for timers and key bindings that outlive a render.
+  const controls = useRef({
+    stopAndReveal: () => {},
+    restartRolling: () => {},
+    revealNext: () => {},
+    revealBack: () => {},
+  });
+  useEffect(() => {
+    if (!command) return;
+    revealCommanded.current = command.phase === "REVEALED";
+    if (command.phase === "REVEALED") {
+      setPhase("REVEALED");
+    } else if (command.phase === "ROLLING") {
+      setActiveIndex(0);
+      setPhase("ROLLING");
+    }
+  }, [command]);
+
+  useEffect(() => {
+    if (revealPosition === null || revealPosition === undefined) return;
+    setReplayFrom(null);
+    setRevealed(revealPosition);
+  }, [revealPosition]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!sessionId || !drawId) return;
+      setLoading(true);
+      setError(null);
+
+      try {
+        const drawRes = await fetch(
+          `/api/sessions/${sessionId}/draws/${drawId}`,
+          { cache: "no-store" }
+        );
+
+        const drawJson = await drawRes.json();
+        if (!drawRes.ok)
+          throw new Error(drawJson?.error || "Failed to load draw");
+
+        // Roll only through people who could actually win this prize. A
+        // random sample keeps big events fast without losing the variety.
+        const eligibleRes = await fetch(
+          `/api/sessions/${sessionId}/contestants?eligible=true&prizeId=${drawJson.prize.id}&sample=${ROLL_POOL_SIZE}`,
+          { cache: "no-store" }
+        );
+
+        const eligibleJson = await eligibleRes.json();
+        if (!eligibleRes.ok)
+          throw new Error(
+            eligibleJson?.error || "Failed to load eligible contestants"
+          );
+
+        const parsed = drawJson as DrawData;
+        const total = parsed.winners?.length ?? 0;
+        const position = Math.min(parsed.reveal.position, total);
+        // An all-at-once draw that was already revealed stays revealed.
+        if (parsed.reveal.mode === "ALL" && total > 0 && position >= total) {
+          revealCommanded.current = true;
+          setPhase("REVEALED");
+        }
+        lastRevealed.current = position;
+        setReplayFrom(null);
+        setRevealed(position);
+        setData(parsed);
+        setEligibleContestants(
+          (eligibleJson.contestants as Contestant[] | undefined) ?? []
+        );
+        setActiveIndex(0);
+        setPhase((prev) =>
+          (parsed.winners?.length ?? 0) > 0 && !revealCommanded.current
+            ? "ROLLING"
+            : prev
+        );
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [sessionId, drawId]);
+
+  const winners = data?.winners ?? [];
+  const sequential = data?.reveal.mode === "SEQUENTIAL";
+  const batchSize = data?.reveal.batchSize ?? 1;
+  const revealedCount = Math.min(replayFrom ?? revealed, winners.length);
+
+  // Sequential draws are "revealed" once the last batch is uncovered; until
+  // then the next batch keeps rolling and the operator steps through them.
+  const phase: Phase = sequential
+    ? winners.length > 0 && revealedCount >= winners.length
+      ? "REVEALED"
+      : "ROLLING"
+    : rollPhase;
+  const visibleWinners = sequential
+    ? winners.slice(0, Math.min(revealedCount + batchSize, winners.length))
+    : winners;
+
+  useEffect(() => {
+    onPhaseChange?.(phase);
+  }, [phase, onPhaseChange]);
+  const rollingPool =
+    eligibleContestants.length > 0
+      ? eligibleContestants.map((c) => ({
+          contestantId: c.id,
+          name: c.name,
+          externalId: c.externalId,
+        }))
+      : winners;
+  const poolLen = rollingPool.length;
+
+  const stride = useMemo(() => {
+    if (poolLen <= 1) return 1;
+    return Math.min(37, Math.max(3, Math.floor(poolLen / 3)));
+  }, [poolLen]);
+
+  const getRollingIndex = useMemo(() => {
+    if (poolLen === 0) return (_cardIndex: number) => 0;
+    return (cardIndex: number) => (activeIndex + cardIndex * stride) % poolLen;
+  }, [activeIndex, poolLen, stride]);
+
+  const lastWinnerCount = useRef(0);
+  useEffect(() => {
+    if (winners.length === lastWinnerCount.current) return;
+    lastWinnerCount.current = winners.length;
+    setActiveIndex(0);
+    if (winners.length > 0 && !revealCommanded.current) setPhase("ROLLING");
+  }, [winners.length]);
+
+  useEffect(() => {
+    const handleResize = () => {
+      const body = document.body;
+      const html = document.documentElement;
+
+      const height = Math.max(
+        body.scrollHeight,
+        body.offsetHeight,
+        html.clientHeight,
+        html.scrollHeight,
+        html.offsetHeight
+      );
+
+      setWindowSize({
+        width: window.innerWidth,
+        height,
+      });
+    };
+
+    handleResize();
+    window.addEventListener("resize", handleResize);
+    window.addEventListener("scroll", handleResize);
+
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      window.removeEventListener("scroll", handleResize);
+    };
+  }, []);
+
+  useEffect(() => {
+    const body = document.body;
+    const prevOverflow = body.style.overflow;
+    const styleTag = document.createElement("style");
+    styleTag.id = "hide-scrollbar-present";
+    styleTag.textContent = `
+      body::-webkit-scrollbar { display: none; }
+      body { -ms-overflow-style: none; scrollbar-width: none; }
+    `;
+    document.head.appendChild(styleTag);
+    body.style.overflow = "auto";
+    return () => {
+      styleTag.remove();
+      body.style.overflow = prevOverflow;
+    };
+  }, []);
+
+  const { soundEnabled } = theme;
+  useEffect(() => {
+    if (phase === "REVEALED" && winners.length > 0) {
+      setShowConfetti(true);
+      if (soundEnabled) playFanfare();
+
+      const timer = setTimeout(() => {
+        setShowConfetti(false);
+      }, 10000); // 10 seconds
+
+      return () => clearTimeout(timer);
+    }
+  }, [phase, winners.length, soundEnabled]);
+
+  // A short burst for each batch uncovered in a sequential reveal.
+  useEffect(() => {
+    if (!sequential) return;
+    const previous = lastRevealed.current;
+    lastRevealed.current = revealedCount;
+    if (revealedCount <= previous || revealedCount >= winners.length) return;
+
+    setShowConfetti(true);
+    if (soundEnabled) playFanfare();
+    const timer = setTimeout(() => setShowConfetti(false), 3000);
+    return () => clearTimeout(timer);
+  }, [sequential, revealedCount, winners.length, soundEnabled]);
+
+  // Rolling ticker: only runs in ROLLING phase
+  const { rollIntervalMs } = theme;
+  useEffect(() => {
+    if (phase !== "ROLLING") return;
+    if (poolLen === 0) return;
+
+    const timer = setInterval(() => {
+      if (soundEnabled) playTick();
+      setActiveIndex((prev) => {
+        if (poolLen <= 1) return 0;
+
+        let next;
+        do {
+          next = Math.floor(Math.random() * poolLen);
+        } while (next === prev);
+
+        return next;
+      });
+    }, rollIntervalMs);
+
+    return () => clearInterval(timer);
+  }, [phase, poolLen, rollIntervalMs, soundEnabled]);
+
+  // A theme delay of 0 turns auto reveal off and leaves it to the operator.
+  const { revealDelayMultiMs, revealDelaySingleMs } = theme;
+  const autoRevealDelay = useMemo(() => {
+    if (winners.length === 0 || sequential) return 0;
+    return winners.length > 1 ? revealDelayMultiMs : revealDelaySingleMs;
+  }, [winners.length, sequential, revealDelayMultiMs, revealDelaySingleMs]);
+
+  // Auto reveal timer for all-at-once draws, using the theme's delays
+  useEffect(() => {
+    if (phase !== "ROLLING") return;
+    if (autoRevealDelay === 0) return;
+
+    const timer = setTimeout(
+      () => controls.current.stopAndReveal(),
+      autoRevealDelay
+    );
+
+    return () => clearTimeout(timer);
+  }, [phase, autoRevealDelay]);
+
+  // Countdown display sync with auto reveal
+  useEffect(() => {
+    if (phase !== "ROLLING" || autoRevealDelay === 0) {
+      setTimeLeftMs(0);
+      return;
+    }
+
+    const start = Date.now();
+    setTimeLeftMs(autoRevealDelay);
+
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - start;
+      const remaining = Math.max(0, autoRevealDelay - elapsed);
+      setTimeLeftMs(remaining);
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [phase, autoRevealDelay]);
+
+  // Winner grid animation (simple, readable)
+  const gridVariants = useMemo(
+    () => ({
+      hidden: { opacity: 0 },
+      show: {
+        opacity: 1,
+        transition: {
+          staggerChildren:
+            winners.length <= 10 ? 0.12 : winners.length <= 25 ? 0.07 : 0.04,
+        },
+      },
+    }),
+    [winners.length]
+  );
+
+  const itemVariants: Variants = {
+    hidden: { opacity: 0, scale: 0.65, rotate: -6, y: 24 },
+    show: (i: number) => ({
+      opacity: 1,
+      scale: [0.65, 1.14, 1],
+      rotate: [-6, 4, 0],
+      y: [24, -10, 0],
+      transition: {
+        opacity: { duration: 0.25, delay: i * 0.08 },
+        scale: {
+          duration: 0.6,
+          ease: [0.16, 1, 0.3, 1],
+          delay: i * 0.08,
+        },
+        rotate: {
+          duration: 0.6,
+          ease: [0.16, 1, 0.3, 1],
+          delay: i * 0.08,
+        },
+        y: { duration: 0.6, delay: i * 0.08 },
+      },
+    }),
+  };
+
+  const saveRevealPosition = async (position: number) => {
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/draws/${drawId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ revealPosition: position }),
+      });
+      // Read-only screens just follow the operator; only screens signed in
+      // as an operator store reveal steps.
+      if (res.status === 401 || res.status === 403) return;
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to save reveal");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const moveReveal = (position: number) => {
+    if (!data || data.voidedAt) return;
+    const next = Math.max(0, Math.min(position, winners.length));
+    if (next === revealedCount) return;
+    setReplayFrom(null);
+    // Stepping forward out of a replay lands back on the saved position.
+    if (next === Math.min(revealed, winners.length)) return;
+    setRevealed(next);
+    saveRevealPosition(next);
+  };
+
+  const stopAndReveal = () => {
+    setPhase("REVEALED");
+    if (revealed < winners.length) {
+      setRevealed(winners.length);
+      saveRevealPosition(winners.length);
+    }
+  };
+  const restartRolling = () => {
+    setActiveIndex(0);
+    if (sequential) {
+      // A batch still rolling just starts its roll over.
+      if (revealedCount >= winners.length) {
+        setReplayFrom(
+          Math.ceil(revealedCount / batchSize) * batchSize - batchSize
+        );
+      }
+      return;
+    }
+    setPhase("ROLLING");
+    setRevealed(0);
+    saveRevealPosition(0);
+  };
+
+  const revealNext = () => {
+    if (!sequential) {
+      if (phase === "ROLLING") stopAndReveal();
+      return;
+    }
+    moveReveal(revealedCount + batchSize);
+  };
+
+  // Steps back to the start of the last uncovered batch.
+  const revealBack = () => {
+    if (!sequential) return;
+    moveReveal(Math.ceil(revealedCount / batchSize) * batchSize - batchSize);
+  };
+
+  useEffect(() => {
+    controls.current = {
+      stopAndReveal,
+      restartRolling,
+      revealNext,
+      revealBack,
+    };
+  });
+
+  // Space = next, Backspace = back, R = roll the current batch again.
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      unlockSound();
+
+      if (event.key === " ") {
+        event.preventDefault();
+        controls.current.revealNext();
+      } else if (event.key === "Backspace") {
+        event.preventDefault();
+        controls.current.revealBack();
+      } else if (event.key === "r" || event.key === "R") {
+        controls.current.restartRolling();
+      }
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
+
+  // const confettiActive = phase === "REVEALED" && winners.length > 0;
+
+  return (
+    <PresenterBackdrop theme={theme}>
+      {theme.confettiEnabled && (
+        <Confetti
+          width={windowSize.width}
+          height={windowSize.height}
+          numberOfPieces={showConfetti ? 450 : 0}
+          recycle={false}
+          run={showConfetti}
+          gravity={0.14}
+          colors={[
+            "#E11D48",
+            "#16A34A",
+            "#FBBF24",
+            "#FACC15",
+            "#FFFFFF",
+            theme.accentColor,
+          ]}
+        />
+      )}
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-10 px-6 py-12">
+        <header className="text-center">
+          <PresenterLogo theme={theme} />
+          {theme.title && (
+            <p className="mb-2 text-2xl font-semibold uppercase tracking-[0.2em] opacity-80">
+              {theme.title}
+            </p>
+          )}
+          {/* <p className="text-sm uppercase tracking-[0.22em] text-emerald-200/80">
+            Session {data?.sessionId ?? sessionId}
+          </p> */}
+          <h1
+            className="font-extrabold leading-tight text-transparent bg-clip-text drop-shadow-[0_12px_32px_rgba(0,0,0,0.45)]"
+            style={{
+              ...themeTitleStyle(theme),
+              fontSize: "clamp(48px, 5vw, 96px)",
+            }}
+          >
+            {loading ? "Loading…" : `Pemenang ${data?.prize?.name}`}
+          </h1>
+          {data?.prize.imageUrl && (
+            <div
+              role="img"
+              aria-label={data.prize.name}
+              className="mx-auto mt-4 h-48 w-full max-w-md"
+              style={{
+                backgroundImage: `url("${data.prize.imageUrl}")`,
+                backgroundPosition: "center",
+                backgroundRepeat: "no-repeat",
+                backgroundSize: "contain",
+              }}
+            />
+          )}
+          {data?.prize.description && (
+            <p className="mx-auto mt-3 max-w-3xl text-xl opacity-90">
+              {data.prize.description}
+            </p>
+          )}
+          {data?.prize.sponsor && (
+            <p className="mt-2 text-lg uppercase tracking-[0.2em] opacity-70">
+              Sponsored by {data.prize.sponsor}
+            </p>
+          )}
+          {/* <p className="text-lg text-emerald-50/80">
+            {data ? new Date(data.createdAt).toLocaleString() : ""}
+          </p> */}
+          {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+          {data?.voidedAt && (
+            <p className="mt-3 text-lg text-amber-100/80">
+              This draw has been voided.
+            </p>
+          )}
+          {phase === "ROLLING" && autoRevealDelay > 0 && (
+            <p className="mt-3 inline-flex items-center gap-2 rounded-full border border-amber-200/30 bg-white/5 px-4 py-2 text-md font-semibold text-amber-50/90 shadow">
+              Reveal in {Math.ceil(timeLeftMs / 1000)}s
+            </p>
+          )}
+          {sequential && winners.length > 0 && (
+            <p className="mt-3 inline-flex items-center gap-2 rounded-full border border-amber-200/30 bg-white/5 px-4 py-2 text-md font-semibold text-amber-50/90 shadow">
+              Revealed {revealedCount} / {winners.length}
+            </p>
+          )}
+        </header>
+
+        {/* ROLLING VIEW */}
+        {winners.length > 0 && (
+          <div className="flex flex-col gap-6">
+            <motion.div
+              key="winners-grid"
+              initial={{ opacity: 0, y: 16 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.35 }}
+              className="rounded-3xl border p-8 shadow-[0_25px_90px_rgba(0,0,0,0.6)]"
+              style={themePanelStyle(theme)}
+            >
+              <motion.div
+                className="grid gap-4"
+                style={{
+                  gridTemplateColumns: "repeat(auto-fit, minmax(260px, 1fr))",
+                }}
+                variants={gridVariants}
+                initial="hidden"
+                animate="show"
+              >
+                {visibleWinners.map((winner, index) => {
+                  const isRevealed = sequential
+                    ? index < revealedCount
+                    : phase === "REVEALED";
+                  const displayName = isRevealed
+                    ? winner
+                      ? contestantLabel(winner)
+                      : ""
+                    : poolLen > 0
+                    ? rollingPool[getRollingIndex(index)]?.name ?? ""
+                    : "";
+                  const cardPhase = isRevealed ? "REVEALED" : "ROLLING";
+                  const displayKey = `${cardPhase}-${
+                    displayName || "blank"
+                  }-${index}`;
+
+                  return (
+                    <motion.div
+                      key={winner.contestantId}
+                      variants={itemVariants}
+                      custom={index}
+                      transition={{
+                        type: "spring",
+                        stiffness: 260,
+                        damping: 18,
+                      }}
+                      className="flex min-h-30 items-center justify-center rounded-2xl bg-white/10 p-6 text-center shadow-lg ring-1 ring-amber-200/30 backdrop-blur"
+                    >
+                      <AnimatePresence mode="popLayout">
+                        <motion.span
+                          key={displayKey}
+                          initial={{ opacity: 0, y: 12, filter: "blur(6px)" }}
+                          animate={{ opacity: 1, y: 0, filter: "blur(0px)" }}
+                          exit={{ opacity: 0, y: -12, filter: "blur(6px)" }}
+                          transition={{
+                            duration: 0.22,
+                            ease: [0.16, 1, 0.3, 1],
+                          }}
+                          className="block whitespace-normal drop-shadow-[0_4px_14px_rgba(0,0,0,0.55)]"
+                          style={{
+                            fontWeight: 800,
+                            fontSize: "clamp(30px, 3vw, 35px)",
+                            wordBreak: "break-word",
+                            lineHeight: 1.05,
+                          }}
+                        >
+                          {displayName}
+                        </motion.span>
+                      </AnimatePresence>
+                    </motion.div>
+                  );
+                })}
+              </motion.div>
+            </motion.div>
+          </div>
+        )}
+
+        {loading && <p className="text-center text-gray-400">Loading...</p>}
+      </div>
+
+      {/* Controls */}
+      {winners.length > 0 && phase === "REVEALED" && (
+        <div className="fixed bottom-4 right-4 flex gap-2 text-sm text-white/80">
+          <button
+            className="rounded bg-linear-to-r from-emerald-600 to-emerald-500 px-3 py-2 font-semibold shadow-lg shadow-emerald-900/40 transition hover:brightness-110"
+            onClick={() => {
+              unlockSound();
+              restartRolling();
+            }}
+          >
+            🔄 Replay
+          </button>
+        </div>
+      )}
+    </PresenterBackdrop>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import type { ImportEntry } from "@/lib/contestant-import";
+import type { ColumnMapping, ImportMode } from "@/lib/import-mapping";
+
+export type ImportPreviewData = {
+  sheets: string[];
+  sheet: string | null;
+  headers: string[];
+  mapping: ColumnMapping;
+  mode: ImportMode;
+  sampleRows: ImportEntry[];
+  totalRows: number;
+  validNames: number;
+  toInsert: number;
+  toUpdate: number;
+  unchanged: number;
+  toRestore: number;
+  toWithdraw: number;
+  toRemove: number;
+  kept: number;
+  rejected: number;
+  skippedDuplicatesInFile: number;
+  skippedDuplicatesInDb: number;
+  skippedInvalidTickets: number;
+  skippedInvalidEmails: number;
+};
+
+type ImportPreviewProps = {
+  preview: ImportPreviewData;
+  downloading: boolean;
+  onDownloadRejected: () => void;
+};
+
+export default function ImportPreview({
+  preview,
+  downloading,
+  onDownloadRejected,
+}: ImportPreviewProps) {
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-100 bg-gray-50 p-3 text-sm">
+      <p className="font-medium">
+        {preview.toInsert} of {preview.totalRows} rows will be added.
+      </p>
+      {(preview.mode === "merge" || preview.mode === "sync") && (
+        <p className="text-gray-700">
+          {preview.toUpdate} existing contestants will be updated,{" "}
+          {preview.unchanged} are unchanged.
+          {preview.toRestore > 0 &&
+            ` ${preview.toRestore} withdrawn contestants will be restored.`}
+        </p>
+      )}
+      {preview.mode === "sync" && preview.toWithdraw > 0 && (
+        <p className="text-amber-700">
+          {preview.toWithdraw} contestants missing from the file will be
+          withdrawn from the draw.
+        </p>
+      )}
+      {preview.mode === "replace" && (
+        <p className="text-amber-700">
+          {preview.toRemove} contestants who never took part in a draw will be
+          removed; {preview.kept} winners and past winners stay.
+        </p>
+      )}
+      <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700">
+        <li>Valid names: {preview.validNames}</li>
+        <li>Invalid ticket counts: {preview.skippedInvalidTickets}</li>
+        <li>Invalid emails: {preview.skippedInvalidEmails}</li>
+        <li>Duplicates in file: {preview.skippedDuplicatesInFile}</li>
+        <li>Already in this session: {preview.skippedDuplicatesInDb}</li>
+      </ul>
+
+      {preview.sampleRows.length > 0 && (
+        <table className="w-full text-left text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="py-1 pr-2">Name</th>
+              <th className="py-1 pr-2">ID</th>
+              <th className="py-1 pr-2">Email</th>
+              <th className="py-1 pr-2">Department</th>
+              <th className="py-1 pr-2">Tickets</th>
+              <th className="py-1">Categories</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.sampleRows.map((row, index) => (
+              <tr key={index} className="border-t border-gray-200">
+                <td className="py-1 pr-2">{row.name}</td>
+                <td className="py-1 pr-2">{row.externalId ?? "—"}</td>
+                <td className="py-1 pr-2">{row.email ?? "—"}</td>
+                <td className="py-1 pr-2">{row.department ?? "—"}</td>
+                <td className="py-1 pr-2">{row.tickets}</td>
+                <td className="py-1">{row.categories.join(", ") || "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {preview.rejected > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-red-600">
+            {preview.rejected} rows will be skipped.
+          </span>
+          <button
+            className="rounded border px-2 py-0.5 disabled:opacity-50"
+            onClick={onDownloadRejected}
+            disabled={downloading}
+          >
+            {downloading ? "Preparing..." : "Download rejected rows"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
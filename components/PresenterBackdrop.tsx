@@ -0,0 +1,81 @@
+"use client";
+
+import type { CSSProperties, ReactNode } from "react";
+import { THEME_FONTS, type PresenterTheme } from "@/lib/theme";
+
+type PresenterBackdropProps = {
+  theme: PresenterTheme;
+  children: ReactNode;
+  className?: string;
+};
+
+// Gradient text for the big headings, drawn from the theme's accent colour.
+export function themeTitleStyle(theme: PresenterTheme): CSSProperties {
+  return {
+    backgroundImage: `linear-gradient(to right, ${theme.accentColor}, #ffffff, ${theme.accentColor})`,
+  };
+}
+
+// Translucent card background tinted with the theme's gradient ends.
+export function themePanelStyle(theme: PresenterTheme): CSSProperties {
+  return {
+    backgroundImage: `linear-gradient(to bottom right, ${theme.backgroundFrom}cc, rgba(0,0,0,0.4), ${theme.backgroundTo}b3)`,
+    borderColor: `${theme.accentColor}33`,
+  };
+}
+
+export function PresenterLogo({
+  theme,
+  className = "mx-auto h-24 w-72",
+}: {
+  theme: PresenterTheme;
+  className?: string;
+}) {
+  if (!theme.logoUrl) return null;
+
+  return (
+    <div
+      role="img"
+      aria-label="Event logo"
+      className={className}
+      style={{
+        backgroundImage: `url("${theme.logoUrl}")`,
+        backgroundPosition: "center",
+        backgroundRepeat: "no-repeat",
+        backgroundSize: "contain",
+      }}
+    />
+  );
+}
+
+// Shared full-screen background for every presenter view and the editor's
+// preview, so what the operator previews is what the projector shows.
+export default function PresenterBackdrop({
+  theme,
+  children,
+  className = "relative min-h-screen overflow-hidden",
+}: PresenterBackdropProps) {
+  const background = theme.backgroundImageUrl
+    ? `linear-gradient(rgba(0,0,0,0.35), rgba(0,0,0,0.35)), url("${theme.backgroundImageUrl}")`
+    : `linear-gradient(to bottom right, ${theme.backgroundFrom}, ${theme.backgroundVia}, ${theme.backgroundTo})`;
+
+  return (
+    <div
+      className={className}
+      style={{
+        backgroundColor: theme.backgroundFrom,
+        backgroundImage: background,
+        backgroundPosition: "center",
+        backgroundSize: "cover",
+        color: theme.textColor,
+        fontFamily: THEME_FONTS[theme.fontFamily],
+      }}
+    >
+      <div className="pointer-events-none absolute inset-0 opacity-60">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_20%_20%,rgba(34,197,94,0.18),transparent_40%),radial-gradient(circle_at_80%_10%,rgba(248,113,113,0.18),transparent_38%),radial-gradient(circle_at_40%_80%,rgba(251,191,36,0.16),transparent_40%)]" />
+        <div className="absolute inset-0 bg-[linear-gradient(120deg,rgba(255,255,255,0.06)_0%,transparent_40%,rgba(255,255,255,0.06)_70%)]" />
+      </div>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useState } from "react";
+import {
+  PRIZE_IMPORT_FIELDS,
+  PRIZE_IMPORT_FIELD_LABELS,
+  type PrizeColumnMapping,
+  type PrizeImportField,
+} from "@/lib/import-mapping";
+import type { PrizeImportEntry } from "@/lib/prize-import";
+
+type PrizeImportPreview = {
+  sheets: string[];
+  sheet: string | null;
+  headers: string[];
+  mapping: PrizeColumnMapping;
+  sampleRows: PrizeImportEntry[];
+  totalRows: number;
+  toInsert: number;
+  totalQuantity: number;
+  eligibleContestants: number;
+  exceedsEligible: boolean;
+  rejected: number;
+  rejectedRows: { line: number; reason: string }[];
+};
+
+type PrizeImportProps = {
+  sessionId: string;
+  onImported: () => void | Promise<void>;
+};
+
+// Rejected rows listed inline before the operator has to download them.
+const LISTED_REJECTIONS = 10;
+
+function importFormData(
+  file: File,
+  mapping: PrizeColumnMapping | null,
+  sheet: string | null
+) {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) formData.append("mapping", JSON.stringify(mapping));
+  if (sheet) formData.append("sheet", sheet);
+  return formData;
+}
+
+// Bulk prize upload from a sponsor's spreadsheet, with the same preview,
+// mapping and rejected-rows flow as the contestant import.
+export default function PrizeImport({
+  sessionId,
+  onImported,
+}: PrizeImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [sheet, setSheet] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<PrizeColumnMapping | null>(null);
+  const [preview, setPreview] = useState<PrizeImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const requestPreview = async (
+    chosen: File,
+    nextMapping: PrizeColumnMapping | null,
+    nextSheet: string | null
+  ) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/prizes/import/preview`,
+        {
+          method: "POST",
+          body: importFormData(chosen, nextMapping, nextSheet),
+        }
+      );
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to preview file");
+      const next = data as PrizeImportPreview;
+      setPreview(next);
+      if (!nextMapping) {
+        setSheet(next.sheet);
+        setMapping(next.mapping);
+      }
+    } catch (err) {
+      setPreview(null);
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChosen = (chosen: File | null) => {
+    setFile(chosen);
+    setSheet(null);
+    setMapping(null);
+    setPreview(null);
+    setResult(null);
+    if (chosen) requestPreview(chosen, null, null);
+  };
+
+  const handleSheetChange = (nextSheet: string) => {
+    if (!file) return;
+    setSheet(nextSheet);
+    setMapping(null);
+    requestPreview(file, null, nextSheet);
+  };
+
+  const handleMappingChange = (field: PrizeImportField, column: string) => {
+    if (!file || !mapping) return;
+    const next = { ...mapping, [field]: column || null };
+    setMapping(next);
+    requestPreview(file, next, sheet);
+  };
+
+  const handleDownloadRejected = async () => {
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(
+        `/api/sessions/${sessionId}/prizes/import/rejected`,
+        { method: "POST", body: importFormData(file, mapping, sheet) }
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data?.error || "Failed to download rejected rows");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `rejected-${file.name.replace(/\.[^.]*$/, "")}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/prizes/import`, {
+        method: "POST",
+        body: importFormData(file, mapping, sheet),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Import failed");
+      setResult(
+        `Added ${data.inserted} prizes (${data.totalQuantity} units); ${data.rejected} rows skipped.`
+      );
+      setFile(null);
+      setSheet(null);
+      setMapping(null);
+      setPreview(null);
+      await onImported();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <h2 className="text-lg font-semibold">Import Prizes</h2>
+      <p className="text-sm text-gray-600">
+        CSV or Excel with a header row: prize name, quantity, categories,
+        sponsor, description and display order.
+      </p>
+      <input
+        type="file"
+        accept=".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        onChange={(e) => handleFileChosen(e.target.files?.[0] ?? null)}
+        disabled={busy}
+      />
+
+      {preview && preview.sheets.length > 1 && (
+        <label className="flex flex-col gap-1 text-sm">
+          Sheet
+          <select
+            className="rounded border px-2 py-1"
+            value={sheet ?? ""}
+            onChange={(e) => handleSheetChange(e.target.value)}
+            disabled={busy}
+          >
+            {preview.sheets.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {preview && mapping && (
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          {PRIZE_IMPORT_FIELDS.map((field) => (
+            <label key={field} className="flex flex-col gap-1">
+              {PRIZE_IMPORT_FIELD_LABELS[field]}
+              <select
+                className="rounded border px-2 py-1"
+                value={mapping[field] ?? ""}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                disabled={busy}
+              >
+                <option value="">Not in file</option>
+                {preview.headers.map((header) => (
+                  <option key={header} value={header}>
+                    {header}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {preview && (
+        <div className="flex flex-col gap-2 rounded border border-gray-100 bg-gray-50 p-3 text-sm">
+          <p className="font-medium">
+            {preview.toInsert} of {preview.totalRows} rows will be added,{" "}
+            {preview.totalQuantity} units in total.
+          </p>
+          <p
+            className={
+              preview.exceedsEligible ? "text-red-600" : "text-gray-700"
+            }
+          >
+            Eligible contestants: {preview.eligibleContestants}
+            {preview.exceedsEligible &&
+              ". Reduce the quantities before importing."}
+          </p>
+
+          {preview.sampleRows.length > 0 && (
+            <table className="w-full text-left text-xs">
+              <thead className="text-gray-500">
+                <tr>
+                  <th className="py-1 pr-2">Prize</th>
+                  <th className="py-1 pr-2">Qty</th>
+                  <th className="py-1 pr-2">Categories</th>
+                  <th className="py-1">Sponsor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.sampleRows.map((row, index) => (
+                  <tr key={index} className="border-t border-gray-200">
+                    <td className="py-1 pr-2">{row.name}</td>
+                    <td className="py-1 pr-2">{row.quantity}</td>
+                    <td className="py-1 pr-2">
+                      {row.eligibleCategories.join(", ") || "—"}
+                    </td>
+                    <td className="py-1">{row.sponsor ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {preview.rejected > 0 && (
+            <div className="flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <span className="text-red-600">
+                  {preview.rejected} rows will be skipped.
+                </span>
+                <button
+                  className="rounded border px-2 py-0.5 disabled:opacity-50"
+                  onClick={handleDownloadRejected}
+                  disabled={busy}
+                >
+                  Download rejected rows
+                </button>
+              </div>
+              <ul className="text-xs text-gray-700">
+                {preview.rejectedRows.slice(0, LISTED_REJECTIONS).map((row) => (
+                  <li key={row.line}>
+                    Line {row.line}: {row.reason}
+                  </li>
+                ))}
+                {preview.rejected > LISTED_REJECTIONS && (
+                  <li>…and {preview.rejected - LISTED_REJECTIONS} more</li>
+                )}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {file && preview && (
+        <button
+          className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+          onClick={handleImport}
+          disabled={busy || preview.toInsert === 0 || preview.exceedsEligible}
+        >
+          {busy ? "Working..." : `Import ${preview.toInsert} prizes`}
+        </button>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {result && <p className="text-sm text-green-700">{result}</p>}
+    </div>
+  );
+}
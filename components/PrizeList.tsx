@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+
+type Prize = {
+  id: string;
+  name: string;
+  quantity: number;
+  eligibleCategories?: string[];
+  description?: string | null;
+  sponsor?: string | null;
+  imageUrl?: string | null;
+  alreadyDrawn?: number;
+  remaining?: number;
+};
+
+type PrizeListProps = {
+  sessionId: string;
+  // In running order, as the prizes endpoint returns them.
+  prizes: Prize[];
+  onChange: () => void | Promise<void>;
+};
+
+type PrizeDraft = {
+  name: string;
+  quantity: string;
+  categories: string;
+  description: string;
+  sponsor: string;
+};
+
+function draftFor(prize: Prize): PrizeDraft {
+  return {
+    name: prize.name,
+    quantity: String(prize.quantity),
+    categories: prize.eligibleCategories?.join(", ") ?? "",
+    description: prize.description ?? "",
+    sponsor: prize.sponsor ?? "",
+  };
+}
+
+// The session's prizes in the order they will be drawn, with editing,
+// reordering and the image shown on the presenter screen.
+export default function PrizeList({
+  sessionId,
+  prizes,
+  onChange,
+}: PrizeListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PrizeDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<Response>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await action();
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || fallback);
+      await onChange();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= prizes.length) return;
+    const prizeIds = prizes.map((prize) => prize.id);
+    [prizeIds[index], prizeIds[target]] = [prizeIds[target], prizeIds[index]];
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/prizes/order`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ prizeIds }),
+        }),
+      "Failed to reorder prizes"
+    );
+  };
+
+  const handleSave = async (prize: Prize) => {
+    if (!draft) return;
+    const quantity = Number(draft.quantity);
+    if (!draft.name.trim() || !Number.isInteger(quantity) || quantity < 1) {
+      setError("Enter a prize name and valid quantity.");
+      return;
+    }
+    const saved = await run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/prizes/${prize.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: draft.name,
+            quantity,
+            eligibleCategories: draft.categories,
+            description: draft.description,
+            sponsor: draft.sponsor,
+          }),
+        }),
+      "Failed to save prize"
+    );
+    if (saved) {
+      setEditingId(null);
+      setDraft(null);
+    }
+  };
+
+  const handleDelete = (prize: Prize) => {
+    if (!window.confirm(`Delete the prize "${prize.name}"?`)) return;
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/prizes/${prize.id}`, {
+          method: "DELETE",
+        }),
+      "Failed to delete prize"
+    );
+  };
+
+  const handleImage = (prize: Prize, file: File | null) => {
+    const formData = new FormData();
+    if (file) formData.append("file", file);
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/prizes/${prize.id}/image`, {
+          method: file ? "POST" : "DELETE",
+          body: file ? formData : undefined,
+        }),
+      file ? "Failed to upload image" : "Failed to remove image"
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <h2 className="text-lg font-semibold">Prizes</h2>
+      <p className="text-sm text-gray-600">
+        Drawn from top to bottom; move the grand prize to the end.
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {prizes.length === 0 && (
+        <p className="text-sm text-gray-500">No prizes yet.</p>
+      )}
+      <ol className="flex flex-col divide-y">
+        {prizes.map((prize, index) => (
+          <li key={prize.id} className="flex flex-col gap-2 py-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex items-start gap-3">
+                {prize.imageUrl && (
+                  <div
+                    role="img"
+                    aria-label={prize.name}
+                    className="h-12 w-12 shrink-0 rounded bg-gray-50"
+                    style={{
+                      backgroundImage: `url("${prize.imageUrl}")`,
+                      backgroundPosition: "center",
+                      backgroundRepeat: "no-repeat",
+                      backgroundSize: "contain",
+                    }}
+                  />
+                )}
+                <div className="flex flex-col">
+                  <span className="font-medium">
+                    {index + 1}. {prize.name}
+                  </span>
+                  <span className="text-xs text-gray-600">
+                    {[
+                      `Qty ${prize.quantity}`,
+                      prize.alreadyDrawn !== undefined &&
+                        `${prize.alreadyDrawn} drawn`,
+                      prize.eligibleCategories?.length &&
+                        `${prize.eligibleCategories.join(", ")} only`,
+                      prize.sponsor && `Sponsor: ${prize.sponsor}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </span>
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-1 text-sm">
+                <button
+                  className="rounded border px-2 disabled:opacity-30"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={busy || index === 0}
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  className="rounded border px-2 disabled:opacity-30"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={busy || index === prizes.length - 1}
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  className="text-blue-700 underline disabled:opacity-50"
+                  onClick={() => {
+                    setEditingId(editingId === prize.id ? null : prize.id);
+                    setDraft(draftFor(prize));
+                  }}
+                  disabled={busy}
+                >
+                  {editingId === prize.id ? "Close" : "Edit"}
+                </button>
+                <button
+                  className="text-red-600 underline disabled:opacity-50"
+                  onClick={() => handleDelete(prize)}
+                  disabled={busy || (prize.alreadyDrawn ?? 0) > 0}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {editingId === prize.id && draft && (
+              <div className="flex flex-col gap-2 rounded bg-gray-50 p-3 text-sm">
+                <input
+                  type="text"
+                  className="rounded border px-2 py-1"
+                  placeholder="Prize name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min={Math.max(prize.alreadyDrawn ?? 0, 1)}
+                  className="rounded border px-2 py-1"
+                  placeholder="Quantity"
+                  value={draft.quantity}
+                  onChange={(e) =>
+                    setDraft({ ...draft, quantity: e.target.value })
+                  }
+                />
+                <input
+                  type="text"
+                  className="rounded border px-2 py-1"
+                  placeholder="Restrict to categories (optional)"
+                  value={draft.categories}
+                  onChange={(e) =>
+                    setDraft({ ...draft, categories: e.target.value })
+                  }
+                />
+                <textarea
+                  className="rounded border px-2 py-1"
+                  placeholder="Description shown on screen (optional)"
+                  rows={2}
+                  value={draft.description}
+                  onChange={(e) =>
+                    setDraft({ ...draft, description: e.target.value })
+                  }
+                />
+                <input
+                  type="text"
+                  className="rounded border px-2 py-1"
+                  placeholder="Sponsor (optional)"
+                  value={draft.sponsor}
+                  onChange={(e) =>
+                    setDraft({ ...draft, sponsor: e.target.value })
+                  }
+                />
+                <div className="flex items-center gap-2">
+                  <label className="text-gray-700">
+                    Image
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp,image/gif"
+                      className="ml-2"
+                      onChange={(e) =>
+                        handleImage(prize, e.target.files?.[0] ?? null)
+                      }
+                      disabled={busy}
+                    />
+                  </label>
+                  {prize.imageUrl && (
+                    <button
+                      className="text-red-600 underline disabled:opacity-50"
+                      onClick={() => handleImage(prize, null)}
+                      disabled={busy}
+                    >
+                      Remove image
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    className="rounded bg-blue-600 px-3 py-1 text-white disabled:bg-blue-300"
+                    onClick={() => handleSave(prize)}
+                    disabled={busy}
+                  >
+                    {busy ? "Saving..." : "Save"}
+                  </button>
+                  <button
+                    className="rounded border px-3 py-1"
+                    onClick={() => {
+                      setEditingId(null);
+                      setDraft(null);
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
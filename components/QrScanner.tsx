@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+// The Shape Detection API is not in TypeScript's DOM library yet.
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+};
+type BarcodeDetectorConstructor = new (options: {
+  formats: string[];
+}) => BarcodeDetectorInstance;
+
+type QrScannerProps = {
+  onScan: (code: string) => void;
+};
+
+// The same code stays in view for a while; ignore repeats within this window.
+const REPEAT_SCAN_MS = 3000;
+const SCAN_INTERVAL_MS = 300;
+
+function barcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === "undefined") return null;
+  const detector = (window as { BarcodeDetector?: BarcodeDetectorConstructor })
+    .BarcodeDetector;
+  return detector ?? null;
+}
+
+// Browser support never changes while the page is open.
+const subscribeNever = () => () => {};
+
+function cameraScanSupported() {
+  return barcodeDetector() !== null && Boolean(navigator.mediaDevices);
+}
+
+// Camera scanning where the browser can decode QR codes itself (Chrome on
+// Android does). Elsewhere the desk falls back to a handheld scanner, which
+// types into the code field like a keyboard.
+export default function QrScanner({ onScan }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onScanRef = useRef(onScan);
+  const [active, setActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supported = useSyncExternalStore(
+    subscribeNever,
+    cameraScanSupported,
+    () => false
+  );
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    if (!active || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    let last = { code: "", at: 0 };
+    const detector = new Detector({ formats: ["qr_code"] });
+
+    const stopStream = () => {
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: "environment" },
+        });
+        // The camera may be granted after the scanner was closed; release
+        // it here, since cleanup already ran without a stream to stop.
+        if (cancelled || !videoRef.current) {
+          stopStream();
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        if (cancelled) return;
+        timer = setInterval(async () => {
+          if (!videoRef.current) return;
+          let code: DetectedBarcode | undefined;
+          try {
+            [code] = await detector.detect(videoRef.current);
+          } catch {
+            // A frame that is not ready yet; try again on the next tick.
+            return;
+          }
+          if (!code?.rawValue) return;
+          const now = Date.now();
+          if (code.rawValue === last.code && now - last.at < REPEAT_SCAN_MS) {
+            return;
+          }
+          last = { code: code.rawValue, at: now };
+          onScanRef.current(code.rawValue);
+        }, SCAN_INTERVAL_MS);
+      } catch (err) {
+        setError((err as Error).message || "Camera unavailable");
+        setActive(false);
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stopStream();
+    };
+  }, [active]);
+
+  if (!supported) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <button
+        className="rounded border px-3 py-2 text-sm"
+        onClick={() => {
+          setError(null);
+          setActive((prev) => !prev);
+        }}
+      >
+        {active ? "Stop camera" : "Scan with camera"}
+      </button>
+      {active && (
+        <video
+          ref={videoRef}
+          className="w-full rounded bg-black"
+          muted
+          playsInline
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
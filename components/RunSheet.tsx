@@ -0,0 +1,291 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { RunSheet as RunSheetData } from "@/lib/run-sheet";
+
+type Prize = {
+  id: string;
+  name: string;
+  remaining?: number;
+};
+
+type RunSheetProps = {
+  sessionId: string;
+  prizes: Prize[];
+  // Changes whenever draws are run or voided elsewhere on the page.
+  refreshKey?: string;
+  onDrawn: () => void | Promise<void>;
+};
+
+// The planned draws for the evening, run one batch at a time from here or
+// with the N key on the stage screen. Progress lives on the server, so a
+// refreshed browser picks up where the show left off.
+export default function RunSheet({
+  sessionId,
+  prizes,
+  refreshKey,
+  onDrawn,
+}: RunSheetProps) {
+  const [sheet, setSheet] = useState<RunSheetData | null>(null);
+  const [prizeId, setPrizeId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [batchSize, setBatchSize] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSheet = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/run-sheet`, {
+        cache: "no-store",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to load run-sheet");
+      setSheet(data as RunSheetData);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchSheet();
+  }, [fetchSheet, refreshKey]);
+
+  const run = async (
+    action: () => Promise<Response>,
+    fallback: string,
+    drew = false
+  ) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await action();
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        // Someone else moved the sheet on; show where it really is.
+        if (res.status === 409) await fetchSheet();
+        throw new Error(data?.error || fallback);
+      }
+      setSheet((drew ? data.runSheet : data) as RunSheetData);
+      if (drew) await onDrawn();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const parsedQuantity = Number(quantity);
+    const parsedBatch = batchSize.trim() === "" ? null : Number(batchSize);
+    if (
+      !prizeId ||
+      !Number.isInteger(parsedQuantity) ||
+      parsedQuantity < 1 ||
+      (parsedBatch !== null &&
+        (!Number.isInteger(parsedBatch) || parsedBatch < 1))
+    ) {
+      setError("Choose a prize and enter a valid quantity and batch size.");
+      return;
+    }
+    const added = await run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/run-sheet`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            prizeId,
+            quantity: parsedQuantity,
+            batchSize: parsedBatch,
+          }),
+        }),
+      "Failed to add step"
+    );
+    if (added) {
+      setQuantity("");
+      setBatchSize("");
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!sheet) return;
+    const target = index + offset;
+    if (target < 0 || target >= sheet.steps.length) return;
+    const stepIds = sheet.steps.map((step) => step.id);
+    [stepIds[index], stepIds[target]] = [stepIds[target], stepIds[index]];
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/run-sheet/order`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ stepIds }),
+        }),
+      "Failed to reorder the run-sheet"
+    );
+  };
+
+  const handleRemove = (stepId: string) => {
+    if (!window.confirm("Remove this step from the run-sheet?")) return;
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/run-sheet/${stepId}`, {
+          method: "DELETE",
+        }),
+      "Failed to remove step"
+    );
+  };
+
+  const handleNext = () => {
+    if (!sheet?.next) return;
+    const { stepId, batch } = sheet.next;
+    run(
+      () =>
+        fetch(`/api/sessions/${sessionId}/run-sheet/next`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ stepId, batch }),
+        }),
+      "Failed to run the next draw",
+      true
+    );
+  };
+
+  const next = sheet?.next ?? null;
+  const nextStep = sheet?.steps.find((step) => step.id === next?.stepId);
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Run-sheet</h2>
+        {sheet && sheet.totalSteps > 0 && (
+          <span className="text-sm text-gray-600">
+            {sheet.completedSteps} of {sheet.totalSteps} steps done
+          </span>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {sheet && sheet.steps.length === 0 && (
+        <p className="text-sm text-gray-500">
+          No planned draws yet. Add the prizes in the order they will be drawn.
+        </p>
+      )}
+
+      {sheet && sheet.steps.length > 0 && (
+        <ol className="flex flex-col divide-y text-sm">
+          {sheet.steps.map((step, index) => (
+            <li
+              key={step.id}
+              className={`flex items-center justify-between gap-2 py-2 ${
+                step.id === next?.stepId ? "font-medium" : ""
+              } ${step.done ? "text-gray-400" : ""}`}
+            >
+              <span>
+                {step.position}. {step.prize.name} × {step.quantity}
+                {step.batches > 1 && ` in ${step.batches} batches`}
+                <span className="ml-2 text-xs text-gray-600">
+                  {step.done
+                    ? `Done · ${step.winners} winners`
+                    : step.batches > 1
+                    ? `${step.completedBatches}/${step.batches} batches`
+                    : "Pending"}
+                </span>
+              </span>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  className="rounded border px-2 disabled:opacity-30"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={busy || index === 0}
+                  aria-label="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  className="rounded border px-2 disabled:opacity-30"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={busy || index === sheet.steps.length - 1}
+                  aria-label="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  className="text-red-600 underline disabled:opacity-50"
+                  onClick={() => handleRemove(step.id)}
+                  disabled={busy}
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {next && (
+        <button
+          className="rounded bg-green-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-green-300"
+          onClick={handleNext}
+          disabled={busy}
+        >
+          {busy
+            ? "Working..."
+            : `Next: draw ${next.quantity} × ${next.prize.name}${
+                nextStep && nextStep.batches > 1
+                  ? ` (batch ${next.batch + 1} of ${nextStep.batches})`
+                  : ""
+              }`}
+        </button>
+      )}
+      {sheet && sheet.totalSteps > 0 && !next && (
+        <p className="text-sm text-green-700">Every planned draw has run.</p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2 border-t pt-3 text-sm">
+        <label className="flex flex-col gap-1">
+          Prize
+          <select
+            className="rounded border px-2 py-1"
+            value={prizeId}
+            onChange={(e) => setPrizeId(e.target.value)}
+          >
+            <option value="">Choose a prize</option>
+            {prizes.map((prize) => (
+              <option key={prize.id} value={prize.id}>
+                {prize.name}
+                {prize.remaining !== undefined && ` (${prize.remaining} left)`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Quantity
+          <input
+            type="number"
+            min={1}
+            className="w-24 rounded border px-2 py-1"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Batch size (optional)
+          <input
+            type="number"
+            min={1}
+            className="w-24 rounded border px-2 py-1"
+            value={batchSize}
+            onChange={(e) => setBatchSize(e.target.value)}
+          />
+        </label>
+        <button
+          className="rounded bg-blue-600 px-3 py-1 text-white disabled:bg-blue-300"
+          onClick={handleAdd}
+          disabled={busy || !prizeId || !quantity}
+        >
+          Add step
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type Role = "OWNER" | "OPERATOR" | "VIEWER";
+
+type Member = {
+  userId: string;
+  email: string;
+  name: string;
+  role: Role;
+};
+
+type MembersResponse = {
+  role: Role;
+  owner: { id: string; email: string; name: string } | null;
+  members: Member[];
+};
+
+type SessionMembersProps = {
+  sessionId: string;
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  OWNER: "Owner",
+  OPERATOR: "Operator (can draw)",
+  VIEWER: "Viewer / presenter",
+};
+
+export default function SessionMembers({ sessionId }: SessionMembersProps) {
+  const [data, setData] = useState<MembersResponse | null>(null);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("OPERATOR");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/members`, {
+        cache: "no-store",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to load members");
+      setData(json as MembersResponse);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const handleAdd = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role }),
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to add member");
+      setEmail("");
+      await fetchMembers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/members/${userId}`, {
+        method: "DELETE",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(json?.error || "Failed to remove member");
+      await fetchMembers();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isOwner = data?.role === "OWNER";
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <h2 className="text-lg font-semibold">Access</h2>
+      {data?.owner && (
+        <p className="text-sm text-gray-700">
+          Owner: {data.owner.name} ({data.owner.email})
+        </p>
+      )}
+      {data && data.members.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {data.members.map((member) => (
+            <li
+              key={member.userId}
+              className="flex items-center justify-between gap-2"
+            >
+              <span>
+                {member.name} ({member.email}) · {ROLE_LABELS[member.role]}
+              </span>
+              {isOwner && (
+                <button
+                  className="rounded border px-2 py-0.5 disabled:opacity-50"
+                  onClick={() => handleRemove(member.userId)}
+                  disabled={busy}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {isOwner && (
+        <div className="flex gap-2">
+          <input
+            type="email"
+            placeholder="Email of an existing account"
+            className="flex-1 rounded border px-3 py-2"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <select
+            className="rounded border px-3 py-2"
+            value={role}
+            onChange={(e) => setRole(e.target.value as Role)}
+          >
+            {(Object.keys(ROLE_LABELS) as Role[]).map((value) => (
+              <option key={value} value={value}>
+                {ROLE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <button
+            className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+            onClick={handleAdd}
+            disabled={busy || !email.trim()}
+          >
+            Add
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import PresenterBackdrop, {
+  PresenterLogo,
+  themePanelStyle,
+  themeTitleStyle,
+} from "@/components/PresenterBackdrop";
+import {
+  DEFAULT_THEME,
+  THEME_FONT_NAMES,
+  type PresenterTheme,
+  type ThemeFont,
+  type ThemeImageKind,
+} from "@/lib/theme";
+
+type ThemeEditorProps = {
+  sessionId: string;
+};
+
+const PREVIEW_NAMES = ["Ayu Lestari", "Budi Santoso", "Citra Dewi", "Dimas"];
+
+const COLOR_FIELDS: { key: keyof PresenterTheme; label: string }[] = [
+  { key: "backgroundFrom", label: "Background start" },
+  { key: "backgroundVia", label: "Background middle" },
+  { key: "backgroundTo", label: "Background end" },
+  { key: "accentColor", label: "Accent" },
+  { key: "textColor", label: "Text" },
+];
+
+// Everything except the uploaded images, which are saved as soon as they
+// are picked.
+function toThemeInput(theme: PresenterTheme) {
+  return {
+    title: theme.title,
+    fontFamily: theme.fontFamily,
+    backgroundFrom: theme.backgroundFrom,
+    backgroundVia: theme.backgroundVia,
+    backgroundTo: theme.backgroundTo,
+    accentColor: theme.accentColor,
+    textColor: theme.textColor,
+    rollIntervalMs: theme.rollIntervalMs,
+    revealDelaySingleMs: theme.revealDelaySingleMs,
+    revealDelayMultiMs: theme.revealDelayMultiMs,
+    confettiEnabled: theme.confettiEnabled,
+    soundEnabled: theme.soundEnabled,
+  };
+}
+
+export default function ThemeEditor({ sessionId }: ThemeEditorProps) {
+  const [draft, setDraft] = useState<PresenterTheme>(DEFAULT_THEME);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+
+  useEffect(() => {
+    const fetchTheme = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}/theme`, {
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data?.error || "Failed to load theme");
+        setDraft(data as PresenterTheme);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTheme();
+  }, [sessionId]);
+
+  // The preview rolls names at the configured speed.
+  useEffect(() => {
+    const timer = setInterval(
+      () => setPreviewIndex((prev) => (prev + 1) % PREVIEW_NAMES.length),
+      draft.rollIntervalMs
+    );
+    return () => clearInterval(timer);
+  }, [draft.rollIntervalMs]);
+
+  const update = <K extends keyof PresenterTheme>(
+    key: K,
+    value: PresenterTheme[K]
+  ) => {
+    setSaved(false);
+    setDraft((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/theme`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(toThemeInput(draft)),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to save theme");
+      setDraft(data as PresenterTheme);
+      setSaved(true);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImage = async (kind: ThemeImageKind, file: File | null) => {
+    setError(null);
+    setSaving(true);
+    try {
+      let res: Response;
+      if (file) {
+        const formData = new FormData();
+        formData.append("file", file);
+        res = await fetch(`/api/sessions/${sessionId}/theme/images/${kind}`, {
+          method: "POST",
+          body: formData,
+        });
+      } else {
+        res = await fetch(`/api/sessions/${sessionId}/theme/images/${kind}`, {
+          method: "DELETE",
+        });
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to update image");
+      const theme = data as PresenterTheme;
+      // Keep unsaved edits; only the image URLs come from the server.
+      setDraft((prev) => ({
+        ...prev,
+        logoUrl: theme.logoUrl,
+        backgroundImageUrl: theme.backgroundImageUrl,
+      }));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const previewName = PREVIEW_NAMES[previewIndex];
+
+  return (
+    <div className="flex flex-col gap-2 rounded border border-gray-200 p-4 shadow-sm">
+      <h2 className="text-lg font-semibold">Presenter Theme</h2>
+      {loading && <p className="text-sm text-gray-500">Loading theme...</p>}
+
+      <PresenterBackdrop
+        theme={draft}
+        className="relative overflow-hidden rounded"
+      >
+        <div className="relative flex flex-col items-center gap-3 px-4 py-6 text-center">
+          <PresenterLogo theme={draft} className="h-12 w-40" />
+          {draft.title && (
+            <p className="text-xs font-semibold uppercase tracking-[0.2em] opacity-80">
+              {draft.title}
+            </p>
+          )}
+          <p
+            className="bg-clip-text text-3xl font-extrabold text-transparent"
+            style={themeTitleStyle(draft)}
+          >
+            Pemenang Prize
+          </p>
+          <div
+            className="grid w-full grid-cols-2 gap-2 rounded-xl border p-3"
+            style={themePanelStyle(draft)}
+          >
+            <div className="rounded-lg bg-white/10 p-3 text-lg font-extrabold">
+              {previewName}
+            </div>
+            <div className="rounded-lg bg-white/10 p-3 text-lg font-extrabold">
+              Eka Putri
+            </div>
+          </div>
+        </div>
+      </PresenterBackdrop>
+
+      <label className="text-sm font-medium" htmlFor="theme-title">
+        Event title
+      </label>
+      <input
+        id="theme-title"
+        type="text"
+        placeholder="Shown above the prize name"
+        className="rounded border px-3 py-2"
+        value={draft.title ?? ""}
+        onChange={(e) => update("title", e.target.value || null)}
+      />
+
+      <label className="text-sm font-medium" htmlFor="theme-font">
+        Font
+      </label>
+      <select
+        id="theme-font"
+        className="rounded border px-3 py-2"
+        value={draft.fontFamily}
+        onChange={(e) => update("fontFamily", e.target.value as ThemeFont)}
+      >
+        {THEME_FONT_NAMES.map((font) => (
+          <option key={font} value={font}>
+            {font}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex flex-wrap gap-3">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm">
+            <input
+              type="color"
+              value={draft[key] as string}
+              onChange={(e) => update(key, e.target.value)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        {(["logo", "background"] as const).map((kind) => {
+          const url =
+            kind === "logo" ? draft.logoUrl : draft.backgroundImageUrl;
+          return (
+            <div key={kind} className="flex flex-col gap-1">
+              <span className="font-medium">
+                {kind === "logo" ? "Logo" : "Background image"}
+              </span>
+              <input
+                type="file"
+                accept="image/png,image/jpeg,image/webp,image/gif"
+                disabled={saving}
+                onChange={(e) => {
+                  handleImage(kind, e.target.files?.[0] ?? null);
+                  e.target.value = "";
+                }}
+              />
+              {url && (
+                <button
+                  className="self-start rounded border px-2 py-0.5 disabled:opacity-50"
+                  onClick={() => handleImage(kind, null)}
+                  disabled={saving}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <label className="flex flex-col gap-1">
+          Roll speed (ms)
+          <input
+            type="number"
+            min={40}
+            max={2000}
+            className="rounded border px-2 py-1"
+            value={draft.rollIntervalMs}
+            onChange={(e) => update("rollIntervalMs", Number(e.target.value))}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Reveal delay, 1 winner (ms)
+          <input
+            type="number"
+            min={0}
+            className="rounded border px-2 py-1"
+            value={draft.revealDelaySingleMs}
+            onChange={(e) =>
+              update("revealDelaySingleMs", Number(e.target.value))
+            }
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Reveal delay, several (ms)
+          <input
+            type="number"
+            min={0}
+            className="rounded border px-2 py-1"
+            value={draft.revealDelayMultiMs}
+            onChange={(e) =>
+              update("revealDelayMultiMs", Number(e.target.value))
+            }
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        A reveal delay of 0 turns auto reveal off.
+      </p>
+
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.confettiEnabled}
+            onChange={(e) => update("confettiEnabled", e.target.checked)}
+          />
+          Confetti
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.soundEnabled}
+            onChange={(e) => update("soundEnabled", e.target.checked)}
+          />
+          Sound effects
+        </label>
+      </div>
+
+      <button
+        className="rounded bg-blue-600 px-4 py-2 text-white disabled:cursor-not-allowed disabled:bg-blue-300"
+        onClick={handleSave}
+        disabled={saving || loading}
+      >
+        {saving ? "Saving..." : "Save theme"}
+      </button>
+      {saved && <p className="text-sm text-green-700">Theme saved.</p>}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import QRCode from "qrcode";
+
+type TicketQrProps = {
+  code: string;
+  size?: number;
+};
+
+// Rendered in the browser so a sheet of thousands of tickets does not have
+// to travel from the server as images.
+export default function TicketQr({ code, size = 128 }: TicketQrProps) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    QRCode.toDataURL(code, { margin: 1, width: size }).then((url) => {
+      if (!cancelled) setSrc(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [code, size]);
+
+  return src ? (
+    <Image
+      src={src}
+      alt={`QR code ${code}`}
+      width={size}
+      height={size}
+      unoptimized
+    />
+  ) : (
+    <div style={{ width: size, height: size }} className="bg-gray-100" />
+  );
+}
@@ -0,0 +1,7 @@
+// Runs once when a server process starts. Scheduled draws are polled from
+// the Node.js runtime only; the edge runtime has no database access.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  const { startDrawScheduler } = await import("@/lib/scheduled-draws");
+  startDrawScheduler();
+}
@@ -0,0 +1,70 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { AuthUser } from "@/lib/auth";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type AuditInput = {
+  sessionId: string;
+  actor: AuthUser;
+  action: string;
+  summary: Prisma.InputJsonObject;
+};
+
+// Number of proxies in front of the app that append to x-forwarded-for.
+// Unset means none: the header then comes straight from the client, who can
+// write anything in it, so no address is recorded.
+function trustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+  return Number.isInteger(hops) && hops > 0 ? hops : 0;
+}
+
+// Route handlers never see the socket address, so the client is the entry
+// the outermost trusted proxy appended: that many hops from the right.
+// Anything further left was supplied by the client.
+function clientIp(req: Request): string | null {
+  const hops = trustedProxyHops();
+  if (hops === 0) return null;
+
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded[forwarded.length - hops] ?? null;
+}
+
+export function auditEventData(
+  req: Request,
+  { sessionId, actor, action, summary }: AuditInput
+): Prisma.AuditEventUncheckedCreateInput {
+  return {
+    sessionId,
+    actorId: actor.id,
+    actorName: actor.name,
+    action,
+    summary,
+    ipAddress: clientIp(req),
+    userAgent: req.headers.get("user-agent")?.slice(0, 500) ?? null,
+  };
+}
+
+// Call with the mutation's transaction client so the event commits or rolls
+// back together with the change it describes.
+export async function recordAudit(db: Db, req: Request, input: AuditInput) {
+  await db.auditEvent.create({ data: auditEventData(req, input) });
+}
+
+// For changes no request asked for, such as a scheduled draw firing. The
+// actor name says what did the work.
+export async function recordSystemAudit(
+  db: Db,
+  {
+    sessionId,
+    actorName,
+    action,
+    summary,
+  }: Omit<AuditInput, "actor"> & { actorName: string }
+) {
+  await db.auditEvent.create({
+    data: { sessionId, actorName, action, summary },
+  });
+}
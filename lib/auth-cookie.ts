@@ -0,0 +1,3 @@
+// Kept apart from lib/auth so the proxy can read it without pulling in
+// Prisma.
+export const AUTH_COOKIE = "doorprize_auth";
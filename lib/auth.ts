@@ -0,0 +1,171 @@
+import {
+  createHash,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { AUTH_COOKIE } from "@/lib/auth-cookie";
+import { prisma } from "@/lib/prisma";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+// Ordered from least to most privileged.
+export const SESSION_ROLES = ["VIEWER", "OPERATOR", "OWNER"] as const;
+
+export type SessionRole = (typeof SESSION_ROLES)[number];
+
+const LOGIN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string;
+};
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scrypt(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, salt, expected] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const hash = await scrypt(password, salt, expectedBuffer.length);
+  return timingSafeEqual(hash, expectedBuffer);
+}
+
+// Only a hash of the cookie token is stored, so a leaked database row cannot
+// be replayed as a login.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+export async function startLogin(userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + LOGIN_TTL_MS);
+
+  await prisma.loginSession.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt },
+  });
+
+  const cookieStore = await cookies();
+  cookieStore.set(AUTH_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export async function endLogin() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_COOKIE)?.value;
+
+  if (token) {
+    await prisma.loginSession.deleteMany({
+      where: { tokenHash: hashToken(token) },
+    });
+  }
+
+  cookieStore.delete(AUTH_COOKIE);
+}
+
+export async function getCurrentUser(): Promise<AuthUser | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_COOKIE)?.value;
+  if (!token) return null;
+
+  const login = await prisma.loginSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+
+  if (!login || login.expiresAt < new Date()) return null;
+  return login.user;
+}
+
+function roleRank(role: string): number {
+  return SESSION_ROLES.indexOf(role as SessionRole);
+}
+
+type SessionAccess =
+  | { user: AuthUser; role: SessionRole; response: null }
+  | { user?: never; role?: never; response: NextResponse };
+
+type AuthorizeOptions = {
+  // Only the trash routes act on sessions that have been deleted.
+  includeTrashed?: boolean;
+};
+
+// Resolves the signed-in user's role in a session. Sessions the user cannot
+// see at all answer 404, the same as a missing one, so ids are not probeable.
+// Trashed sessions answer 404 too unless the caller opts in.
+export async function authorizeSession(
+  sessionId: string,
+  minimumRole: SessionRole,
+  { includeTrashed = false }: AuthorizeOptions = {}
+): Promise<SessionAccess> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: "Sign in to continue" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: {
+      ownerId: true,
+      deletedAt: true,
+      members: { where: { userId: user.id }, select: { role: true } },
+    },
+  });
+
+  const role =
+    session?.ownerId === user.id ? "OWNER" : session?.members[0]?.role;
+
+  if (
+    !session ||
+    (session.deletedAt && !includeTrashed) ||
+    !role ||
+    roleRank(role) < 0
+  ) {
+    return {
+      response: NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      ),
+    };
+  }
+
+  if (roleRank(role) < roleRank(minimumRole)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: `This requires the ${minimumRole.toLowerCase()} role for this session`,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user, role: role as SessionRole, response: null };
+}
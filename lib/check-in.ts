@@ -0,0 +1,199 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/lib/auth";
+import { uniqueHeaders } from "@/lib/import-file";
+import { suggestColumnMapping } from "@/lib/import-mapping";
+import { normalizeTicketCode } from "@/lib/tickets";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Whatever a badge's QR code or a scanner gun produces: the printed ticket
+// code, the contestant id, their employee ID or their ticket number.
+export async function findContestantsByCode(
+  db: Db,
+  sessionId: string,
+  code: string
+) {
+  return db.contestant.findMany({
+    where: {
+      sessionId,
+      OR: [
+        { ticketCode: normalizeTicketCode(code) },
+        { id: code },
+        { externalId: { equals: code, mode: "insensitive" } },
+        { ticketNumber: { equals: code, mode: "insensitive" } },
+      ],
+    },
+    include: { winner: true },
+    // Two is enough to tell an exact hit from an ambiguous one.
+    take: 2,
+  });
+}
+
+// Checking in twice keeps the first time, which is the one that matters if
+// arrival is ever disputed. Returns false when nothing changed.
+export async function markCheckedIn(
+  tx: Prisma.TransactionClient,
+  req: Request,
+  {
+    sessionId,
+    contestant,
+    actor,
+    checkedIn,
+  }: {
+    sessionId: string;
+    contestant: { id: string; name: string };
+    actor: AuthUser;
+    checkedIn: boolean;
+  }
+): Promise<boolean> {
+  const { count } = await tx.contestant.updateMany({
+    where: checkedIn
+      ? { id: contestant.id, sessionId, checkedInAt: null }
+      : { id: contestant.id, sessionId, checkedInAt: { not: null } },
+    data: checkedIn
+      ? { checkedInAt: new Date(), checkedInBy: actor.name }
+      : { checkedInAt: null, checkedInBy: null },
+  });
+
+  if (count === 0) return false;
+
+  await recordAudit(tx, req, {
+    sessionId,
+    actor,
+    action: checkedIn ? "contestant.checkIn" : "contestant.checkOut",
+    summary: { contestantId: contestant.id, name: contestant.name },
+  });
+
+  return true;
+}
+
+// The two columns an attendance list is matched on. Either one is enough:
+// badge scanners often export nothing but the ID.
+export type AttendanceMapping = {
+  name: string | null;
+  externalId: string | null;
+};
+
+export type AttendanceRow = {
+  line: number;
+  name: string;
+  externalId: string;
+};
+
+type AttendanceList = {
+  totalRows: number;
+  // True when no name or ID column was found and column 0 was read as a
+  // bare list, whose values may be either.
+  bareList: boolean;
+  rows: AttendanceRow[];
+};
+
+const attendanceMappingSchema = z
+  .object({
+    name: z.string().min(1).nullable().optional(),
+    externalId: z.string().min(1).nullable().optional(),
+  })
+  .refine((mapping) => mapping.name || mapping.externalId, {
+    message: "Choose the column that holds names or IDs",
+  });
+
+type AttendanceForm = {
+  file: File;
+  mapping: AttendanceMapping | null;
+  sheet: string | null;
+};
+
+// The bulk check-in's counterpart of readImportForm: the file, an optional
+// JSON column mapping and, for workbooks, the sheet to read.
+export async function readAttendanceForm(
+  req: Request
+): Promise<AttendanceForm | { error: string }> {
+  const formData = await req.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return { error: "No file uploaded" };
+  }
+
+  const rawSheet = formData.get("sheet");
+  const sheet =
+    typeof rawSheet === "string" && rawSheet !== "" ? rawSheet : null;
+
+  const raw = formData.get("mapping");
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { file, mapping: null, sheet };
+  }
+
+  try {
+    const parsed = attendanceMappingSchema.parse(JSON.parse(raw));
+    return {
+      file,
+      sheet,
+      mapping: {
+        name: parsed.name ?? null,
+        externalId: parsed.externalId ?? null,
+      },
+    };
+  } catch (err) {
+    return {
+      error:
+        err instanceof z.ZodError
+          ? err.issues[0]?.message || "Invalid column mapping"
+          : "Invalid column mapping",
+    };
+  }
+}
+
+// Without a mapping the columns are guessed from their headers, the same way
+// as the contestant import. A file with neither a name nor an ID column is
+// read as a bare list in column 0.
+export function extractAttendance(
+  table: string[][],
+  requested: AttendanceMapping | null
+): AttendanceList | { error: string } {
+  const headers = uniqueHeaders(table[0] ?? []);
+  const mapping = requested ?? suggestColumnMapping(headers);
+
+  if (requested) {
+    const missing = [requested.name, requested.externalId].find(
+      (column) => column !== null && !headers.includes(column)
+    );
+    if (missing !== undefined) {
+      return { error: `Column "${missing}" was not found in the file` };
+    }
+  }
+
+  const nameField =
+    mapping.name && headers.includes(mapping.name) ? mapping.name : null;
+  const idField =
+    mapping.externalId && headers.includes(mapping.externalId)
+      ? mapping.externalId
+      : null;
+
+  if (nameField || idField) {
+    const cell = (row: string[], field: string | null) =>
+      field ? row[headers.indexOf(field)] ?? "" : "";
+
+    const dataRows = table.slice(1);
+    return {
+      totalRows: dataRows.length,
+      bareList: false,
+      rows: dataRows.map((row, index) => ({
+        line: index + 2,
+        name: cell(row, nameField).trim(),
+        externalId: cell(row, idField).trim(),
+      })),
+    };
+  }
+
+  return {
+    totalRows: table.length,
+    bareList: true,
+    rows: table.map((row, index) => {
+      const value = (row[0] ?? "").trim();
+      return { line: index + 1, name: value, externalId: value };
+    }),
+  };
+}
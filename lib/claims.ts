@@ -0,0 +1,165 @@
+import type { Prisma } from "@prisma/client";
+import { recordAudit } from "@/lib/audit";
+import type { AuthUser } from "@/lib/auth";
+import { normalizeTicketCode } from "@/lib/tickets";
+
+export const CLAIM_STATUSES = ["UNCLAIMED", "CLAIMED", "EXPIRED"] as const;
+
+export type ClaimStatus = (typeof CLAIM_STATUSES)[number];
+
+export const EXPIRED_CLAIM_REASON = "Prize not claimed by the deadline";
+
+type ClaimFields = {
+  id: string;
+  createdAt: Date;
+  claimStatus: string;
+  claimedAt: Date | null;
+  claimedBy: string | null;
+  claimNote: string | null;
+};
+
+// The window starts when the contestant won, so a replacement drawn after
+// an expiry gets the full window too.
+export function claimDeadline(
+  wonAt: Date,
+  claimWindowMinutes: number | null
+): Date | null {
+  if (claimWindowMinutes === null) return null;
+  return new Date(wonAt.getTime() + claimWindowMinutes * 60_000);
+}
+
+// Unclaimed winners of live draws whose window has run out.
+export function overdueWinnerWhere(
+  sessionId: string,
+  claimWindowMinutes: number,
+  now = new Date()
+): Prisma.WinnerWhereInput {
+  return {
+    draw: { sessionId, voidedAt: null },
+    claimStatus: "UNCLAIMED",
+    createdAt: { lt: new Date(now.getTime() - claimWindowMinutes * 60_000) },
+  };
+}
+
+export function serializeClaim(
+  winner: ClaimFields,
+  claimWindowMinutes: number | null,
+  now = new Date()
+) {
+  const deadline = claimDeadline(winner.createdAt, claimWindowMinutes);
+  return {
+    winnerId: winner.id,
+    status: winner.claimStatus as ClaimStatus,
+    claimedAt: winner.claimedAt,
+    claimedBy: winner.claimedBy,
+    claimNote: winner.claimNote,
+    deadline,
+    // Past the deadline but not yet expired by an operator.
+    overdue:
+      winner.claimStatus === "UNCLAIMED" && deadline !== null && deadline < now,
+  };
+}
+
+// Name matches loosely; IDs, ticket numbers and ticket codes match exactly,
+// the way the check-in desk looks them up.
+export function claimSearchWhere(search: string): Prisma.WinnerWhereInput {
+  return {
+    contestant: {
+      OR: [
+        { name: { contains: search, mode: "insensitive" } },
+        { externalId: { equals: search, mode: "insensitive" } },
+        { ticketNumber: { equals: search, mode: "insensitive" } },
+        { ticketCode: normalizeTicketCode(search) },
+      ],
+    },
+  };
+}
+
+// Marks a prize as handed over, or reopens the claim after a mistake or an
+// extended deadline. Returns false when the winner was not in the expected
+// state, e.g. a second desk got there first.
+export async function setClaimed(
+  tx: Prisma.TransactionClient,
+  req: Request,
+  {
+    sessionId,
+    winner,
+    actor,
+    claimed,
+    note,
+  }: {
+    sessionId: string;
+    winner: { id: string; contestant: { id: string; name: string } };
+    actor: AuthUser;
+    claimed: boolean;
+    note?: string | null;
+  }
+): Promise<boolean> {
+  const { count } = await tx.winner.updateMany({
+    where: claimed
+      ? { id: winner.id, claimStatus: "UNCLAIMED" }
+      : { id: winner.id, claimStatus: { in: ["CLAIMED", "EXPIRED"] } },
+    data: claimed
+      ? {
+          claimStatus: "CLAIMED",
+          claimedAt: new Date(),
+          claimedBy: actor.name,
+          claimNote: note ?? null,
+        }
+      : {
+          claimStatus: "UNCLAIMED",
+          claimedAt: null,
+          claimedBy: null,
+          claimNote: null,
+        },
+  });
+
+  if (count === 0) return false;
+
+  await recordAudit(tx, req, {
+    sessionId,
+    actor,
+    action: claimed ? "winner.claim" : "winner.unclaim",
+    summary: {
+      winnerId: winner.id,
+      contestantId: winner.contestant.id,
+      name: winner.contestant.name,
+      ...(claimed && note ? { note } : {}),
+    },
+  });
+
+  return true;
+}
+
+export const claimWinnerInclude = {
+  contestant: {
+    select: {
+      id: true,
+      name: true,
+      externalId: true,
+      department: true,
+      ticketNumber: true,
+    },
+  },
+  draw: { select: { id: true, prize: { select: { id: true, name: true } } } },
+} satisfies Prisma.WinnerInclude;
+
+type ClaimWinner = Prisma.WinnerGetPayload<{
+  include: typeof claimWinnerInclude;
+}>;
+
+// One row on the claim desk.
+export function serializeClaimWinner(
+  winner: ClaimWinner,
+  claimWindowMinutes: number | null,
+  now = new Date()
+) {
+  return {
+    ...serializeClaim(winner, claimWindowMinutes, now),
+    drawId: winner.draw.id,
+    prize: winner.draw.prize,
+    prizeName: winner.prizeName,
+    wonAt: winner.createdAt,
+    contestant: winner.contestant,
+  };
+}
@@ -0,0 +1,282 @@
+import type { PrismaClient } from "@prisma/client";
+import { describe, expect, it } from "vitest";
+import { analyzeImport, type ImportAnalysis } from "@/lib/contestant-import";
+import type { ImportMode } from "@/lib/import-mapping";
+
+type Existing = {
+  id: string;
+  name: string;
+  externalId?: string | null;
+  email?: string | null;
+  tickets?: number;
+  categories?: string[];
+  withdrawn?: boolean;
+  winner?: boolean;
+  forfeits?: number;
+};
+
+// analyzeImport only reads the session's contestants, so a stand-in for
+// that one query is all the database it needs.
+function fakeDb(existing: Existing[]) {
+  const contestants = existing.map((contestant) => ({
+    id: contestant.id,
+    name: contestant.name,
+    externalId: contestant.externalId ?? null,
+    email: contestant.email ?? null,
+    phone: null,
+    department: null,
+    ticketNumber: null,
+    tickets: contestant.tickets ?? 1,
+    categories: contestant.categories ?? [],
+    withdrawnAt: contestant.withdrawn ? new Date() : null,
+    winner: contestant.winner ? { id: `winner-${contestant.id}` } : null,
+    _count: {
+      forfeits: contestant.forfeits ?? 0,
+      replacedForfeits: 0,
+      voidedWins: 0,
+    },
+  }));
+  return {
+    contestant: { findMany: async () => contestants },
+  } as unknown as PrismaClient;
+}
+
+async function analyze(
+  table: string[][],
+  mode: ImportMode = "append",
+  existing: Existing[] = []
+): Promise<ImportAnalysis> {
+  const result = await analyzeImport(
+    fakeDb(existing),
+    "session",
+    table,
+    null,
+    mode
+  );
+  if ("error" in result) throw new Error(result.error);
+  return result;
+}
+
+describe("analyzeImport", () => {
+  it("reads a file without a name header as a bare list of names", async () => {
+    const result = await analyze([["Alice"], ["Bob"], [""]]);
+    expect(result.totalRows).toBe(3);
+    expect(result.entries.map((entry) => entry.name)).toEqual(["Alice", "Bob"]);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it("rejects bad rows with their file line", async () => {
+    const result = await analyze([
+      ["Name", "Email", "Tickets"],
+      ["Alice", "alice@example.com", "2"],
+      ["", "someone@example.com", ""],
+      ["Bob", "", "zero"],
+      ["Bea", "", "10001"],
+      ["Carol", "not-an-email", ""],
+      ["alice", "", ""],
+      ["", "", ""],
+    ]);
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]).toMatchObject({
+      name: "Alice",
+      email: "alice@example.com",
+      tickets: 2,
+    });
+    expect(
+      result.rejected.map(({ line, reason }) => ({ line, reason }))
+    ).toEqual([
+      { line: 3, reason: "Missing name" },
+      { line: 4, reason: "Tickets must be a whole number from 1 to 10000" },
+      { line: 5, reason: "Tickets must be a whole number from 1 to 10000" },
+      { line: 6, reason: "Invalid email address" },
+      { line: 7, reason: "Duplicate of an earlier row in this file" },
+    ]);
+    expect(result.skippedInvalidTickets).toBe(2);
+    expect(result.skippedInvalidEmails).toBe(1);
+    expect(result.skippedDuplicatesInFile).toBe(1);
+  });
+
+  it("tells people with the same name apart by their ID", async () => {
+    const result = await analyze([
+      ["Name", "Employee ID"],
+      ["Sam Lee", "E1"],
+      ["Sam Lee", "E2"],
+      ["Other Name", "e1"],
+    ]);
+    expect(result.entries.map((entry) => entry.externalId)).toEqual([
+      "E1",
+      "E2",
+    ]);
+    expect(result.rejected.map((row) => row.line)).toEqual([4]);
+  });
+
+  it("skips people already in the session when appending", async () => {
+    const result = await analyze([["Name"], ["Alice"], ["Dan"]], "append", [
+      { id: "c1", name: "ALICE" },
+    ]);
+    expect(result.entries.map((entry) => entry.name)).toEqual(["Dan"]);
+    expect(result.skippedDuplicatesInDb).toBe(1);
+    expect(result.rejected[0].reason).toBe("Already in this session");
+    expect(result.updates).toEqual([]);
+  });
+
+  it("merges mapped columns without wiping details left blank", async () => {
+    const result = await analyze(
+      [
+        ["Name", "Employee ID", "Email", "Tickets"],
+        ["Alice Smith", "E1", "", "3"],
+        ["Bob", "E2", "bob@example.com", ""],
+        ["Carol", "E3", "new@example.com", "5"],
+        ["Dan", "E4", "", ""],
+      ],
+      "merge",
+      [
+        { id: "c1", name: "Alice", externalId: "E1", email: "a@example.com" },
+        { id: "c2", name: "Bob", externalId: "E2", email: "bob@example.com" },
+        { id: "c3", name: "Carol", externalId: "E3", winner: true },
+      ]
+    );
+
+    expect(result.updates).toEqual([
+      { id: "c1", data: { name: "Alice Smith", tickets: 3 } },
+    ]);
+    // Bob is unchanged and Carol has won, so her row is left alone.
+    expect(result.unchanged).toBe(2);
+    expect(result.entries.map((entry) => entry.name)).toEqual(["Dan"]);
+    expect(result.withdrawIds).toEqual([]);
+  });
+
+  it("withdraws people missing from a sync and restores returning ones", async () => {
+    const result = await analyze([["Name"], ["Alice"], ["Bob"]], "sync", [
+      { id: "c1", name: "Alice" },
+      { id: "c2", name: "Bob", withdrawn: true },
+      { id: "c3", name: "Carol" },
+      { id: "c4", name: "Dan", winner: true },
+      { id: "c5", name: "Erin", withdrawn: true },
+    ]);
+
+    expect(result.updates).toEqual([{ id: "c2", data: { withdrawnAt: null } }]);
+    expect(result.restored).toBe(1);
+    expect(result.unchanged).toBe(1);
+    // Winners stay, and anyone already withdrawn is not counted again.
+    expect(result.withdrawIds).toEqual(["c3"]);
+  });
+
+  it("keeps people whose rows were rejected in a sync", async () => {
+    const result = await analyze(
+      [
+        ["Name", "Email", "Tickets"],
+        ["Alice", "", ""],
+        ["Bob", "not-an-email", ""],
+        ["Carol", "", "0"],
+      ],
+      "sync",
+      [
+        { id: "c1", name: "Alice" },
+        { id: "c2", name: "Bob" },
+        { id: "c3", name: "Carol" },
+        { id: "c4", name: "Dan" },
+      ]
+    );
+
+    expect(result.acceptedRows).toBe(1);
+    expect(result.rejected).toHaveLength(2);
+    expect(result.withdrawIds).toEqual(["c4"]);
+  });
+
+  it("gives people imported without an ID the one the file adds", async () => {
+    const result = await analyze(
+      [
+        ["Name", "Employee ID"],
+        ["Alice", "E1"],
+        ["Bob", "E2"],
+      ],
+      "sync",
+      [
+        { id: "c1", name: "Alice" },
+        { id: "c2", name: "Bob" },
+      ]
+    );
+
+    expect(result.entries).toEqual([]);
+    expect(result.updates).toEqual([
+      { id: "c1", data: { externalId: "E1" } },
+      { id: "c2", data: { externalId: "E2" } },
+    ]);
+    expect(result.withdrawIds).toEqual([]);
+  });
+
+  it("matches a name without an ID to one person only", async () => {
+    const result = await analyze(
+      [
+        ["Name", "Employee ID"],
+        ["Sam Lee", "E1"],
+        ["Sam Lee", "E2"],
+      ],
+      "merge",
+      [{ id: "c1", name: "Sam Lee" }]
+    );
+
+    expect(result.updates).toEqual([{ id: "c1", data: { externalId: "E1" } }]);
+    expect(result.entries.map((entry) => entry.externalId)).toEqual(["E2"]);
+  });
+
+  it("replaces everyone except people on a draw's record", async () => {
+    const result = await analyze([["Name"], ["Alice"], ["Carol"]], "replace", [
+      { id: "c1", name: "Alice" },
+      { id: "c2", name: "Bob", winner: true },
+      { id: "c3", name: "Carol", forfeits: 1 },
+    ]);
+
+    expect(result.removeIds).toEqual(["c1"]);
+    expect(result.kept).toBe(2);
+    // Alice is removed and re-added; Carol has to stay, so her row is a
+    // duplicate of someone already there.
+    expect(result.entries.map((entry) => entry.name)).toEqual(["Alice"]);
+    expect(result.rejected.map((row) => row.reason)).toEqual([
+      "Already in this session",
+    ]);
+  });
+
+  it("does not remove someone whose row was rejected in a replace", async () => {
+    const result = await analyze(
+      [
+        ["Name", "Tickets"],
+        ["Alice", ""],
+        ["Bob", "lots"],
+      ],
+      "replace",
+      [
+        { id: "c1", name: "Alice" },
+        { id: "c2", name: "Bob" },
+      ]
+    );
+
+    expect(result.removeIds).toEqual(["c1"]);
+    expect(result.kept).toBe(1);
+    expect(result.entries.map((entry) => entry.name)).toEqual(["Alice"]);
+  });
+
+  it("reports a mapped column that is not in the file", async () => {
+    const result = await analyzeImport(
+      fakeDb([]),
+      "session",
+      [["Name"], ["Alice"]],
+      {
+        name: "Name",
+        externalId: "Staff ID",
+        email: null,
+        phone: null,
+        department: null,
+        ticketNumber: null,
+        tickets: null,
+        categories: [],
+      },
+      "append"
+    );
+    expect(result).toEqual({
+      error: 'Column "Staff ID" was not found in the file',
+    });
+  });
+});
@@ -0,0 +1,543 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import {
+  EMAIL_PATTERN,
+  MAX_TICKETS,
+  identityKey,
+  type ContestantIdentity,
+} from "@/lib/contestants";
+import { normalizeCategories } from "@/lib/eligibility";
+import { type RejectedRow, uniqueHeaders } from "@/lib/import-file";
+import {
+  IMPORT_FIELDS,
+  IMPORT_MODES,
+  suggestColumnMapping,
+  type ColumnMapping,
+  type ImportMode,
+} from "@/lib/import-mapping";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type ImportEntry = {
+  name: string;
+  externalId: string | null;
+  email: string | null;
+  phone: string | null;
+  department: string | null;
+  ticketNumber: string | null;
+  tickets: number;
+  categories: string[];
+};
+
+type RawFields = Record<(typeof IMPORT_FIELDS)[number], string> & {
+  categories: string[];
+};
+
+type ParsedRow = {
+  // 1-based line in the file, so HR can find the row in their spreadsheet.
+  line: number;
+  cells: string[];
+  fields: RawFields;
+};
+
+type ExtractedRows = {
+  headers: string[];
+  mapping: ColumnMapping;
+  totalRows: number;
+  rows: ParsedRow[];
+};
+
+export type ContestantUpdate = {
+  id: string;
+  data: Prisma.ContestantUpdateManyMutationInput;
+};
+
+export type ImportAnalysis = {
+  mode: ImportMode;
+  headers: string[];
+  mapping: ColumnMapping;
+  totalRows: number;
+  validNames: number;
+  // Rows that passed every check, whether new, updated or unchanged.
+  acceptedRows: number;
+  entries: ImportEntry[];
+  // Merge and sync only: changes to people already in the session.
+  updates: ContestantUpdate[];
+  unchanged: number;
+  restored: number;
+  // Sync only: people missing from the file.
+  withdrawIds: string[];
+  // Replace only: everyone who never took part in a draw.
+  removeIds: string[];
+  kept: number;
+  rejected: RejectedRow[];
+  skippedInvalidTickets: number;
+  skippedInvalidEmails: number;
+  skippedDuplicatesInFile: number;
+  skippedDuplicatesInDb: number;
+};
+
+const optionalColumn = z.string().min(1).nullable().optional();
+
+const mappingSchema = z.object({
+  name: z.string().min(1, "Choose the column that holds names"),
+  externalId: optionalColumn,
+  email: optionalColumn,
+  phone: optionalColumn,
+  department: optionalColumn,
+  ticketNumber: optionalColumn,
+  tickets: optionalColumn,
+  categories: z.array(z.string()).default([]),
+});
+
+type ImportForm = {
+  file: File;
+  mapping: ColumnMapping | null;
+  sheet: string | null;
+  mode: ImportMode;
+};
+
+// Reads the multipart body shared by the preview, rejected-rows and import
+// routes: the file itself, an optional JSON column mapping, the import mode
+// and, for workbooks, the sheet to read.
+export async function readImportForm(
+  req: Request
+): Promise<ImportForm | { error: string }> {
+  const formData = await req.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return { error: "No file uploaded" };
+  }
+
+  const rawSheet = formData.get("sheet");
+  const sheet =
+    typeof rawSheet === "string" && rawSheet !== "" ? rawSheet : null;
+
+  const rawMode = formData.get("mode") ?? "append";
+  const mode = IMPORT_MODES.find((candidate) => candidate === rawMode);
+  if (!mode) {
+    return { error: `mode must be one of ${IMPORT_MODES.join(", ")}` };
+  }
+
+  const raw = formData.get("mapping");
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { file, mapping: null, sheet, mode };
+  }
+
+  try {
+    const parsed = mappingSchema.parse(JSON.parse(raw));
+    return {
+      file,
+      sheet,
+      mode,
+      mapping: {
+        name: parsed.name,
+        externalId: parsed.externalId ?? null,
+        email: parsed.email ?? null,
+        phone: parsed.phone ?? null,
+        department: parsed.department ?? null,
+        ticketNumber: parsed.ticketNumber ?? null,
+        tickets: parsed.tickets ?? null,
+        categories: parsed.categories,
+      },
+    };
+  } catch (err) {
+    return {
+      error:
+        err instanceof z.ZodError
+          ? err.issues[0]?.message || "Invalid column mapping"
+          : "Invalid column mapping",
+    };
+  }
+}
+
+// Without a mapping the columns are guessed from their headers. A file with
+// no recognisable name column is read as a bare list of names in column 0.
+export function extractNames(
+  table: string[][],
+  requested: ColumnMapping | null
+): ExtractedRows | { error: string } {
+  const headers = uniqueHeaders(table[0] ?? []);
+  const mapping = requested ?? suggestColumnMapping(headers);
+
+  if (requested) {
+    const missing = [
+      ...IMPORT_FIELDS.map((field) => requested[field]),
+      ...requested.categories,
+    ].find((column) => column !== null && !headers.includes(column));
+    if (missing !== undefined) {
+      return { error: `Column "${missing}" was not found in the file` };
+    }
+  }
+
+  const nameField = mapping.name;
+
+  if (nameField && headers.includes(nameField)) {
+    const cell = (row: string[], field: string | null) =>
+      field ? row[headers.indexOf(field)] ?? "" : "";
+
+    const dataRows = table.slice(1);
+    const rows: ParsedRow[] = dataRows.map((row, index) => ({
+      line: index + 2,
+      cells: headers.map((_, column) => row[column] ?? ""),
+      fields: {
+        name: cell(row, nameField),
+        externalId: cell(row, mapping.externalId),
+        email: cell(row, mapping.email),
+        phone: cell(row, mapping.phone),
+        department: cell(row, mapping.department),
+        ticketNumber: cell(row, mapping.ticketNumber),
+        tickets: cell(row, mapping.tickets),
+        categories: mapping.categories.map((field) => cell(row, field)),
+      },
+    }));
+    return { headers, mapping, totalRows: dataRows.length, rows };
+  }
+
+  const rows: ParsedRow[] = table.map((row, index) => ({
+    line: index + 1,
+    cells: row,
+    fields: {
+      name: row[0] ?? "",
+      externalId: "",
+      email: "",
+      phone: "",
+      department: "",
+      ticketNumber: "",
+      tickets: "",
+      categories: [],
+    },
+  }));
+
+  return {
+    headers: [],
+    mapping: suggestColumnMapping([]),
+    totalRows: table.length,
+    rows,
+  };
+}
+
+// Missing tickets mean a single chance; anything else must be a whole number
+// from 1 to MAX_TICKETS or the row is rejected.
+function parseTickets(raw: string | undefined): number | null {
+  const value = typeof raw === "string" ? raw.trim() : "";
+  if (value === "") return 1;
+  const tickets = Number(value);
+  return Number.isInteger(tickets) && tickets >= 1 && tickets <= MAX_TICKETS
+    ? tickets
+    : null;
+}
+
+function optionalValue(raw: string, max: number): string | null {
+  return raw.trim().slice(0, max) || null;
+}
+
+type ExistingContestant = {
+  id: string;
+  name: string;
+  externalId: string | null;
+  email: string | null;
+  phone: string | null;
+  department: string | null;
+  ticketNumber: string | null;
+  tickets: number;
+  categories: string[];
+  withdrawnAt: Date | null;
+  winner: { id: string } | null;
+  _count: { forfeits: number; replacedForfeits: number; voidedWins: number };
+};
+
+// Anyone on a draw's record has to stay for verification, the same rule the
+// contestant delete endpoint applies.
+export const REMOVABLE_CONTESTANT_WHERE = {
+  winner: null,
+  forfeits: { none: {} },
+  replacedForfeits: { none: {} },
+  voidedWins: { none: {} },
+} satisfies Prisma.ContestantWhereInput;
+
+function isRemovable(contestant: ExistingContestant) {
+  return (
+    !contestant.winner &&
+    contestant._count.forfeits === 0 &&
+    contestant._count.replacedForfeits === 0 &&
+    contestant._count.voidedWins === 0
+  );
+}
+
+function sameCategories(a: string[], b: string[]) {
+  return a.length === b.length && a.every((value) => b.includes(value));
+}
+
+// What a merge changes on an existing contestant. Only mapped columns are
+// looked at, and a blank cell leaves the current value alone, so a partial
+// spreadsheet cannot wipe details entered earlier.
+function mergeChanges(
+  current: ExistingContestant,
+  row: ParsedRow,
+  entry: ImportEntry,
+  mapping: ColumnMapping
+): Prisma.ContestantUpdateManyMutationInput {
+  const data: Prisma.ContestantUpdateManyMutationInput = {};
+
+  if (entry.name !== current.name) data.name = entry.name;
+  // Someone matched by name picks up the ID the file now has for them.
+  if (entry.externalId && !current.externalId) {
+    data.externalId = entry.externalId;
+  }
+
+  for (const field of [
+    "email",
+    "phone",
+    "department",
+    "ticketNumber",
+  ] as const) {
+    const value = entry[field];
+    if (mapping[field] && value !== null && value !== current[field]) {
+      data[field] = value;
+    }
+  }
+
+  if (
+    mapping.tickets &&
+    row.fields.tickets.trim() !== "" &&
+    entry.tickets !== current.tickets
+  ) {
+    data.tickets = entry.tickets;
+  }
+
+  if (
+    entry.categories.length > 0 &&
+    !sameCategories(entry.categories, current.categories)
+  ) {
+    data.categories = entry.categories;
+  }
+
+  return data;
+}
+
+// Finds the existing contestant a row refers to. People imported before the
+// file had an ID column are only known by name, so a row with an ID falls
+// back to the one same-named contestant without one. Each of those is
+// matched once, so two rows cannot both claim them.
+function identityLookup(contestants: ExistingContestant[]) {
+  const byKey = new Map(
+    contestants.map((contestant) => [identityKey(contestant), contestant])
+  );
+  const withoutId = new Map<string, ExistingContestant[]>();
+  for (const contestant of contestants) {
+    if (contestant.externalId) continue;
+    const key = contestant.name.toLowerCase();
+    withoutId.set(key, [...(withoutId.get(key) ?? []), contestant]);
+  }
+  const claimed = new Set<string>();
+
+  return (identity: ContestantIdentity) => {
+    const sameName = withoutId.get(identity.name.toLowerCase()) ?? [];
+    const match =
+      byKey.get(identityKey(identity)) ??
+      (identity.externalId && sameName.length === 1 ? sameName[0] : undefined);
+    if (!match || match.externalId) return match;
+    if (claimed.has(match.id)) return undefined;
+    claimed.add(match.id);
+    return match;
+  };
+}
+
+// Runs every check the import applies without writing anything, so the
+// preview and the real import can never disagree about a row.
+export async function analyzeImport(
+  db: Db,
+  sessionId: string,
+  table: string[][],
+  requested: ColumnMapping | null,
+  mode: ImportMode
+): Promise<ImportAnalysis | { error: string }> {
+  const extracted = extractNames(table, requested);
+  if ("error" in extracted) return extracted;
+
+  const { headers, mapping, totalRows, rows } = extracted;
+  const rejected: RejectedRow[] = [];
+  const reject = (row: ParsedRow, reason: string) =>
+    rejected.push({ line: row.line, cells: row.cells, reason });
+
+  let validNames = 0;
+  let skippedInvalidTickets = 0;
+  let skippedInvalidEmails = 0;
+  let skippedDuplicatesInFile = 0;
+  const candidates: { row: ParsedRow; entry: ImportEntry }[] = [];
+  const seenKeys = new Set<string>();
+  // Rejected rows still name someone who is on the list.
+  const rejectedIdentities: ContestantIdentity[] = [];
+
+  for (const row of rows) {
+    const name = row.fields.name.trim();
+
+    if (!name) {
+      // Blank lines are noise; a row with data but no name is a mistake.
+      if (row.cells.some((value) => value.trim() !== "")) {
+        reject(row, "Missing name");
+      }
+      continue;
+    }
+
+    validNames += 1;
+
+    const externalId = optionalValue(row.fields.externalId, 100);
+
+    const tickets = parseTickets(row.fields.tickets);
+    if (tickets === null) {
+      rejectedIdentities.push({ name, externalId });
+      skippedInvalidTickets += 1;
+      reject(row, `Tickets must be a whole number from 1 to ${MAX_TICKETS}`);
+      continue;
+    }
+
+    const email = optionalValue(row.fields.email, 200);
+    if (email && !EMAIL_PATTERN.test(email)) {
+      rejectedIdentities.push({ name, externalId });
+      skippedInvalidEmails += 1;
+      reject(row, "Invalid email address");
+      continue;
+    }
+
+    const entry: ImportEntry = {
+      name,
+      externalId,
+      email,
+      phone: optionalValue(row.fields.phone, 50),
+      department: optionalValue(row.fields.department, 100),
+      ticketNumber: optionalValue(row.fields.ticketNumber, 50),
+      tickets,
+      categories: normalizeCategories(row.fields.categories),
+    };
+
+    const key = identityKey(entry);
+    if (seenKeys.has(key)) {
+      skippedDuplicatesInFile += 1;
+      reject(row, "Duplicate of an earlier row in this file");
+      continue;
+    }
+    seenKeys.add(key);
+    candidates.push({ row, entry });
+  }
+
+  const existingContestants: ExistingContestant[] =
+    await db.contestant.findMany({
+      where: { sessionId },
+      select: {
+        id: true,
+        name: true,
+        externalId: true,
+        email: true,
+        phone: true,
+        department: true,
+        ticketNumber: true,
+        tickets: true,
+        categories: true,
+        withdrawnAt: true,
+        winner: { select: { id: true } },
+        _count: {
+          select: { forfeits: true, replacedForfeits: true, voidedWins: true },
+        },
+      },
+    });
+
+  // Anyone a rejected row refers to is still in the file: a sync must not
+  // withdraw them and a replace must not remove them. Someone who also has
+  // an accepted row is matched through that row instead.
+  const findPresent = identityLookup(existingContestants);
+  const presentIds = new Set(
+    rejectedIdentities
+      .filter((identity) => !seenKeys.has(identityKey(identity)))
+      .flatMap((identity) => findPresent(identity)?.id ?? [])
+  );
+  const isPresent = (c: ExistingContestant) => presentIds.has(c.id);
+
+  // A replace clears the way first, so the file is only compared against
+  // the people who have to stay.
+  const removeIds =
+    mode === "replace"
+      ? existingContestants
+          .filter((c) => isRemovable(c) && !isPresent(c))
+          .map((c) => c.id)
+      : [];
+  const remaining =
+    mode === "replace"
+      ? existingContestants.filter((c) => !isRemovable(c) || isPresent(c))
+      : existingContestants;
+
+  const findExisting = identityLookup(remaining);
+  const matchedIds = new Set<string>(presentIds);
+  const entries: ImportEntry[] = [];
+  const updates: ContestantUpdate[] = [];
+  let unchanged = 0;
+  let restored = 0;
+  let skippedDuplicatesInDb = 0;
+
+  for (const { row, entry } of candidates) {
+    const current = findExisting(entry);
+
+    if (!current) {
+      entries.push(entry);
+      continue;
+    }
+
+    if (mode !== "merge" && mode !== "sync") {
+      skippedDuplicatesInDb += 1;
+      reject(row, "Already in this session");
+      continue;
+    }
+
+    matchedIds.add(current.id);
+
+    // Winners are frozen, the same as in the contestant editor.
+    if (current.winner) {
+      unchanged += 1;
+      continue;
+    }
+
+    const data = mergeChanges(current, row, entry, mapping);
+    if (mode === "sync" && current.withdrawnAt) {
+      data.withdrawnAt = null;
+      restored += 1;
+    }
+
+    if (Object.keys(data).length === 0) {
+      unchanged += 1;
+    } else {
+      updates.push({ id: current.id, data });
+    }
+  }
+
+  const withdrawIds =
+    mode === "sync"
+      ? existingContestants
+          .filter((c) => !matchedIds.has(c.id) && !c.winner && !c.withdrawnAt)
+          .map((c) => c.id)
+      : [];
+
+  rejected.sort((a, b) => a.line - b.line);
+
+  return {
+    mode,
+    headers,
+    mapping,
+    totalRows,
+    validNames,
+    acceptedRows: candidates.length,
+    entries,
+    updates,
+    unchanged,
+    restored,
+    withdrawIds,
+    removeIds,
+    kept: mode === "replace" ? remaining.length : 0,
+    rejected,
+    skippedInvalidTickets,
+    skippedInvalidEmails,
+    skippedDuplicatesInFile,
+    skippedDuplicatesInDb,
+  };
+}
@@ -0,0 +1,10 @@
+type Labelled = {
+  name: string;
+  externalId?: string | null;
+};
+
+// "Name (ID)" wherever a winner is announced or reported, so the prize goes
+// to the right one of two people with the same name.
+export function contestantLabel({ name, externalId }: Labelled): string {
+  return externalId ? `${name} (${externalId})` : name;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_TICKETS,
+  contestantCreateSchema,
+  contestantUpdateSchema,
+} from "@/lib/contestants";
+
+describe("contestant tickets", () => {
+  it("accepts up to the cap", () => {
+    expect(
+      contestantCreateSchema.parse({ name: "Alice", tickets: MAX_TICKETS })
+        .tickets
+    ).toBe(MAX_TICKETS);
+  });
+
+  it("rejects more than the cap on create and update", () => {
+    expect(
+      contestantCreateSchema.safeParse({
+        name: "Alice",
+        tickets: MAX_TICKETS + 1,
+      }).success
+    ).toBe(false);
+    expect(contestantUpdateSchema.safeParse({ tickets: 2 ** 31 }).success).toBe(
+      false
+    );
+  });
+});
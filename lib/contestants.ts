@@ -0,0 +1,150 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { normalizeCategories } from "@/lib/eligibility";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const name = z
+  .string()
+  .trim()
+  .min(1, "name is required")
+  .max(200, "name must be 200 characters or less");
+
+// Keeps a pool's ticket total well inside the draw's 32-bit random range
+// and the INT column.
+export const MAX_TICKETS = 10000;
+
+const tickets = z.coerce
+  .number()
+  .int("tickets must be a whole number")
+  .min(1, "tickets must be at least 1")
+  .max(MAX_TICKETS, `tickets must be ${MAX_TICKETS} or less`);
+
+// Same tag rules as the CSV import: comma separated, lowercased, deduped.
+const categories = z
+  .union([z.string(), z.array(z.string())], {
+    error: "categories must be a list or a comma separated string",
+  })
+  .transform((raw) => normalizeCategories(raw));
+
+// Deliberately loose: it catches typos like a missing @, nothing more.
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+// Blank strings clear a detail; undefined leaves it untouched on update.
+function optionalText(field: string, max: number) {
+  return z
+    .string()
+    .trim()
+    .max(max, `${field} must be ${max} characters or less`)
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null));
+}
+
+const details = {
+  externalId: optionalText("externalId", 100),
+  email: optionalText("email", 200).refine(
+    (value) => !value || EMAIL_PATTERN.test(value),
+    "email must be a valid address"
+  ),
+  phone: optionalText("phone", 50),
+  department: optionalText("department", 100),
+  ticketNumber: optionalText("ticketNumber", 50),
+};
+
+export const contestantCreateSchema = z.object({
+  name,
+  tickets: tickets.default(1),
+  categories: categories.default([]),
+  ...details,
+});
+
+export const contestantUpdateSchema = z.object({
+  name: name.optional(),
+  tickets: tickets.optional(),
+  categories: categories.optional(),
+  withdrawn: z.boolean().optional(),
+  ...details,
+});
+
+export const DUPLICATE_CONTESTANT_MESSAGE =
+  "A contestant with this ID, or this name and no ID, already exists";
+
+export type ContestantIdentity = {
+  name: string;
+  externalId: string | null;
+};
+
+// People with an external ID are told apart by it alone; everyone else falls
+// back to their name, compared case-insensitively.
+export function identityKey({ name, externalId }: ContestantIdentity): string {
+  return externalId
+    ? `id:${externalId.toLowerCase()}`
+    : `name:${name.toLowerCase()}`;
+}
+
+export async function findIdentityClash(
+  db: Db,
+  sessionId: string,
+  { name, externalId }: ContestantIdentity,
+  exceptId?: string
+) {
+  return db.contestant.findFirst({
+    where: {
+      sessionId,
+      ...(externalId
+        ? { externalId: { equals: externalId, mode: "insensitive" } }
+        : { externalId: null, name: { equals: name, mode: "insensitive" } }),
+      ...(exceptId ? { NOT: { id: exceptId } } : {}),
+    },
+    select: { id: true },
+  });
+}
+
+type SerializableContestant = {
+  id: string;
+  name: string;
+  externalId: string | null;
+  email: string | null;
+  phone: string | null;
+  department: string | null;
+  ticketNumber: string | null;
+  tickets: number;
+  categories: string[];
+  withdrawnAt: Date | null;
+  checkedInAt: Date | null;
+  checkedInBy: string | null;
+  winner?: { prizeName: string } | null;
+};
+
+// Shape returned by every contestant endpoint. The ticket code is left out:
+// it is what a winner shows to collect their prize, so viewers never see it.
+export function serializeContestant(contestant: SerializableContestant) {
+  return {
+    id: contestant.id,
+    name: contestant.name,
+    externalId: contestant.externalId,
+    email: contestant.email,
+    phone: contestant.phone,
+    department: contestant.department,
+    ticketNumber: contestant.ticketNumber,
+    tickets: contestant.tickets,
+    categories: contestant.categories,
+    withdrawn: contestant.withdrawnAt !== null,
+    checkedInAt: contestant.checkedInAt,
+    checkedInBy: contestant.checkedInBy,
+    hasPrize: Boolean(contestant.winner),
+    prizeName: contestant.winner?.prizeName ?? null,
+  };
+}
+
+// For operator-only endpoints, such as the check-in desk, that may show the
+// ticket code.
+export function serializeContestantWithTicket(
+  contestant: SerializableContestant & { ticketCode: string | null }
+) {
+  return {
+    ...serializeContestant(contestant),
+    ticketCode: contestant.ticketCode,
+  };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  deriveDrawSeed,
+  hashEligibleList,
+  hashWeightedEligibleList,
+  seededShuffle,
+  sha256Hex,
+  weightedSample,
+} from "@/lib/draw-seed";
+
+const entries = [
+  { id: "a", tickets: 1 },
+  { id: "b", tickets: 3 },
+  { id: "c", tickets: 1 },
+  { id: "d", tickets: 5 },
+  { id: "e", tickets: 2 },
+];
+
+describe("sha256Hex", () => {
+  it("matches the standard test vector", () => {
+    expect(sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("hashWeightedEligibleList", () => {
+  it("changes when a contestant's tickets change", () => {
+    const more = entries.map((entry) =>
+      entry.id === "a" ? { ...entry, tickets: 2 } : entry
+    );
+    expect(hashWeightedEligibleList(more)).not.toBe(
+      hashWeightedEligibleList(entries)
+    );
+  });
+});
+
+describe("deriveDrawSeed", () => {
+  const eligibleHash = hashWeightedEligibleList(entries);
+
+  it("binds the server seed, public entropy and eligible list", () => {
+    const seed = deriveDrawSeed("server", "crowd", eligibleHash);
+    expect(deriveDrawSeed("other", "crowd", eligibleHash)).not.toBe(seed);
+    expect(deriveDrawSeed("server", "shout", eligibleHash)).not.toBe(seed);
+    expect(deriveDrawSeed("server", "crowd", sha256Hex("x"))).not.toBe(seed);
+  });
+
+  it("treats missing public entropy as an empty string", () => {
+    expect(deriveDrawSeed("server", null, eligibleHash)).toBe(
+      deriveDrawSeed("server", "", eligibleHash)
+    );
+  });
+});
+
+describe("weightedSample", () => {
+  it("picks distinct entries and stops at the pool size", () => {
+    const picked = weightedSample(entries, 10, "seed");
+    expect(picked).toHaveLength(entries.length);
+    expect(new Set(picked.map((entry) => entry.id)).size).toBe(entries.length);
+  });
+
+  it("gives the same winners for the same seed", () => {
+    expect(weightedSample(entries, 3, "seed")).toEqual(
+      weightedSample(entries, 3, "seed")
+    );
+  });
+
+  it("favours contestants with more tickets", () => {
+    const pool = [
+      { id: "one", tickets: 1 },
+      { id: "nine", tickets: 9 },
+    ];
+    let nineFirst = 0;
+    for (let run = 0; run < 1000; run += 1) {
+      if (weightedSample(pool, 1, `seed-${run}`)[0].id === "nine") {
+        nineFirst += 1;
+      }
+    }
+    expect(nineFirst).toBeGreaterThan(850);
+    expect(nineFirst).toBeLessThan(950);
+  });
+
+  it("refuses a ticket total beyond the 32-bit random range", () => {
+    const pool = [
+      { id: "a", tickets: 2e9 },
+      { id: "b", tickets: 2e9 },
+      { id: "c", tickets: 1e9 },
+    ];
+    expect(() => weightedSample(pool, 1, "seed")).toThrow(RangeError);
+  });
+
+  // Published draws are verified by replaying them, so these must never
+  // change for the same inputs.
+  it("replays a v2 draw exactly", () => {
+    const eligibleHash = hashWeightedEligibleList(entries);
+    expect(eligibleHash).toBe(
+      "a02ac11c0615548778576d972ea33a575f53cb90ff36ad40aa00406463900ea0"
+    );
+    const seed = deriveDrawSeed("server-seed", "crowd", eligibleHash);
+    expect(seed).toBe(
+      "db0eb6ba3a5d6ff2fc7fc1fbcfa8d652ebf1b98c7d5a4d1c2cfc0a8426c125a0"
+    );
+    expect(weightedSample(entries, 3, seed).map((entry) => entry.id)).toEqual([
+      "d",
+      "e",
+      "a",
+    ]);
+  });
+});
+
+describe("seededShuffle", () => {
+  const ids = entries.map((entry) => entry.id);
+
+  it("returns a permutation and leaves the input alone", () => {
+    const shuffled = seededShuffle(ids, "seed");
+    expect([...shuffled].sort()).toEqual(ids);
+    expect(ids).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("replays a v1 draw exactly", () => {
+    expect(hashEligibleList(ids)).toBe(
+      "dbbc47f2a90b02153a78630eb0341612800f530bd3ae6dda5504e60ffbc64018"
+    );
+    const seed =
+      "db0eb6ba3a5d6ff2fc7fc1fbcfa8d652ebf1b98c7d5a4d1c2cfc0a8426c125a0";
+    expect(seededShuffle(ids, seed)).toEqual(["b", "c", "a", "d", "e"]);
+  });
+});
@@ -0,0 +1,106 @@
+import { createHash, randomBytes } from "crypto";
+
+export const DRAW_ALGORITHM = "sha256-weighted-v2";
+export const LEGACY_DRAW_ALGORITHM = "sha256-fisher-yates-v1";
+
+export type WeightedEntry = {
+  id: string;
+  tickets: number;
+};
+
+export function sha256Hex(value: string): string {
+  return createHash("sha256").update(value, "utf8").digest("hex");
+}
+
+export function generateServerSeed(): string {
+  return randomBytes(32).toString("hex");
+}
+
+export function hashEligibleList(contestantIds: string[]): string {
+  return sha256Hex(contestantIds.join("\n"));
+}
+
+export function hashWeightedEligibleList(entries: WeightedEntry[]): string {
+  return sha256Hex(entries.map((e) => `${e.id}:${e.tickets}`).join("\n"));
+}
+
+// The final seed binds the committed server secret, the MC's public entropy
+// and the exact eligible list, so none of them can be swapped after the fact.
+export function deriveDrawSeed(
+  serverSeed: string,
+  publicEntropy: string | null,
+  eligibleHash: string
+): string {
+  return sha256Hex([serverSeed, publicEntropy ?? "", eligibleHash].join(":"));
+}
+
+function createRandomInt(seed: string) {
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = () => {
+    if (offset + 4 > block.length) {
+      block = createHash("sha256").update(`${seed}:${counter}`).digest();
+      counter += 1;
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  // Rejection sampling keeps every index equally likely. Past 2^32 the
+  // limit would be 0 and no value could ever be accepted.
+  return (maxExclusive: number) => {
+    if (!Number.isInteger(maxExclusive) || maxExclusive < 1) {
+      throw new RangeError("Random range must be a positive whole number");
+    }
+    if (maxExclusive > 0x100000000) {
+      throw new RangeError("Random range cannot exceed 2^32");
+    }
+    const limit = Math.floor(0x100000000 / maxExclusive) * maxExclusive;
+    let value = nextUint32();
+    while (value >= limit) {
+      value = nextUint32();
+    }
+    return value % maxExclusive;
+  };
+}
+
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const randomInt = createRandomInt(seed);
+  const arr = [...items];
+  for (let i = arr.length - 1; i > 0; i -= 1) {
+    const j = randomInt(i + 1);
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+// Picks `count` entries without replacement, each pick proportional to the
+// remaining entries' tickets. Integer-only so a replay is bit-for-bit exact.
+export function weightedSample<T extends WeightedEntry>(
+  items: T[],
+  count: number,
+  seed: string
+): T[] {
+  const randomInt = createRandomInt(seed);
+  const pool = [...items];
+  const picked: T[] = [];
+  let totalTickets = pool.reduce((sum, item) => sum + item.tickets, 0);
+
+  while (picked.length < count && pool.length > 0 && totalTickets > 0) {
+    let ticket = randomInt(totalTickets);
+    let index = 0;
+    while (ticket >= pool[index].tickets) {
+      ticket -= pool[index].tickets;
+      index += 1;
+    }
+    const [item] = pool.splice(index, 1);
+    picked.push(item);
+    totalTickets -= item.tickets;
+  }
+
+  return picked;
+}
@@ -0,0 +1,285 @@
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { recordAudit, recordSystemAudit } from "@/lib/audit";
+import type { AuthUser } from "@/lib/auth";
+import {
+  DRAW_ALGORITHM,
+  deriveDrawSeed,
+  generateServerSeed,
+  hashWeightedEligibleList,
+  sha256Hex,
+  weightedSample,
+} from "@/lib/draw-seed";
+import { eligibleContestantWhere } from "@/lib/eligibility";
+import { REVEAL_MODES, setPresenterState } from "@/lib/presenter";
+
+export const drawSchema = z.object({
+  prizeId: z.string().min(1, "prizeId is required"),
+  quantity: z.coerce
+    .number()
+    .int("quantity must be an integer")
+    .min(1, "quantity must be at least 1"),
+  commitmentId: z.string().min(1).optional(),
+  publicEntropy: z
+    .string()
+    .trim()
+    .max(200, "publicEntropy must be 200 characters or less")
+    .optional()
+    .transform((value) => value || null),
+  revealMode: z.enum(REVEAL_MODES).default("ALL"),
+  revealBatchSize: z.coerce
+    .number()
+    .int("revealBatchSize must be an integer")
+    .min(1, "revealBatchSize must be at least 1")
+    .max(100, "revealBatchSize must be 100 or less")
+    .default(1),
+});
+
+export type DrawInput = z.output<typeof drawSchema>;
+
+export class DrawRejectedError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+// Who asked for the draw: an operator's request, or the scheduler running a
+// draw that was planned earlier.
+export type DrawOrigin =
+  { req: Request; actor: AuthUser } | { scheduledDrawId: string };
+
+type DrawOptions = {
+  sessionId: string;
+  input: DrawInput;
+  // Set when the draw is a step of the session's run-sheet.
+  runSheetStepId?: string | null;
+};
+
+// The one way winners are picked: POST /draws, the run-sheet and the
+// scheduler all call this inside their own transaction, so every draw gets
+// the same stock check, seed handling, presenter switch and audit event.
+export async function executeDraw(
+  tx: Prisma.TransactionClient,
+  origin: DrawOrigin,
+  { sessionId, input, runSheetStepId = null }: DrawOptions
+) {
+  // Lock the prize row before reading it, so concurrent draws and prize
+  // edits queue up behind each other instead of acting on a stale quantity
+  // or drawn count.
+  await tx.$queryRaw`
+    SELECT "id" FROM "Prize"
+    WHERE "id" = ${input.prizeId} AND "sessionId" = ${sessionId}
+    FOR UPDATE`;
+
+  const prize = await tx.prize.findFirst({
+    where: { id: input.prizeId, sessionId },
+    select: { id: true, name: true, quantity: true, eligibleCategories: true },
+  });
+
+  if (!prize) {
+    throw new DrawRejectedError("Prize not found", 404);
+  }
+
+  const alreadyDrawn = await tx.winner.count({
+    where: { draw: { prizeId: prize.id } },
+  });
+  const remaining = Math.max(prize.quantity - alreadyDrawn, 0);
+
+  if (input.quantity > remaining) {
+    throw new DrawRejectedError(
+      "Requested quantity exceeds remaining stock for this prize",
+      409,
+      { remaining }
+    );
+  }
+
+  // Draws without a pre-published commitment still get a fresh seed so
+  // they can be verified later, just without the "committed before"
+  // guarantee.
+  let commitment = input.commitmentId
+    ? await tx.drawCommitment.findFirst({
+        where: { id: input.commitmentId, sessionId },
+        include: {
+          draw: { select: { id: true } },
+          forfeit: { select: { id: true } },
+        },
+      })
+    : null;
+
+  if (input.commitmentId && !commitment) {
+    throw new DrawRejectedError("Seed commitment not found", 404);
+  }
+
+  if (commitment?.draw || commitment?.forfeit) {
+    throw new DrawRejectedError(
+      "Seed commitment has already been used for another draw",
+      409
+    );
+  }
+
+  if (!commitment) {
+    const serverSeed = generateServerSeed();
+    commitment = await tx.drawCommitment.create({
+      data: { sessionId, serverSeed, seedHash: sha256Hex(serverSeed) },
+      include: {
+        draw: { select: { id: true } },
+        forfeit: { select: { id: true } },
+      },
+    });
+  }
+
+  const eligibleContestants = await tx.contestant.findMany({
+    where: eligibleContestantWhere(sessionId, prize),
+    select: { id: true, name: true, tickets: true },
+    orderBy: { id: "asc" },
+  });
+
+  if (input.quantity > eligibleContestants.length) {
+    throw new DrawRejectedError(
+      "Requested quantity exceeds eligible contestants",
+      400
+    );
+  }
+
+  const eligibleHash = hashWeightedEligibleList(eligibleContestants);
+  const seed = deriveDrawSeed(
+    commitment.serverSeed,
+    input.publicEntropy,
+    eligibleHash
+  );
+  const selected = weightedSample(eligibleContestants, input.quantity, seed);
+
+  const draw = await tx.draw.create({
+    data: {
+      sessionId,
+      prizeId: prize.id,
+      commitmentId: commitment.id,
+      publicEntropy: input.publicEntropy,
+      eligibleHash,
+      eligibleIds: eligibleContestants.map((c) => c.id),
+      eligibleWeights: eligibleContestants.map((c) => c.tickets),
+      algorithm: DRAW_ALGORITHM,
+      revealMode: input.revealMode,
+      revealBatchSize: input.revealBatchSize,
+      runSheetStepId,
+    },
+  });
+
+  // Winners keep their pick order so a sequential reveal is stable
+  // across reloads and screens.
+  await tx.winner.createMany({
+    data: selected.map((contestant, index) => ({
+      contestantId: contestant.id,
+      drawId: draw.id,
+      prizeName: prize.name,
+      tickets: contestant.tickets,
+      position: index,
+    })),
+  });
+
+  // Connected presenter screens switch to the new draw on their own.
+  await setPresenterState(tx, sessionId, {
+    drawId: draw.id,
+    phase: "ROLLING",
+  });
+
+  const summary = {
+    drawId: draw.id,
+    prizeId: prize.id,
+    prizeName: prize.name,
+    quantity: input.quantity,
+    eligibleCount: eligibleContestants.length,
+    commitmentId: commitment.id,
+    ...(runSheetStepId ? { runSheetStepId } : {}),
+    winners: selected.map((c) => ({ id: c.id, name: c.name })),
+  };
+
+  if ("req" in origin) {
+    await recordAudit(tx, origin.req, {
+      sessionId,
+      actor: origin.actor,
+      action: "draw.create",
+      summary,
+    });
+  } else {
+    await recordSystemAudit(tx, {
+      sessionId,
+      actorName: "Scheduler",
+      action: "draw.create",
+      summary: { ...summary, scheduledDrawId: origin.scheduledDrawId },
+    });
+  }
+
+  return {
+    draw,
+    prize,
+    selected,
+    eligibleCount: eligibleContestants.length,
+    seedHash: commitment.seedHash,
+  };
+}
+
+export type DrawResult = Awaited<ReturnType<typeof executeDraw>>;
+
+// Response body of every endpoint that runs a draw.
+export function serializeDrawResult(
+  sessionId: string,
+  requestedQuantity: number,
+  { draw, prize, selected, eligibleCount, seedHash }: DrawResult
+) {
+  return {
+    drawId: draw.id,
+    sessionId,
+    prize: { id: prize.id, name: prize.name },
+    requestedQuantity,
+    eligibleBefore: eligibleCount,
+    winners: selected.map((c) => ({
+      contestantId: c.id,
+      name: c.name,
+      prizeName: prize.name,
+      tickets: c.tickets,
+    })),
+    createdAt: draw.createdAt,
+    reveal: {
+      mode: draw.revealMode,
+      batchSize: draw.revealBatchSize,
+    },
+    proof: {
+      algorithm: draw.algorithm,
+      commitmentId: draw.commitmentId,
+      seedHash,
+      publicEntropy: draw.publicEntropy,
+      eligibleHash: draw.eligibleHash,
+    },
+  };
+}
+
+// Maps the errors a draw can end with to their response; anything else is
+// rethrown by the caller.
+export function drawErrorResponse(err: unknown): NextResponse | null {
+  if (err instanceof DrawRejectedError) {
+    return NextResponse.json(
+      { error: err.message, ...err.details },
+      { status: err.status }
+    );
+  }
+
+  if (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    err.code === "P2002"
+  ) {
+    return NextResponse.json(
+      {
+        error: "Contestant already has a prize. Please refresh and try again.",
+      },
+      { status: 409 }
+    );
+  }
+
+  return null;
+}
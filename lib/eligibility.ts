@@ -0,0 +1,45 @@
+import type { Prisma } from "@prisma/client";
+
+type PrizeRule = {
+  eligibleCategories: string[];
+};
+
+// Categories are compared case-insensitively, so they are stored lowercased.
+export function normalizeCategories(raw: unknown): string[] {
+  const values = Array.isArray(raw)
+    ? raw
+    : typeof raw === "string"
+    ? raw.split(/[,;|]/)
+    : [];
+
+  const categories = values
+    .map((value) =>
+      typeof value === "string" ? value.trim().toLowerCase() : ""
+    )
+    .filter((value) => value.length > 0);
+
+  return [...new Set(categories)];
+}
+
+// The single definition of "who can still win this prize", shared by the
+// draw route, prize validation and the presenter's rolling pool.
+export function eligibleContestantWhere(
+  sessionId: string,
+  prize?: PrizeRule | null
+): Prisma.ContestantWhereInput {
+  return {
+    sessionId,
+    winner: null,
+    withdrawnAt: null,
+    // A forfeited winner stays out until an operator reinstates them.
+    forfeits: { none: { reinstatedAt: null } },
+    // Sessions that require check-in only draw from people at the venue.
+    OR: [
+      { session: { requireCheckIn: false } },
+      { checkedInAt: { not: null } },
+    ],
+    ...(prize && prize.eligibleCategories.length > 0
+      ? { categories: { hasSome: prize.eligibleCategories } }
+      : {}),
+  };
+}
@@ -0,0 +1,120 @@
+import type { Prisma } from "@prisma/client";
+import {
+  DRAW_ALGORITHM,
+  deriveDrawSeed,
+  generateServerSeed,
+  hashWeightedEligibleList,
+  sha256Hex,
+  weightedSample,
+} from "@/lib/draw-seed";
+import { eligibleContestantWhere } from "@/lib/eligibility";
+
+type ForfeitInput = {
+  sessionId: string;
+  draw: {
+    id: string;
+    prize: { eligibleCategories: string[] };
+  };
+  winner: {
+    id: string;
+    contestantId: string;
+    prizeName: string;
+    tickets: number;
+    position: number;
+    createdAt: Date;
+    claimStatus: string;
+  };
+  reason: string;
+  forfeitedBy: string;
+  redraw: boolean;
+  keepEligible: boolean;
+};
+
+// Takes the prize back from a winner and, when asked, hands it to a fresh
+// pick from the eligible pool. Shared by manual forfeits and claim expiry.
+// The pick gets its own seed commitment and eligible list, stored on the
+// forfeit, so it can be replayed the same way as the draw itself.
+// Callers lock the prize row first, as POST /draws does, so a replacement
+// never races a new draw for the last unit of the prize.
+export async function forfeitWinner(
+  tx: Prisma.TransactionClient,
+  {
+    sessionId,
+    draw,
+    winner,
+    reason,
+    forfeitedBy,
+    redraw,
+    keepEligible,
+  }: ForfeitInput
+) {
+  await tx.winner.delete({ where: { id: winner.id } });
+
+  let replacement: { id: string; name: string; tickets: number } | null = null;
+  let proof: {
+    commitmentId: string;
+    eligibleHash: string;
+    eligibleIds: string[];
+    eligibleWeights: number[];
+    algorithm: string;
+  } | null = null;
+
+  if (redraw) {
+    const pool = await tx.contestant.findMany({
+      where: {
+        AND: [
+          eligibleContestantWhere(sessionId, draw.prize),
+          { id: { not: winner.contestantId } },
+        ],
+      },
+      select: { id: true, name: true, tickets: true },
+      orderBy: { id: "asc" },
+    });
+
+    const serverSeed = generateServerSeed();
+    const commitment = await tx.drawCommitment.create({
+      data: { sessionId, serverSeed, seedHash: sha256Hex(serverSeed) },
+    });
+    const eligibleHash = hashWeightedEligibleList(pool);
+    const seed = deriveDrawSeed(serverSeed, null, eligibleHash);
+    replacement = weightedSample(pool, 1, seed)[0] ?? null;
+    proof = {
+      commitmentId: commitment.id,
+      eligibleHash,
+      eligibleIds: pool.map((c) => c.id),
+      eligibleWeights: pool.map((c) => c.tickets),
+      algorithm: DRAW_ALGORITHM,
+    };
+
+    if (replacement) {
+      await tx.winner.create({
+        data: {
+          drawId: draw.id,
+          contestantId: replacement.id,
+          prizeName: winner.prizeName,
+          tickets: replacement.tickets,
+          // Take over the reveal slot so the sequence does not shift.
+          position: winner.position,
+        },
+      });
+    }
+  }
+
+  const forfeit = await tx.forfeit.create({
+    data: {
+      drawId: draw.id,
+      contestantId: winner.contestantId,
+      replacementId: replacement?.id ?? null,
+      prizeName: winner.prizeName,
+      tickets: winner.tickets,
+      wonAt: winner.createdAt,
+      reason,
+      forfeitedBy,
+      reinstatedAt: keepEligible ? new Date() : null,
+      claimStatus: winner.claimStatus,
+      ...proof,
+    },
+  });
+
+  return { forfeit, replacement };
+}
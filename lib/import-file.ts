@@ -0,0 +1,210 @@
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+
+// Rows of cells as they appear in the upload, before any header handling.
+export type ImportTable = {
+  rows: string[][];
+  // Worksheet names for workbooks, so the operator can pick one; empty for
+  // delimited text.
+  sheets: string[];
+  sheet: string | null;
+};
+
+// A row an import skips, as it appeared in the upload.
+export type RejectedRow = {
+  line: number;
+  cells: string[];
+  reason: string;
+};
+
+// European Excel locales save "CSV" with semicolons, and "Unicode Text"
+// exports are tab separated.
+const DELIMITERS = [",", ";", "\t"];
+
+function isZip(bytes: Uint8Array) {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0x50 &&
+    bytes[1] === 0x4b &&
+    bytes[2] === 0x03 &&
+    bytes[3] === 0x04
+  );
+}
+
+// Old binary workbooks start with the OLE compound file signature.
+function isLegacyWorkbook(bytes: Uint8Array) {
+  return (
+    bytes.length >= 4 &&
+    bytes[0] === 0xd0 &&
+    bytes[1] === 0xcf &&
+    bytes[2] === 0x11 &&
+    bytes[3] === 0xe0
+  );
+}
+
+// Honours a byte order mark when there is one. Without it, UTF-16 still
+// gives itself away through the zero byte in every ASCII character.
+function decodeText(bytes: Uint8Array): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes);
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes);
+  }
+
+  const sample = bytes.subarray(0, 512);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, index) => {
+    if (byte !== 0) return;
+    if (index % 2 === 0) evenZeros += 1;
+    else oddZeros += 1;
+  });
+  const half = sample.length / 2;
+  if (half > 0 && oddZeros > half * 0.6 && evenZeros === 0) {
+    return new TextDecoder("utf-16le").decode(bytes);
+  }
+  if (half > 0 && evenZeros > half * 0.6 && oddZeros === 0) {
+    return new TextDecoder("utf-16be").decode(bytes);
+  }
+
+  // The UTF-8 decoder drops a leading BOM on its own.
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+// Blank lines throw off Papa's delimiter guess, so it is made on the first
+// non-blank rows and then applied to the whole file.
+function guessDelimiter(text: string): string {
+  const sample = Papa.parse<string[]>(text, {
+    preview: 20,
+    skipEmptyLines: "greedy",
+    delimitersToGuess: DELIMITERS,
+  });
+  return sample.meta.delimiter || ",";
+}
+
+function readDelimited(text: string, fileName: string): ImportTable {
+  const result = Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: false,
+    delimiter: fileName.toLowerCase().endsWith(".tsv")
+      ? "\t"
+      : guessDelimiter(text),
+  });
+
+  return {
+    rows: result.data.map((row) => (Array.isArray(row) ? row : [])),
+    sheets: [],
+    sheet: null,
+  };
+}
+
+async function readWorkbook(
+  bytes: Uint8Array,
+  requestedSheet: string | null
+): Promise<ImportTable | { error: string }> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    // exceljs declares its own Buffer that current Node typings no longer
+    // satisfy, though a Node Buffer is exactly what it reads.
+    await workbook.xlsx.load(
+      Buffer.from(bytes) as unknown as Parameters<ExcelJS.Xlsx["load"]>[0]
+    );
+  } catch {
+    return { error: "The workbook could not be read" };
+  }
+
+  const worksheets = workbook.worksheets.filter(
+    (worksheet) => worksheet.state === "visible"
+  );
+  const worksheet = requestedSheet
+    ? worksheets.find((candidate) => candidate.name === requestedSheet)
+    : worksheets[0];
+
+  if (!worksheet) {
+    return {
+      error: requestedSheet
+        ? `Sheet "${requestedSheet}" was not found in the workbook`
+        : "The workbook has no visible sheets",
+    };
+  }
+
+  // Empty rows are kept so line numbers match the row numbers in Excel.
+  const rows: string[][] = [];
+  const width = worksheet.columnCount;
+  worksheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= width; column += 1) {
+      cells.push(row.getCell(column).text ?? "");
+    }
+    rows.push(cells);
+  });
+
+  return {
+    rows,
+    sheets: worksheets.map((candidate) => candidate.name),
+    sheet: worksheet.name,
+  };
+}
+
+// Accepts comma, semicolon or tab separated text in UTF-8 or UTF-16, and
+// .xlsx workbooks. The format is sniffed from the bytes rather than trusted
+// from the file name, since exports are often renamed.
+export async function readImportTable(
+  file: File,
+  sheet: string | null
+): Promise<ImportTable | { error: string }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isZip(bytes)) {
+    return readWorkbook(bytes, sheet);
+  }
+
+  if (isLegacyWorkbook(bytes)) {
+    return {
+      error: "Old .xls workbooks are not supported; save the file as .xlsx",
+    };
+  }
+
+  return readDelimited(decodeText(bytes), file.name);
+}
+
+// Spreadsheets often repeat or leave out a header; every column still needs
+// a distinct name to be mapped by.
+export function uniqueHeaders(row: string[]): string[] {
+  const seen = new Set<string>();
+  return row.map((raw, index) => {
+    const base = raw.trim() || `Column ${index + 1}`;
+    let header = base;
+    for (let copy = 2; seen.has(header); copy += 1) {
+      header = `${base} (${copy})`;
+    }
+    seen.add(header);
+    return header;
+  });
+}
+
+// The rejected rows as they appeared in the upload, with the reason up
+// front, ready to be fixed and imported again.
+export function rejectedRowsCsv(analysis: {
+  headers: string[];
+  rejected: RejectedRow[];
+}): string {
+  const width = Math.max(
+    analysis.headers.length,
+    ...analysis.rejected.map((row) => row.cells.length)
+  );
+  const headers =
+    analysis.headers.length > 0
+      ? analysis.headers
+      : Array.from({ length: width }, (_, index) => `column ${index + 1}`);
+
+  return Papa.unparse({
+    fields: ["reason", "line", ...headers],
+    data: analysis.rejected.map((row) => [
+      row.reason,
+      String(row.line),
+      ...row.cells,
+    ]),
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  suggestColumnMapping,
+  suggestPrizeColumnMapping,
+} from "@/lib/import-mapping";
+
+describe("suggestColumnMapping", () => {
+  it("recognises headers regardless of case, spaces and punctuation", () => {
+    const mapping = suggestColumnMapping([
+      "Full Name",
+      "Employee-ID",
+      "E-mail",
+      "Phone Number",
+      "Dept.",
+      "Ticket No",
+      "Chances",
+    ]);
+    expect(mapping).toEqual({
+      name: "Full Name",
+      externalId: "Employee-ID",
+      email: "E-mail",
+      phone: "Phone Number",
+      department: "Dept.",
+      ticketNumber: "Ticket No",
+      tickets: "Chances",
+      categories: [],
+    });
+  });
+
+  it("turns unrecognised columns into categories", () => {
+    const mapping = suggestColumnMapping(["Name", "Shift", "", "Location"]);
+    expect(mapping.name).toBe("Name");
+    expect(mapping.categories).toEqual(["Shift", "Location"]);
+  });
+
+  it("uses each header for one field only", () => {
+    const mapping = suggestColumnMapping(["ID", "Name"]);
+    expect(mapping.externalId).toBe("ID");
+    expect(mapping.ticketNumber).toBeNull();
+    expect(mapping.categories).toEqual([]);
+  });
+
+  it("reads a badge column as the external ID", () => {
+    expect(suggestColumnMapping(["Badge ID"]).externalId).toBe("Badge ID");
+  });
+
+  it("leaves fields without a matching header unmapped", () => {
+    const mapping = suggestColumnMapping([]);
+    expect(mapping.name).toBeNull();
+    expect(mapping.externalId).toBeNull();
+    expect(mapping.categories).toEqual([]);
+  });
+});
+
+describe("suggestPrizeColumnMapping", () => {
+  it("recognises prize headers, including Indonesian ones", () => {
+    expect(
+      suggestPrizeColumnMapping([
+        "Nama Hadiah",
+        "Jumlah",
+        "Kategori",
+        "Sponsored by",
+        "Keterangan",
+        "Urutan",
+      ])
+    ).toEqual({
+      name: "Nama Hadiah",
+      quantity: "Jumlah",
+      categories: "Kategori",
+      sponsor: "Sponsored by",
+      description: "Keterangan",
+      order: "Urutan",
+    });
+  });
+
+  it("maps nothing for unknown headers", () => {
+    expect(suggestPrizeColumnMapping(["Colour"])).toEqual({
+      name: null,
+      quantity: null,
+      categories: null,
+      sponsor: null,
+      description: null,
+      order: null,
+    });
+  });
+});
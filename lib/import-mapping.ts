@@ -0,0 +1,150 @@
+// Contestant fields a CSV column can feed. Shared by the import route and
+// the mapping step in the upload form.
+export const IMPORT_FIELDS = [
+  "name",
+  "externalId",
+  "email",
+  "phone",
+  "department",
+  "ticketNumber",
+  "tickets",
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: "Name",
+  externalId: "Employee / external ID",
+  email: "Email",
+  phone: "Phone",
+  department: "Department",
+  ticketNumber: "Ticket number",
+  tickets: "Tickets (chances)",
+};
+
+// How an import treats the people already in the session. Winners are
+// never removed, whatever the mode.
+export const IMPORT_MODES = ["append", "merge", "sync", "replace"] as const;
+
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  append: "Add new only",
+  merge: "Merge: add new, update existing",
+  sync: "Sync: merge, withdraw anyone missing",
+  replace: "Replace all non-winners",
+};
+
+// Each field maps to one header, or null when the file has no such column.
+// Categories may come from any number of columns.
+export type ColumnMapping = Record<ImportField, string | null> & {
+  categories: string[];
+};
+
+// Compared after lowercasing and dropping spaces and punctuation.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "fullname", "nama", "employeename", "participant"],
+  externalId: [
+    "id",
+    "externalid",
+    "employeeid",
+    "employeeno",
+    "employeenumber",
+    "staffid",
+    "nik",
+    "nip",
+    "badge",
+    "badgeid",
+    "badgeno",
+    "badgenumber",
+  ],
+  email: ["email", "emailaddress"],
+  phone: ["phone", "phonenumber", "mobile", "telephone", "hp", "nohp"],
+  department: ["department", "dept", "division", "divisi", "team"],
+  ticketNumber: ["ticketnumber", "ticketno", "ticketid", "ticketcode"],
+  tickets: ["tickets", "entries", "chances"],
+};
+
+function headerKey(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Best guess from the header names. Unrecognised columns become categories,
+// which is how the importer has always treated extra columns.
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = { categories: [] as string[] } as ColumnMapping;
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    const match = headers.find(
+      (header) =>
+        !used.has(header) && HEADER_ALIASES[field].includes(headerKey(header))
+    );
+    mapping[field] = match ?? null;
+    if (match) used.add(match);
+  }
+
+  mapping.categories = headers.filter(
+    (header) => header.trim() !== "" && !used.has(header)
+  );
+  return mapping;
+}
+
+// Prize fields a sponsor's spreadsheet can feed. Categories is a single
+// column of comma separated tags, the same format the prize form takes.
+export const PRIZE_IMPORT_FIELDS = [
+  "name",
+  "quantity",
+  "categories",
+  "sponsor",
+  "description",
+  "order",
+] as const;
+
+export type PrizeImportField = (typeof PRIZE_IMPORT_FIELDS)[number];
+
+export const PRIZE_IMPORT_FIELD_LABELS: Record<PrizeImportField, string> = {
+  name: "Prize name",
+  quantity: "Quantity",
+  categories: "Eligible categories",
+  sponsor: "Sponsor",
+  description: "Description",
+  order: "Display order",
+};
+
+export type PrizeColumnMapping = Record<PrizeImportField, string | null>;
+
+const PRIZE_HEADER_ALIASES: Record<PrizeImportField, string[]> = {
+  name: ["name", "prize", "prizename", "item", "hadiah", "namahadiah"],
+  quantity: ["quantity", "qty", "count", "units", "jumlah"],
+  categories: [
+    "categories",
+    "category",
+    "eligibility",
+    "eligible",
+    "eligiblecategories",
+    "kategori",
+  ],
+  sponsor: ["sponsor", "sponsoredby", "donor", "sponsorname"],
+  description: ["description", "details", "notes", "keterangan"],
+  order: ["order", "displayorder", "sortorder", "sequence", "no", "urutan"],
+};
+
+export function suggestPrizeColumnMapping(
+  headers: string[]
+): PrizeColumnMapping {
+  const mapping = {} as PrizeColumnMapping;
+  const used = new Set<string>();
+
+  for (const field of PRIZE_IMPORT_FIELDS) {
+    const match = headers.find(
+      (header) =>
+        !used.has(header) &&
+        PRIZE_HEADER_ALIASES[field].includes(headerKey(header))
+    );
+    mapping[field] = match ?? null;
+    if (match) used.add(match);
+  }
+
+  return mapping;
+}
@@ -0,0 +1,53 @@
+// Small synthesized cues for the presenter, so no audio files need to be
+// shipped or uploaded. Browsers only allow audio after a user gesture; until
+// then these calls are silently ignored.
+
+let context: AudioContext | null = null;
+
+function getContext(): AudioContext | null {
+  if (typeof window === "undefined" || !("AudioContext" in window)) {
+    return null;
+  }
+  context ??= new AudioContext();
+  return context;
+}
+
+function tone(
+  ctx: AudioContext,
+  frequency: number,
+  start: number,
+  duration: number,
+  volume: number
+) {
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = "triangle";
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(volume, start);
+  gain.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+}
+
+export function playTick() {
+  const ctx = getContext();
+  if (!ctx || ctx.state !== "running") return;
+  tone(ctx, 880, ctx.currentTime, 0.05, 0.05);
+}
+
+export function playFanfare() {
+  const ctx = getContext();
+  if (!ctx) return;
+  if (ctx.state === "suspended") void ctx.resume().catch(() => {});
+  const now = ctx.currentTime;
+  [523.25, 659.25, 783.99, 1046.5].forEach((frequency, index) => {
+    tone(ctx, frequency, now + index * 0.12, 0.45, 0.18);
+  });
+}
+
+// Called from a click or key press to unlock audio for later cues.
+export function unlockSound() {
+  const ctx = getContext();
+  if (ctx?.state === "suspended") void ctx.resume().catch(() => {});
+}
@@ -0,0 +1,80 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+
+export const PRESENTER_PHASES = ["IDLE", "ROLLING", "REVEALED"] as const;
+
+export type PresenterPhase = (typeof PRESENTER_PHASES)[number];
+
+// ALL reveals every winner at once; SEQUENTIAL steps through them in
+// batches of revealBatchSize.
+export const REVEAL_MODES = ["ALL", "SEQUENTIAL"] as const;
+
+export type RevealMode = (typeof REVEAL_MODES)[number];
+
+export type RevealProgress = {
+  mode: RevealMode;
+  batchSize: number;
+  position: number;
+  total: number;
+};
+
+export type PresenterSnapshot = {
+  sessionId: string;
+  drawId: string | null;
+  phase: PresenterPhase;
+  version: number;
+  updatedAt: string | null;
+  reveal: RevealProgress | null;
+};
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export async function readPresenterState(
+  db: Db,
+  sessionId: string
+): Promise<PresenterSnapshot> {
+  const state = await db.presenterState.findUnique({
+    where: { sessionId },
+    include: {
+      draw: {
+        select: {
+          revealMode: true,
+          revealBatchSize: true,
+          revealPosition: true,
+          _count: { select: { winners: true } },
+        },
+      },
+    },
+  });
+
+  return {
+    sessionId,
+    drawId: state?.drawId ?? null,
+    phase: (state?.phase as PresenterPhase | undefined) ?? "IDLE",
+    version: state?.version ?? 0,
+    updatedAt: state?.updatedAt.toISOString() ?? null,
+    reveal: state?.draw
+      ? {
+          mode: state.draw.revealMode as RevealMode,
+          batchSize: state.draw.revealBatchSize,
+          position: state.draw.revealPosition,
+          total: state.draw._count.winners,
+        }
+      : null,
+  };
+}
+
+// Every change bumps the version; connected screens only react to versions
+// they have not seen yet.
+export async function setPresenterState(
+  db: Db,
+  sessionId: string,
+  next: { drawId: string | null; phase: PresenterPhase }
+): Promise<PresenterSnapshot> {
+  await db.presenterState.upsert({
+    where: { sessionId },
+    create: { sessionId, ...next, version: 1 },
+    update: { ...next, version: { increment: 1 } },
+  });
+
+  return readPresenterState(db, sessionId);
+}
@@ -0,0 +1,266 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import {
+  eligibleContestantWhere,
+  normalizeCategories,
+} from "@/lib/eligibility";
+import { type RejectedRow, uniqueHeaders } from "@/lib/import-file";
+import {
+  PRIZE_IMPORT_FIELDS,
+  suggestPrizeColumnMapping,
+  type PrizeColumnMapping,
+} from "@/lib/import-mapping";
+import { nextPrizeSortOrder } from "@/lib/prizes";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type PrizeImportEntry = {
+  name: string;
+  quantity: number;
+  eligibleCategories: string[];
+  sponsor: string | null;
+  description: string | null;
+  sortOrder: number;
+};
+
+export type PrizeImportAnalysis = {
+  headers: string[];
+  mapping: PrizeColumnMapping;
+  totalRows: number;
+  entries: PrizeImportEntry[];
+  totalQuantity: number;
+  // Everyone who could win at least one prize in the session right now.
+  eligibleContestants: number;
+  rejected: RejectedRow[];
+};
+
+const optionalColumn = z.string().min(1).nullable().optional();
+
+const mappingSchema = z.object({
+  name: z.string().min(1, "Choose the column that holds prize names"),
+  quantity: optionalColumn,
+  categories: optionalColumn,
+  sponsor: optionalColumn,
+  description: optionalColumn,
+  order: optionalColumn,
+});
+
+type PrizeImportForm = {
+  file: File;
+  mapping: PrizeColumnMapping | null;
+  sheet: string | null;
+};
+
+// The prize import's counterpart of readImportForm: the file, an optional
+// JSON column mapping and, for workbooks, the sheet to read.
+export async function readPrizeImportForm(
+  req: Request
+): Promise<PrizeImportForm | { error: string }> {
+  const formData = await req.formData();
+  const file = formData.get("file");
+
+  if (!file || !(file instanceof File)) {
+    return { error: "No file uploaded" };
+  }
+
+  const rawSheet = formData.get("sheet");
+  const sheet =
+    typeof rawSheet === "string" && rawSheet !== "" ? rawSheet : null;
+
+  const raw = formData.get("mapping");
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { file, mapping: null, sheet };
+  }
+
+  try {
+    const parsed = mappingSchema.parse(JSON.parse(raw));
+    return {
+      file,
+      sheet,
+      mapping: {
+        name: parsed.name,
+        quantity: parsed.quantity ?? null,
+        categories: parsed.categories ?? null,
+        sponsor: parsed.sponsor ?? null,
+        description: parsed.description ?? null,
+        order: parsed.order ?? null,
+      },
+    };
+  } catch (err) {
+    return {
+      error:
+        err instanceof z.ZodError
+          ? err.issues[0]?.message || "Invalid column mapping"
+          : "Invalid column mapping",
+    };
+  }
+}
+
+// Same rule as the prize form: blank means one, anything else must be a
+// positive whole number.
+function parseQuantity(raw: string): number | null {
+  const value = raw.trim();
+  if (value === "") return 1;
+  const quantity = Number(value);
+  return Number.isInteger(quantity) && quantity >= 1 ? quantity : null;
+}
+
+function parseOrder(raw: string): number | null | undefined {
+  const value = raw.trim();
+  if (value === "") return null;
+  const order = Number(value);
+  return Number.isFinite(order) ? order : undefined;
+}
+
+function optionalValue(raw: string, max: number): string | null {
+  return raw.trim().slice(0, max) || null;
+}
+
+// Runs every check the prize import applies without writing anything, so
+// the preview and the real import agree about each row. Unlike contestants,
+// a prize file has to have a header row: there is no bare-list fallback.
+export async function analyzePrizeImport(
+  db: Db,
+  sessionId: string,
+  table: string[][],
+  requested: PrizeColumnMapping | null
+): Promise<PrizeImportAnalysis | { error: string }> {
+  const headers = uniqueHeaders(table[0] ?? []);
+  const mapping = requested ?? suggestPrizeColumnMapping(headers);
+
+  const missing = PRIZE_IMPORT_FIELDS.map((field) => mapping[field]).find(
+    (column) => column !== null && !headers.includes(column)
+  );
+  if (missing !== undefined) {
+    return { error: `Column "${missing}" was not found in the file` };
+  }
+
+  if (!mapping.name) {
+    return { error: "No column with prize names was found in the file" };
+  }
+
+  const cell = (row: string[], field: string | null) =>
+    field ? row[headers.indexOf(field)] ?? "" : "";
+
+  const dataRows = table.slice(1);
+  const rejected: RejectedRow[] = [];
+  const candidates: {
+    line: number;
+    order: number | null;
+    entry: Omit<PrizeImportEntry, "sortOrder">;
+  }[] = [];
+
+  const existing = await db.prize.findMany({
+    where: { sessionId },
+    select: { name: true },
+  });
+  const existingNames = new Set(
+    existing.map((prize) => prize.name.toLowerCase())
+  );
+  const seenNames = new Set<string>();
+  // Rows often share a category list, so each pool is counted once.
+  const eligibleByCategories = new Map<string, number>();
+
+  for (const [index, row] of dataRows.entries()) {
+    const line = index + 2;
+    const cells = headers.map((_, column) => row[column] ?? "");
+    const reject = (reason: string) => rejected.push({ line, cells, reason });
+
+    const name = cell(row, mapping.name).trim();
+    if (!name) {
+      if (cells.some((value) => value.trim() !== "")) {
+        reject("Missing prize name");
+      }
+      continue;
+    }
+
+    if (name.length > 200) {
+      reject("Prize name must be 200 characters or less");
+      continue;
+    }
+
+    const quantity = parseQuantity(cell(row, mapping.quantity));
+    if (quantity === null) {
+      reject("Quantity must be a whole number of 1 or more");
+      continue;
+    }
+
+    const order = parseOrder(cell(row, mapping.order));
+    if (order === undefined) {
+      reject("Display order must be a number");
+      continue;
+    }
+
+    const key = name.toLowerCase();
+    if (seenNames.has(key)) {
+      reject("Duplicate of an earlier row in this file");
+      continue;
+    }
+    if (existingNames.has(key)) {
+      reject("A prize with this name already exists in this session");
+      continue;
+    }
+
+    const eligibleCategories = normalizeCategories(
+      cell(row, mapping.categories)
+    );
+    const poolKey = [...eligibleCategories].sort().join(",");
+    let eligible = eligibleByCategories.get(poolKey);
+    if (eligible === undefined) {
+      eligible = await db.contestant.count({
+        where: eligibleContestantWhere(sessionId, { eligibleCategories }),
+      });
+      eligibleByCategories.set(poolKey, eligible);
+    }
+    if (quantity > eligible) {
+      reject(
+        `Quantity cannot exceed the ${eligible} eligible contestants for this prize`
+      );
+      continue;
+    }
+
+    seenNames.add(key);
+    candidates.push({
+      line,
+      order,
+      entry: {
+        name,
+        quantity,
+        eligibleCategories,
+        sponsor: optionalValue(cell(row, mapping.sponsor), 200),
+        description: optionalValue(cell(row, mapping.description), 1000),
+      },
+    });
+  }
+
+  // Imported prizes join the end of the running order: rows with a display
+  // order first, by that order, then the rest as they appear in the file.
+  candidates.sort((a, b) => {
+    if (a.order !== null && b.order !== null && a.order !== b.order) {
+      return a.order - b.order;
+    }
+    if (a.order !== null && b.order === null) return -1;
+    if (a.order === null && b.order !== null) return 1;
+    return a.line - b.line;
+  });
+
+  const firstSortOrder = await nextPrizeSortOrder(db, sessionId);
+  const entries = candidates.map(({ entry }, index) => ({
+    ...entry,
+    sortOrder: firstSortOrder + index,
+  }));
+
+  const eligibleContestants = await db.contestant.count({
+    where: eligibleContestantWhere(sessionId),
+  });
+
+  return {
+    headers,
+    mapping,
+    totalRows: dataRows.length,
+    entries,
+    totalQuantity: entries.reduce((sum, entry) => sum + entry.quantity, 0),
+    eligibleContestants,
+    rejected,
+  };
+}
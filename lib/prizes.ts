@@ -0,0 +1,102 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+import { normalizeCategories } from "@/lib/eligibility";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Running order everywhere prizes are listed: the manual order first, then
+// creation time for prizes that share a position.
+export const PRIZE_ORDER = [
+  { sortOrder: "asc" },
+  { createdAt: "asc" },
+] satisfies Prisma.PrizeOrderByWithRelationInput[];
+
+// Image bytes are served from their own route and never loaded with a list.
+export const PRIZE_OMIT = { imageData: true } satisfies Prisma.PrizeOmit;
+
+// Blank strings clear a detail; undefined leaves it untouched on update.
+function optionalText(field: string, max: number) {
+  return z
+    .string()
+    .trim()
+    .max(max, `${field} must be ${max} characters or less`)
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null));
+}
+
+export const prizeDetailsSchema = z.object({
+  description: optionalText("description", 1000),
+  sponsor: optionalText("sponsor", 200),
+});
+
+export const prizeUpdateSchema = prizeDetailsSchema.extend({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Prize name is required")
+    .max(200, "Prize name must be 200 characters or less")
+    .optional(),
+  quantity: z.coerce
+    .number()
+    .int("Quantity must be an integer")
+    .min(1, "Quantity must be at least 1")
+    .optional(),
+  eligibleCategories: z
+    .union([z.string(), z.array(z.string())], {
+      error: "eligibleCategories must be a list or a comma separated string",
+    })
+    .transform((raw) => normalizeCategories(raw))
+    .optional(),
+});
+
+// New prizes go to the end of the running order.
+export async function nextPrizeSortOrder(
+  db: Db,
+  sessionId: string
+): Promise<number> {
+  const { _max } = await db.prize.aggregate({
+    where: { sessionId },
+    _max: { sortOrder: true },
+  });
+  return (_max.sortOrder ?? 0) + 1;
+}
+
+// The URL carries the last update time so screens pick up a new upload
+// without a stale browser cache.
+export function prizeImageUrl(prize: {
+  id: string;
+  sessionId: string;
+  imageType: string | null;
+  updatedAt: Date;
+}): string | null {
+  if (!prize.imageType) return null;
+  return `/api/sessions/${prize.sessionId}/prizes/${prize.id}/image?v=${prize.updatedAt.getTime()}`;
+}
+
+// Shape returned by every prize endpoint.
+export function serializePrize(prize: {
+  id: string;
+  sessionId: string;
+  name: string;
+  quantity: number;
+  eligibleCategories: string[];
+  description: string | null;
+  sponsor: string | null;
+  imageType: string | null;
+  sortOrder: number;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: prize.id,
+    name: prize.name,
+    quantity: prize.quantity,
+    eligibleCategories: prize.eligibleCategories,
+    description: prize.description,
+    sponsor: prize.sponsor,
+    imageUrl: prizeImageUrl(prize),
+    sortOrder: prize.sortOrder,
+    createdAt: prize.createdAt,
+  };
+}
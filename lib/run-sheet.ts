@@ -0,0 +1,108 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const RUN_SHEET_ORDER = [
+  { position: "asc" },
+  { createdAt: "asc" },
+] satisfies Prisma.RunSheetStepOrderByWithRelationInput[];
+
+export const runSheetStepSchema = z.object({
+  prizeId: z.string().min(1, "prizeId is required"),
+  quantity: z.coerce
+    .number()
+    .int("quantity must be an integer")
+    .min(1, "quantity must be at least 1"),
+  batchSize: z.coerce
+    .number()
+    .int("batchSize must be an integer")
+    .min(1, "batchSize must be at least 1")
+    .nullable()
+    .optional(),
+});
+
+// The sequence of draw sizes a step is run as: one draw for the whole
+// quantity, or full batches followed by whatever is left over.
+export function stepBatches(step: {
+  quantity: number;
+  batchSize: number | null;
+}): number[] {
+  const size = step.batchSize ?? step.quantity;
+  const batches: number[] = [];
+  for (let drawn = 0; drawn < step.quantity; drawn += size) {
+    batches.push(Math.min(size, step.quantity - drawn));
+  }
+  return batches;
+}
+
+export type RunSheetNext = {
+  stepId: string;
+  // 0-based index of the batch within the step.
+  batch: number;
+  quantity: number;
+  prize: { id: string; name: string };
+};
+
+// The run-sheet with its progress. Progress is counted from the draws that
+// ran for each step, so it survives a refresh, and voiding a draw puts its
+// batch back in the queue.
+export async function loadRunSheet(db: Db, sessionId: string) {
+  const rows = await db.runSheetStep.findMany({
+    where: { sessionId },
+    orderBy: RUN_SHEET_ORDER,
+    include: {
+      prize: { select: { id: true, name: true } },
+      draws: {
+        where: { voidedAt: null },
+        orderBy: { createdAt: "asc" },
+        select: { id: true, _count: { select: { winners: true } } },
+      },
+    },
+  });
+
+  const steps = rows.map((row, index) => {
+    const batches = stepBatches(row);
+    const completedBatches = Math.min(row.draws.length, batches.length);
+    const done = completedBatches >= batches.length;
+
+    return {
+      id: row.id,
+      position: index + 1,
+      prize: row.prize,
+      quantity: row.quantity,
+      batchSize: row.batchSize,
+      batches: batches.length,
+      completedBatches,
+      // Still to be drawn by this step, used when planning more steps.
+      pendingQuantity: batches
+        .slice(completedBatches)
+        .reduce((sum, size) => sum + size, 0),
+      winners: row.draws.reduce((sum, draw) => sum + draw._count.winners, 0),
+      drawIds: row.draws.map((draw) => draw.id),
+      done,
+      nextBatchQuantity: done ? null : batches[completedBatches],
+    };
+  });
+
+  const current = steps.find((step) => !step.done);
+  const next: RunSheetNext | null =
+    current && current.nextBatchQuantity !== null
+      ? {
+          stepId: current.id,
+          batch: current.completedBatches,
+          quantity: current.nextBatchQuantity,
+          prize: current.prize,
+        }
+      : null;
+
+  return {
+    sessionId,
+    steps,
+    completedSteps: steps.filter((step) => step.done).length,
+    totalSteps: steps.length,
+    next,
+  };
+}
+
+export type RunSheet = Awaited<ReturnType<typeof loadRunSheet>>;
@@ -0,0 +1,191 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { recordSystemAudit } from "@/lib/audit";
+import { DrawRejectedError, executeDraw } from "@/lib/draws";
+import { prisma } from "@/lib/prisma";
+
+export const SCHEDULED_DRAW_STATUSES = [
+  "PENDING",
+  "DONE",
+  "FAILED",
+  "CANCELLED",
+] as const;
+
+export type ScheduledDrawStatus = (typeof SCHEDULED_DRAW_STATUSES)[number];
+
+// How often the scheduler looks for draws that are due.
+const POLL_INTERVAL_MS = 15000;
+
+const SCHEDULED_DRAW_TIMEOUT_MS = 30000;
+
+// Draws are planned for an event, not for next year.
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const scheduledDrawSchema = z.object({
+  prizeId: z.string().min(1, "prizeId is required"),
+  quantity: z.coerce
+    .number()
+    .int("quantity must be an integer")
+    .min(1, "quantity must be at least 1"),
+  runAt: z.coerce
+    .date({ error: "runAt must be a date and time" })
+    .refine((date) => date.getTime() > Date.now(), {
+      message: "runAt must be in the future",
+    })
+    .refine((date) => date.getTime() <= Date.now() + MAX_SCHEDULE_AHEAD_MS, {
+      message: "runAt must be within a year",
+    }),
+});
+
+// Shape returned by the scheduled draw endpoints.
+export function serializeScheduledDraw(scheduled: {
+  id: string;
+  quantity: number;
+  runAt: Date;
+  status: string;
+  drawId: string | null;
+  error: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+  prize: { id: string; name: string };
+}) {
+  return {
+    id: scheduled.id,
+    prize: scheduled.prize,
+    quantity: scheduled.quantity,
+    runAt: scheduled.runAt,
+    status: scheduled.status as ScheduledDrawStatus,
+    drawId: scheduled.drawId,
+    error: scheduled.error,
+    createdBy: scheduled.createdBy,
+    createdAt: scheduled.createdAt,
+    finishedAt: scheduled.finishedAt,
+  };
+}
+
+// Runs one scheduled draw through the same code as POST /draws. The row is
+// claimed, the draw made and the row marked DONE in a single transaction,
+// so a crash or restart part way leaves it PENDING with no draw, and a
+// second process skips a row that is already being run.
+export async function runScheduledDraw(id: string) {
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const claimed = await tx.$queryRaw<{ id: string }[]>`
+          SELECT "id" FROM "ScheduledDraw"
+          WHERE "id" = ${id} AND "status" = 'PENDING'
+          FOR UPDATE SKIP LOCKED`;
+        if (claimed.length === 0) return;
+
+        const scheduled = await tx.scheduledDraw.findUniqueOrThrow({
+          where: { id },
+        });
+
+        const { draw } = await executeDraw(
+          tx,
+          { scheduledDrawId: id },
+          {
+            sessionId: scheduled.sessionId,
+            input: {
+              prizeId: scheduled.prizeId,
+              quantity: scheduled.quantity,
+              publicEntropy: null,
+              revealMode: "ALL",
+              revealBatchSize: 1,
+            },
+          }
+        );
+
+        await tx.scheduledDraw.update({
+          where: { id },
+          data: { status: "DONE", drawId: draw.id, finishedAt: new Date() },
+        });
+      },
+      { timeout: SCHEDULED_DRAW_TIMEOUT_MS }
+    );
+  } catch (err) {
+    // A draw that cannot run as planned, such as a prize with no stock
+    // left, will not succeed on a retry either.
+    const reason =
+      err instanceof DrawRejectedError
+        ? err.message
+        : err instanceof Prisma.PrismaClientKnownRequestError &&
+          err.code === "P2002"
+        ? "A contestant already had a prize"
+        : null;
+
+    if (reason === null) throw err;
+
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.scheduledDraw.updateMany({
+        where: { id, status: "PENDING" },
+        data: { status: "FAILED", error: reason, finishedAt: new Date() },
+      });
+      if (count === 0) return;
+
+      const failed = await tx.scheduledDraw.findUniqueOrThrow({
+        where: { id },
+        include: { prize: { select: { name: true } } },
+      });
+      await recordSystemAudit(tx, {
+        sessionId: failed.sessionId,
+        actorName: "Scheduler",
+        action: "draw.scheduleFail",
+        summary: {
+          scheduledDrawId: id,
+          prizeName: failed.prize.name,
+          quantity: failed.quantity,
+          reason,
+        },
+      });
+    });
+  }
+}
+
+// Anything due and still pending, oldest first. Sessions in the trash keep
+// their schedule until they are restored.
+export async function runDueScheduledDraws(now = new Date()) {
+  const due = await prisma.scheduledDraw.findMany({
+    where: {
+      status: "PENDING",
+      runAt: { lte: now },
+      session: { deletedAt: null },
+    },
+    orderBy: { runAt: "asc" },
+    select: { id: true },
+  });
+
+  for (const { id } of due) {
+    try {
+      await runScheduledDraw(id);
+    } catch (err) {
+      // Left pending and retried on the next tick.
+      console.error(`Scheduled draw ${id} failed`, err);
+    }
+  }
+}
+
+let schedulerStarted = false;
+
+// Started once per server process from instrumentation.ts.
+export function startDrawScheduler() {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueScheduledDraws();
+    } catch (err) {
+      console.error("Draw scheduler tick failed", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  setInterval(tick, POLL_INTERVAL_MS);
+  void tick();
+}
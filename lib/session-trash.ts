@@ -0,0 +1,56 @@
+import { prisma } from "@/lib/prisma";
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export function purgeAfter(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + RETENTION_MS);
+}
+
+// Everything a session owns, children first. Audit events are left alone on
+// purpose so the trail outlives the session.
+export function sessionPurgeOperations(sessionId: string) {
+  return [
+    prisma.presenterState.deleteMany({ where: { sessionId } }),
+    prisma.presenterTheme.deleteMany({ where: { sessionId } }),
+    prisma.sessionMember.deleteMany({ where: { sessionId } }),
+    prisma.forfeit.deleteMany({ where: { draw: { sessionId } } }),
+    prisma.voidedWinner.deleteMany({ where: { draw: { sessionId } } }),
+    prisma.winner.deleteMany({ where: { draw: { sessionId } } }),
+    prisma.scheduledDraw.deleteMany({ where: { sessionId } }),
+    prisma.draw.deleteMany({ where: { sessionId } }),
+    prisma.runSheetStep.deleteMany({ where: { sessionId } }),
+    prisma.drawCommitment.deleteMany({ where: { sessionId } }),
+    prisma.prize.deleteMany({ where: { sessionId } }),
+    prisma.contestant.deleteMany({ where: { sessionId } }),
+    prisma.session.delete({ where: { id: sessionId } }),
+  ];
+}
+
+// Runs lazily from both session listings, GET /api/sessions and the trash
+// view, so opening the app is enough to enforce the retention window.
+export async function purgeExpiredSessions() {
+  const expired = await prisma.session.findMany({
+    where: { deletedAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+    select: { id: true, name: true, deletedAt: true },
+  });
+
+  for (const session of expired) {
+    await prisma.$transaction([
+      prisma.auditEvent.create({
+        data: {
+          sessionId: session.id,
+          actorName: "Retention policy",
+          action: "session.purge",
+          summary: {
+            name: session.name,
+            trashedAt: session.deletedAt?.toISOString() ?? null,
+            automatic: true,
+          },
+        },
+      }),
+      ...sessionPurgeOperations(session.id),
+    ]);
+  }
+}
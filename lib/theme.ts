@@ -0,0 +1,147 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+
+// Font choices are a fixed list of CSS stacks so a typo in the editor can
+// never leave the big screen on a fallback serif.
+export const THEME_FONTS = {
+  sans: "Arial, Helvetica, sans-serif",
+  geist: "var(--font-geist-sans), Arial, sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  rounded: "'Trebuchet MS', 'Segoe UI', sans-serif",
+  display: "Impact, 'Arial Black', sans-serif",
+  mono: "var(--font-geist-mono), monospace",
+} as const;
+
+export type ThemeFont = keyof typeof THEME_FONTS;
+
+// Non-empty tuple so it can feed z.enum.
+type ThemeFontNames = [ThemeFont, ...ThemeFont[]];
+
+export const THEME_FONT_NAMES = Object.keys(THEME_FONTS) as ThemeFontNames;
+
+export const THEME_IMAGE_KINDS = ["logo", "background"] as const;
+
+export type ThemeImageKind = (typeof THEME_IMAGE_KINDS)[number];
+
+// SVG is left out on purpose: it is served from our own origin and can
+// carry scripts.
+export const THEME_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/webp",
+  "image/gif",
+];
+
+export const MAX_THEME_IMAGE_BYTES = 2 * 1024 * 1024;
+
+export type PresenterTheme = {
+  title: string | null;
+  fontFamily: ThemeFont;
+  backgroundFrom: string;
+  backgroundVia: string;
+  backgroundTo: string;
+  accentColor: string;
+  textColor: string;
+  rollIntervalMs: number;
+  revealDelaySingleMs: number;
+  revealDelayMultiMs: number;
+  confettiEnabled: boolean;
+  soundEnabled: boolean;
+  logoUrl: string | null;
+  backgroundImageUrl: string | null;
+};
+
+// Matches the look the presenter shipped with before themes existed.
+export const DEFAULT_THEME: PresenterTheme = {
+  title: null,
+  fontFamily: "sans",
+  backgroundFrom: "#022c22",
+  backgroundVia: "#4c0519",
+  backgroundTo: "#022c22",
+  accentColor: "#fde68a",
+  textColor: "#fffbeb",
+  rollIntervalMs: 140,
+  revealDelaySingleMs: 10000,
+  revealDelayMultiMs: 5000,
+  confettiEnabled: true,
+  soundEnabled: false,
+  logoUrl: null,
+  backgroundImageUrl: null,
+};
+
+const hexColor = z
+  .string()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Colours must be hex values like #1a2b3c");
+
+const delayMs = z.coerce
+  .number()
+  .int("Reveal delays must be whole milliseconds")
+  .min(0, "Reveal delays cannot be negative")
+  .max(120000, "Reveal delays must be 2 minutes or less");
+
+export const themeSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .max(120, "title must be 120 characters or less")
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null)),
+  fontFamily: z.enum(THEME_FONT_NAMES).optional(),
+  backgroundFrom: hexColor.optional(),
+  backgroundVia: hexColor.optional(),
+  backgroundTo: hexColor.optional(),
+  accentColor: hexColor.optional(),
+  textColor: hexColor.optional(),
+  rollIntervalMs: z.coerce
+    .number()
+    .int("rollIntervalMs must be an integer")
+    .min(40, "rollIntervalMs must be at least 40")
+    .max(2000, "rollIntervalMs must be 2000 or less")
+    .optional(),
+  revealDelaySingleMs: delayMs.optional(),
+  revealDelayMultiMs: delayMs.optional(),
+  confettiEnabled: z.boolean().optional(),
+  soundEnabled: z.boolean().optional(),
+});
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Image URLs carry the last update time so screens pick up a new upload
+// without a stale browser cache.
+export async function readPresenterTheme(
+  db: Db,
+  sessionId: string
+): Promise<PresenterTheme> {
+  const theme = await db.presenterTheme.findUnique({
+    where: { sessionId },
+    omit: { logoData: true, backgroundData: true },
+  });
+
+  if (!theme) return DEFAULT_THEME;
+
+  const base = `/api/sessions/${sessionId}/theme/images`;
+  const version = theme.updatedAt.getTime();
+
+  return {
+    title: theme.title,
+    fontFamily:
+      theme.fontFamily in THEME_FONTS
+        ? (theme.fontFamily as ThemeFont)
+        : DEFAULT_THEME.fontFamily,
+    backgroundFrom: theme.backgroundFrom,
+    backgroundVia: theme.backgroundVia,
+    backgroundTo: theme.backgroundTo,
+    accentColor: theme.accentColor,
+    textColor: theme.textColor,
+    rollIntervalMs: theme.rollIntervalMs,
+    revealDelaySingleMs: theme.revealDelaySingleMs,
+    revealDelayMultiMs: theme.revealDelayMultiMs,
+    confettiEnabled: theme.confettiEnabled,
+    soundEnabled: theme.soundEnabled,
+    logoUrl: theme.logoType ? `${base}/logo?v=${version}` : null,
+    backgroundImageUrl: theme.backgroundType
+      ? `${base}/background?v=${version}`
+      : null,
+  };
+}
@@ -0,0 +1,44 @@
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { customAlphabet } from "nanoid";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// No 0/O or 1/I/L: codes get read out and typed at the desk as often as they
+// are scanned. Twelve characters from this alphabet is about 59 bits.
+const TICKET_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+export const newTicketCode = customAlphabet(TICKET_ALPHABET, 12);
+
+// Typed codes come in any case, often with the spaces or dashes the printed
+// ticket uses to group them.
+export function normalizeTicketCode(raw: string): string {
+  return raw.toUpperCase().replace(/[\s-]/g, "");
+}
+
+// Printed as XXXX-XXXX-XXXX so it can be read back over a noisy room.
+export function formatTicketCode(code: string): string {
+  return code.match(/.{1,4}/g)?.join("-") ?? code;
+}
+
+// Gives a code to every contestant still without one, in one statement so a
+// large list does not take thousands of round trips.
+export async function ensureTicketCodes(
+  db: Db,
+  sessionId: string
+): Promise<number> {
+  const missing = await db.contestant.findMany({
+    where: { sessionId, ticketCode: null },
+    select: { id: true },
+  });
+
+  if (missing.length === 0) return 0;
+
+  const ids = missing.map((contestant) => contestant.id);
+  const codes = missing.map(() => newTicketCode());
+
+  return db.$executeRaw`
+    UPDATE "Contestant" AS c
+    SET "ticketCode" = v.code
+    FROM unnest(${ids}::text[], ${codes}::text[]) AS v(id, code)
+    WHERE c."id" = v.id AND c."ticketCode" IS NULL`;
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import type { PresenterSnapshot } from "@/lib/presenter";
+
+// Subscribes to the session's presenter stream. The handler may change on
+// every render without reopening the connection.
+export function usePresenterEvents(
+  sessionId: string | undefined,
+  onState: (state: PresenterSnapshot) => void
+) {
+  const handlerRef = useRef(onState);
+
+  useEffect(() => {
+    handlerRef.current = onState;
+  });
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const source = new EventSource(
+      `/api/sessions/${sessionId}/presenter/events`
+    );
+
+    source.addEventListener("state", (event) => {
+      handlerRef.current(
+        JSON.parse((event as MessageEvent<string>).data) as PresenterSnapshot
+      );
+    });
+
+    return () => source.close();
+  }, [sessionId]);
+}
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_THEME, type PresenterTheme } from "@/lib/theme";
+
+// Loads the session's presenter theme; screens render with the default look
+// until it arrives, and keep it if the request fails.
+export function usePresenterTheme(sessionId: string | undefined) {
+  const [theme, setTheme] = useState<PresenterTheme>(DEFAULT_THEME);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const fetchTheme = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}/theme`, {
+          cache: "no-store",
+        });
+        if (!res.ok) return;
+        const data = (await res.json()) as PresenterTheme;
+        if (!cancelled) setTheme(data);
+      } catch {
+        // Fall back to the default theme.
+      }
+    };
+
+    fetchTheme();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return theme;
+}
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Draw" ADD COLUMN     "algorithm" TEXT,
+ADD COLUMN     "commitmentId" TEXT,
+ADD COLUMN     "eligibleHash" TEXT,
+ADD COLUMN     "eligibleIds" TEXT[],
+ADD COLUMN     "publicEntropy" TEXT;
+
+-- CreateTable
+CREATE TABLE "DrawCommitment" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "serverSeed" TEXT NOT NULL,
+    "seedHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DrawCommitment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Draw_commitmentId_key" ON "Draw"("commitmentId");
+
+-- AddForeignKey
+ALTER TABLE "Draw" ADD CONSTRAINT "Draw_commitmentId_fkey" FOREIGN KEY ("commitmentId") REFERENCES "DrawCommitment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DrawCommitment" ADD CONSTRAINT "DrawCommitment_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "tickets" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Draw" ADD COLUMN     "eligibleWeights" INTEGER[];
+
+-- AlterTable
+ALTER TABLE "Winner" ADD COLUMN     "tickets" INTEGER NOT NULL DEFAULT 1;
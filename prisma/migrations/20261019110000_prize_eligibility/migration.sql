@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "categories" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Prize" ADD COLUMN     "eligibleCategories" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Forfeit" (
+    "id" TEXT NOT NULL,
+    "drawId" TEXT NOT NULL,
+    "contestantId" TEXT NOT NULL,
+    "replacementId" TEXT,
+    "prizeName" TEXT NOT NULL,
+    "tickets" INTEGER NOT NULL DEFAULT 1,
+    "wonAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "forfeitedBy" TEXT NOT NULL,
+    "forfeitedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reinstatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Forfeit_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Forfeit" ADD CONSTRAINT "Forfeit_drawId_fkey" FOREIGN KEY ("drawId") REFERENCES "Draw"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Forfeit" ADD CONSTRAINT "Forfeit_contestantId_fkey" FOREIGN KEY ("contestantId") REFERENCES "Contestant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Forfeit" ADD CONSTRAINT "Forfeit_replacementId_fkey" FOREIGN KEY ("replacementId") REFERENCES "Contestant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Draw" ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3),
+ADD COLUMN     "voidedBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "VoidedWinner" (
+    "id" TEXT NOT NULL,
+    "drawId" TEXT NOT NULL,
+    "contestantId" TEXT NOT NULL,
+    "prizeName" TEXT NOT NULL,
+    "tickets" INTEGER NOT NULL DEFAULT 1,
+    "wonAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VoidedWinner_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "VoidedWinner" ADD CONSTRAINT "VoidedWinner_drawId_fkey" FOREIGN KEY ("drawId") REFERENCES "Draw"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VoidedWinner" ADD CONSTRAINT "VoidedWinner_contestantId_fkey" FOREIGN KEY ("contestantId") REFERENCES "Contestant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "PresenterState" (
+    "sessionId" TEXT NOT NULL,
+    "drawId" TEXT,
+    "phase" TEXT NOT NULL DEFAULT 'IDLE',
+    "version" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PresenterState_pkey" PRIMARY KEY ("sessionId")
+);
+
+-- AddForeignKey
+ALTER TABLE "PresenterState" ADD CONSTRAINT "PresenterState_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PresenterState" ADD CONSTRAINT "PresenterState_drawId_fkey" FOREIGN KEY ("drawId") REFERENCES "Draw"("id") ON DELETE SET NULL ON UPDATE CASCADE;
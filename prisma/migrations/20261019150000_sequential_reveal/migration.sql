@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Draw" ADD COLUMN     "revealBatchSize" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "revealMode" TEXT NOT NULL DEFAULT 'ALL',
+ADD COLUMN     "revealPosition" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Winner" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
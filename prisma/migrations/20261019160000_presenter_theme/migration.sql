@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "PresenterTheme" (
+    "sessionId" TEXT NOT NULL,
+    "title" TEXT,
+    "fontFamily" TEXT NOT NULL DEFAULT 'sans',
+    "backgroundFrom" TEXT NOT NULL DEFAULT '#022c22',
+    "backgroundVia" TEXT NOT NULL DEFAULT '#4c0519',
+    "backgroundTo" TEXT NOT NULL DEFAULT '#022c22',
+    "accentColor" TEXT NOT NULL DEFAULT '#fde68a',
+    "textColor" TEXT NOT NULL DEFAULT '#fffbeb',
+    "rollIntervalMs" INTEGER NOT NULL DEFAULT 140,
+    "revealDelaySingleMs" INTEGER NOT NULL DEFAULT 10000,
+    "revealDelayMultiMs" INTEGER NOT NULL DEFAULT 5000,
+    "confettiEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "soundEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "logoData" BYTEA,
+    "logoType" TEXT,
+    "backgroundData" BYTEA,
+    "backgroundType" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PresenterTheme_pkey" PRIMARY KEY ("sessionId")
+);
+
+-- AddForeignKey
+ALTER TABLE "PresenterTheme" ADD CONSTRAINT "PresenterTheme_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
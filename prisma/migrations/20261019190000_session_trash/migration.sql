@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Session_deletedAt_idx" ON "Session"("deletedAt");
@@ -0,0 +1,15 @@
+-- DropIndex
+DROP INDEX "Contestant_sessionId_name_key";
+
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "department" TEXT,
+ADD COLUMN     "email" TEXT,
+ADD COLUMN     "externalId" TEXT,
+ADD COLUMN     "phone" TEXT,
+ADD COLUMN     "ticketNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Contestant_sessionId_name_idx" ON "Contestant"("sessionId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contestant_sessionId_externalId_key" ON "Contestant"("sessionId", "externalId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "withdrawnAt" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "checkedInBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "requireCheckIn" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "Contestant_sessionId_checkedInAt_idx" ON "Contestant"("sessionId", "checkedInAt");
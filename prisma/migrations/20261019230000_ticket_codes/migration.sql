@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Contestant" ADD COLUMN     "ticketCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contestant_ticketCode_key" ON "Contestant"("ticketCode");
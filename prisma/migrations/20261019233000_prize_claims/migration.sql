@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN     "claimWindowMinutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Winner" ADD COLUMN     "claimStatus" TEXT NOT NULL DEFAULT 'UNCLAIMED',
+ADD COLUMN     "claimNote" TEXT,
+ADD COLUMN     "claimedAt" TIMESTAMP(3),
+ADD COLUMN     "claimedBy" TEXT;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Prize" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "imageData" BYTEA,
+ADD COLUMN     "imageType" TEXT,
+ADD COLUMN     "sortOrder" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "sponsor" TEXT,
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing prizes keep the order they were created in.
+UPDATE "Prize" AS p
+SET "sortOrder" = o.position
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "sessionId" ORDER BY "createdAt", "id") AS position
+  FROM "Prize"
+) AS o
+WHERE p."id" = o."id";
+
+-- CreateIndex
+CREATE INDEX "Prize_sessionId_sortOrder_idx" ON "Prize"("sessionId", "sortOrder");
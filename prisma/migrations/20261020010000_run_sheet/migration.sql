@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Draw" ADD COLUMN     "runSheetStepId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RunSheetStep" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "prizeId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "batchSize" INTEGER,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RunSheetStep_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RunSheetStep_sessionId_position_idx" ON "RunSheetStep"("sessionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Draw" ADD CONSTRAINT "Draw_runSheetStepId_fkey" FOREIGN KEY ("runSheetStepId") REFERENCES "RunSheetStep"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RunSheetStep" ADD CONSTRAINT "RunSheetStep_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RunSheetStep" ADD CONSTRAINT "RunSheetStep_prizeId_fkey" FOREIGN KEY ("prizeId") REFERENCES "Prize"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
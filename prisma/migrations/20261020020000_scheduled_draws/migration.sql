@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ScheduledDraw" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "prizeId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "runAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "drawId" TEXT,
+    "error" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ScheduledDraw_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledDraw_drawId_key" ON "ScheduledDraw"("drawId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledDraw_status_runAt_idx" ON "ScheduledDraw"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledDraw_sessionId_runAt_idx" ON "ScheduledDraw"("sessionId", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledDraw" ADD CONSTRAINT "ScheduledDraw_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledDraw" ADD CONSTRAINT "ScheduledDraw_prizeId_fkey" FOREIGN KEY ("prizeId") REFERENCES "Prize"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledDraw" ADD CONSTRAINT "ScheduledDraw_drawId_fkey" FOREIGN KEY ("drawId") REFERENCES "Draw"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Forfeit" ADD COLUMN     "algorithm" TEXT,
+ADD COLUMN     "commitmentId" TEXT,
+ADD COLUMN     "eligibleHash" TEXT,
+ADD COLUMN     "eligibleIds" TEXT[],
+ADD COLUMN     "eligibleWeights" INTEGER[];
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Forfeit_commitmentId_key" ON "Forfeit"("commitmentId");
+
+-- AddForeignKey
+ALTER TABLE "Forfeit" ADD CONSTRAINT "Forfeit_commitmentId_fkey" FOREIGN KEY ("commitmentId") REFERENCES "DrawCommitment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Forfeit" ADD COLUMN     "claimStatus" TEXT;
+
+-- Claim expiry was only recorded in the reason until now.
+UPDATE "Forfeit" SET "claimStatus" = 'EXPIRED' WHERE "reason" = 'Prize not claimed by the deadline';
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { AUTH_COOKIE } from "@/lib/auth-cookie";
+
+// Sends signed-out visitors to the login page. This only checks that a login
+// cookie exists; the API routes verify it and the user's role.
+export function proxy(request: NextRequest) {
+  if (request.cookies.has(AUTH_COOKIE)) return NextResponse.next();
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", request.nextUrl.pathname);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!api|login|_next|favicon.ico|.*\\..*).*)"],
+};